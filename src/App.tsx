@@ -1,17 +1,48 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { OptimizedDashboard } from './components/OptimizedDashboard';
+import { ProtocolDetailPage, NotFoundPage } from './components/ProtocolDetailPage';
+import { PROTOCOL_BY_TOKEN } from './constants';
+import { useRoute } from './hooks/useRoute';
+import { UserPreferencesProvider } from './context/UserPreferencesContext';
+import { ThemeProvider } from './context/ThemeContext';
+import type { AppRoute } from './types';
 import './index.css';
 
+const APP_TITLE = 'DAO Buyback Dashboard';
+
+const getRouteTitle = (route: AppRoute): string => {
+  switch (route.name) {
+    case 'protocol':
+      return `${PROTOCOL_BY_TOKEN[route.token].name} (${route.token}) Buybacks | ${APP_TITLE}`;
+    case 'notFound':
+      return `Not Found | ${APP_TITLE}`;
+    default:
+      return APP_TITLE;
+  }
+};
+
 /**
  * Main Application Component
- * Uses the optimized, modular dashboard architecture
+ * Routes between the optimized dashboard and per-protocol detail pages inside the preferences and theme providers
  */
 function App() {
+  const route = useRoute();
+
+  useEffect(() => {
+    document.title = getRouteTitle(route);
+  }, [route]);
+
   return (
-    <div className="App">
-      <OptimizedDashboard />
-    </div>
+    <UserPreferencesProvider>
+      <ThemeProvider>
+        <div className="App">
+          {route.name === 'dashboard' && <OptimizedDashboard />}
+          {route.name === 'protocol' && <ProtocolDetailPage token={route.token} />}
+          {route.name === 'notFound' && <NotFoundPage message="We don't track a protocol or page at this address." />}
+        </div>
+      </ThemeProvider>
+    </UserPreferencesProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
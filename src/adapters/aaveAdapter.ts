@@ -0,0 +1,53 @@
+/**
+ * Aave Adapter
+ * Fixed weekly AAVE buybacks funded from the collector contract
+ */
+
+import { PROTOCOL_BY_TOKEN } from '../constants';
+import { MOCK_BUYBACK_DATA } from '../config/protocols';
+import { MockProtocolAdapter } from './mockProtocolAdapter';
+
+const WEEKLY_BUYBACK_USD = 1000000;
+
+export class AaveAdapter extends MockProtocolAdapter {
+  constructor() {
+    super({
+      protocol: PROTOCOL_BY_TOKEN.AAVE,
+      buybacks: MOCK_BUYBACK_DATA.AAVE,
+      revenue: {
+        tradingVolume24h: 45000000,
+        totalValueLocked: 12500000000,
+        feeGeneration24h: 180000
+      },
+      mechanism: {
+        feeRate: 0.0004,
+        feeAllocationPercent: 100,
+        summary: 'Weekly $1M AAVE buybacks for six months, funded entirely by protocol fees'
+      }
+    });
+  }
+
+  /**
+   * Buybacks are capped at the weekly budget regardless of fee generation
+   */
+  estimateDailyBuyback(volume: number): number {
+    return Math.min(WEEKLY_BUYBACK_USD / 7, volume * this.config.mechanism.feeRate);
+  }
+
+  async queryProvider(query: string): Promise<any> {
+    return {
+      buybacks: {
+        weekly_buyback_amount: WEEKLY_BUYBACK_USD,
+        total_program_duration: '6 months',
+        tokens_repurchased_this_week: 5200,
+        estimated_annual_buyback: 52000000,
+        fee_allocation: 1.0
+      },
+      metrics: {
+        price: await this.fetchPrice(),
+        tvl: 12500000000,
+        borrowing_rate: 0.045
+      }
+    };
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * DeBridge Adapter
+ * DBR buybacks funded by cross-chain transfer fees
+ */
+
+import { PROTOCOL_BY_TOKEN } from '../constants';
+import { MOCK_BUYBACK_DATA } from '../config/protocols';
+import { MockProtocolAdapter } from './mockProtocolAdapter';
+
+export class DeBridgeAdapter extends MockProtocolAdapter {
+  constructor() {
+    super({
+      protocol: PROTOCOL_BY_TOKEN.DBR,
+      buybacks: MOCK_BUYBACK_DATA.DBR,
+      revenue: {
+        tradingVolume24h: PROTOCOL_BY_TOKEN.DBR.baseVolume,
+        feeGeneration24h: PROTOCOL_BY_TOKEN.DBR.baseVolume * 0.0001
+      },
+      mechanism: {
+        feeRate: 0.0001,
+        feeAllocationPercent: 60,
+        summary: '60% of bridging fees are allocated to DBR repurchases'
+      }
+    });
+  }
+}
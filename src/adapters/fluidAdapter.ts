@@ -0,0 +1,26 @@
+/**
+ * Fluid Adapter
+ * FLUID buybacks funded by lending and DEX revenue
+ */
+
+import { PROTOCOL_BY_TOKEN } from '../constants';
+import { MOCK_BUYBACK_DATA } from '../config/protocols';
+import { MockProtocolAdapter } from './mockProtocolAdapter';
+
+export class FluidAdapter extends MockProtocolAdapter {
+  constructor() {
+    super({
+      protocol: PROTOCOL_BY_TOKEN.FLUID,
+      buybacks: MOCK_BUYBACK_DATA.FLUID,
+      revenue: {
+        tradingVolume24h: PROTOCOL_BY_TOKEN.FLUID.baseVolume,
+        feeGeneration24h: PROTOCOL_BY_TOKEN.FLUID.baseVolume * 0.00012
+      },
+      mechanism: {
+        feeRate: 0.00012,
+        feeAllocationPercent: 80,
+        summary: '80% of lending and DEX revenue is used to buy back FLUID'
+      }
+    });
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Hyperliquid Adapter
+ * HYPE buybacks funded by the Assistance Fund from trading fees
+ */
+
+import { PROTOCOL_BY_TOKEN } from '../constants';
+import { MOCK_BUYBACK_DATA } from '../config/protocols';
+import { MockProtocolAdapter } from './mockProtocolAdapter';
+
+export class HyperliquidAdapter extends MockProtocolAdapter {
+  constructor() {
+    super({
+      protocol: PROTOCOL_BY_TOKEN.HYPE,
+      buybacks: MOCK_BUYBACK_DATA.HYPE,
+      revenue: {
+        tradingVolume24h: 1200000000,
+        totalValueLocked: 890000000,
+        feeGeneration24h: 2400000
+      },
+      mechanism: {
+        feeRate: 0.0002,
+        feeAllocationPercent: 97,
+        summary: '97% of trading fees flow to the Assistance Fund, which buys HYPE on the open market'
+      }
+    });
+  }
+
+  async queryProvider(query: string): Promise<any> {
+    return {
+      buybacks: {
+        total_volume_24h: 1200000000,
+        fee_generation_24h: 2400000,
+        buyback_allocation: 0.97,
+        estimated_buyback_24h: 2328000,
+        total_tokens_burned: 20150000,
+        market_cap: 6200000000
+      },
+      metrics: {
+        price: await this.fetchPrice(),
+        volume_24h: 1200000000,
+        circulating_supply: 322580645
+      }
+    };
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Protocol Adapter Registry
+ * Adding a protocol means writing one adapter and registering it here
+ */
+
+import { HyperliquidAdapter } from './hyperliquidAdapter';
+import { JupiterAdapter } from './jupiterAdapter';
+import { AaveAdapter } from './aaveAdapter';
+import { JitoAdapter } from './jitoAdapter';
+import { PumpFunAdapter } from './pumpFunAdapter';
+import { DeBridgeAdapter } from './deBridgeAdapter';
+import { FluidAdapter } from './fluidAdapter';
+import type { ProtocolAdapter } from '../types';
+
+export { MockProtocolAdapter } from './mockProtocolAdapter';
+export type { MockAdapterConfig } from './mockProtocolAdapter';
+
+const adapters: ProtocolAdapter[] = [
+  new HyperliquidAdapter(),
+  new JupiterAdapter(),
+  new AaveAdapter(),
+  new JitoAdapter(),
+  new PumpFunAdapter(),
+  new DeBridgeAdapter(),
+  new FluidAdapter(),
+];
+
+/**
+ * Register an additional adapter, replacing any existing adapter for the same token
+ */
+export const registerProtocolAdapter = (adapter: ProtocolAdapter): void => {
+  const index = adapters.findIndex(existing => existing.token === adapter.token);
+  if (index >= 0) {
+    adapters[index] = adapter;
+  } else {
+    adapters.push(adapter);
+  }
+};
+
+export const getProtocolAdapters = (): ProtocolAdapter[] => {
+  return [...adapters];
+};
+
+export const getProtocolAdapter = (token: string): ProtocolAdapter | undefined => {
+  return adapters.find(adapter => adapter.token === token);
+};
+
+export const getProtocolAdapterByName = (name: string): ProtocolAdapter | undefined => {
+  const nameLower = name.toLowerCase();
+  return adapters.find(adapter => adapter.name.toLowerCase() === nameLower);
+};
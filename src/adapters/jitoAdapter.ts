@@ -0,0 +1,26 @@
+/**
+ * Jito Adapter
+ * JTO buybacks funded by MEV tip-router and block engine fees
+ */
+
+import { PROTOCOL_BY_TOKEN } from '../constants';
+import { MOCK_BUYBACK_DATA } from '../config/protocols';
+import { MockProtocolAdapter } from './mockProtocolAdapter';
+
+export class JitoAdapter extends MockProtocolAdapter {
+  constructor() {
+    super({
+      protocol: PROTOCOL_BY_TOKEN.JTO,
+      buybacks: MOCK_BUYBACK_DATA.JTO,
+      revenue: {
+        tradingVolume24h: PROTOCOL_BY_TOKEN.JTO.baseVolume,
+        feeGeneration24h: PROTOCOL_BY_TOKEN.JTO.baseVolume * 0.00015
+      },
+      mechanism: {
+        feeRate: 0.00015,
+        feeAllocationPercent: 75,
+        summary: '75% of tip-router and block engine fees are directed to JTO repurchases'
+      }
+    });
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Jupiter Adapter
+ * JUP buybacks funded by half of aggregator protocol fees
+ */
+
+import { PROTOCOL_BY_TOKEN } from '../constants';
+import { MOCK_BUYBACK_DATA } from '../config/protocols';
+import { MockProtocolAdapter } from './mockProtocolAdapter';
+
+export class JupiterAdapter extends MockProtocolAdapter {
+  constructor() {
+    super({
+      protocol: PROTOCOL_BY_TOKEN.JUP,
+      buybacks: MOCK_BUYBACK_DATA.JUP,
+      revenue: {
+        tradingVolume24h: 850000000,
+        totalValueLocked: 320000000,
+        feeGeneration24h: 850000
+      },
+      mechanism: {
+        feeRate: 0.0001,
+        feeAllocationPercent: 50,
+        summary: '50% of protocol fees are used to repurchase JUP, held in a long-term litterbox wallet'
+      }
+    });
+  }
+
+  async queryProvider(query: string): Promise<any> {
+    return {
+      buybacks: {
+        protocol_revenue_24h: 850000,
+        buyback_allocation: 0.50,
+        estimated_buyback_24h: 425000,
+        total_tokens_repurchased: 45200000,
+        current_buyback_rate: 'weekly'
+      },
+      metrics: {
+        price: await this.fetchPrice(),
+        volume_24h: 850000000,
+        swap_count_24h: 125000
+      }
+    };
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Mock Protocol Adapter
+ * Base adapter backed by static configuration; real integrations override individual fetchers
+ */
+
+import type {
+  BuybackData,
+  BuybackMechanism,
+  ProtocolAdapter,
+  ProtocolDefinition,
+  ProtocolRevenue,
+  ProtocolSeed,
+  ProtocolToken
+} from '../types';
+
+/**
+ * Static configuration describing a protocol's mock behaviour
+ */
+export interface MockAdapterConfig {
+  protocol: ProtocolDefinition;
+  buybacks: BuybackData;
+  revenue: ProtocolRevenue;
+  mechanism: BuybackMechanism;
+}
+
+export class MockProtocolAdapter implements ProtocolAdapter {
+  public readonly name: string;
+  public readonly token: ProtocolToken;
+  public readonly coingeckoId: string;
+  public readonly seed: ProtocolSeed;
+  protected readonly config: MockAdapterConfig;
+
+  constructor(config: MockAdapterConfig) {
+    this.config = config;
+    this.name = config.protocol.name;
+    this.token = config.protocol.token;
+    this.coingeckoId = config.protocol.coingeckoId;
+    this.seed = {
+      basePrice: config.protocol.mockPrice,
+      baseVolume: config.protocol.baseVolume,
+      reportedValueUSD: config.buybacks.totalValueUSD,
+      reportedTokens: config.buybacks.totalRepurchased,
+      circulatingSupplyPercent: config.buybacks.circulatingSupplyPercent,
+      estimatedAnnualBuyback: config.buybacks.estimatedAnnualBuyback,
+    };
+  }
+
+  async fetchBuybacks(): Promise<BuybackData> {
+    return { ...this.config.buybacks };
+  }
+
+  async fetchPrice(): Promise<number> {
+    return this.seed.basePrice;
+  }
+
+  async fetchRevenue(): Promise<ProtocolRevenue> {
+    return { ...this.config.revenue };
+  }
+
+  describeMechanism(): BuybackMechanism {
+    return { ...this.config.mechanism };
+  }
+
+  /**
+   * Daily buyback in USD for a given 24h trading volume
+   */
+  estimateDailyBuyback(volume: number): number {
+    const { feeRate, feeAllocationPercent } = this.config.mechanism;
+    return volume * feeRate * (feeAllocationPercent / 100);
+  }
+
+  /**
+   * Provider-shaped snapshot used by the MCP service
+   */
+  async queryProvider(query: string): Promise<any> {
+    const revenue = await this.fetchRevenue();
+    const { feeAllocationPercent } = this.config.mechanism;
+
+    return {
+      buybacks: {
+        total_volume_24h: revenue.tradingVolume24h,
+        fee_generation_24h: revenue.feeGeneration24h,
+        buyback_allocation: feeAllocationPercent / 100,
+        estimated_buyback_24h: this.estimateDailyBuyback(revenue.tradingVolume24h),
+        total_tokens_repurchased: this.config.buybacks.totalRepurchased
+      },
+      metrics: {
+        price: await this.fetchPrice(),
+        volume_24h: revenue.tradingVolume24h
+      }
+    };
+  }
+}
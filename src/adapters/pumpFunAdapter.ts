@@ -0,0 +1,26 @@
+/**
+ * Pump.fun Adapter
+ * PUMP buybacks funded by launchpad and PumpSwap fees
+ */
+
+import { PROTOCOL_BY_TOKEN } from '../constants';
+import { MOCK_BUYBACK_DATA } from '../config/protocols';
+import { MockProtocolAdapter } from './mockProtocolAdapter';
+
+export class PumpFunAdapter extends MockProtocolAdapter {
+  constructor() {
+    super({
+      protocol: PROTOCOL_BY_TOKEN.PUMP,
+      buybacks: MOCK_BUYBACK_DATA.PUMP,
+      revenue: {
+        tradingVolume24h: PROTOCOL_BY_TOKEN.PUMP.baseVolume,
+        feeGeneration24h: PROTOCOL_BY_TOKEN.PUMP.baseVolume * 0.0003
+      },
+      mechanism: {
+        feeRate: 0.0003,
+        feeAllocationPercent: 95,
+        summary: '95% of platform revenue is used for daily PUMP buybacks'
+      }
+    });
+  }
+}
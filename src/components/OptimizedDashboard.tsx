@@ -3,30 +3,94 @@
  * Clean, maintainable dashboard using the new modular architecture
  */
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { 
   EXPECTED_PROTOCOL_COUNT,
   ANIMATION_DURATIONS,
   ANIMATION_DELAYS,
-  THEME_COLORS 
+  DAY_MS,
+  THEME_COLORS,
+  TIMEFRAME_CONFIG,
+  INTRADAY_TIMEFRAMES,
+  SORT_OPTIONS,
+  SORT_OPTION_LABELS,
+  VALUATION_METRICS,
+  RUN_RATE_WINDOWS,
+  RUN_RATE_METHOD_LABELS,
+  RUN_RATE_CONFIG,
+  DEFAULT_RUN_RATE_WINDOW
 } from '../constants';
-import { formatCurrency, formatTokenAmount } from '../utils/formatters';
-import { getProtocolColor, sortArray, isValidProtocolCount } from '../utils/helpers';
-import { OptimizedDataService } from '../services/optimizedDataService';
+import {
+  formatCurrency,
+  formatOptionalCurrency,
+  formatPercentage,
+  formatPrice,
+  formatSignedCurrency,
+  formatTokenAmount,
+  formatValuationMetric
+} from '../utils/formatters';
+import { calculatePeriodChange } from '../utils/changeMetrics';
+import { calculateGlobalStats } from '../utils/marketStats';
+import { calculateValuationMetrics } from '../utils/valuationMetrics';
+import { estimateRunRate, getRunRateUncertainty } from '../utils/runRate';
+import { buildCostBasisSeries, calculateCostBasis } from '../utils/costBasis';
+import {
+  getProtocolColor,
+  sortArray,
+  isValidProtocolCount,
+  isValidProtocolToken,
+  calculatePercentageChange
+} from '../utils/helpers';
+import { readDashboardUrl, syncDashboardUrl } from '../utils/urlState';
+import { withAlpha } from '../utils/theme';
+import { ROUTE_PATHS, handleLinkClick } from '../utils/router';
+import {
+  useBuybackData,
+  useHistoricalData,
+  useMarketData,
+  usePerformanceMetrics,
+  usePriceHistory,
+  useProtocolRevenue,
+  useRecentBuybackValue,
+  useTokenPrices
+} from '../hooks/useBuybackQueries';
+import { useUserPreferences } from '../context/UserPreferencesContext';
 import { Header } from './layout/Header';
 import { Footer } from './layout/Footer';
 import { OptimizedChart } from './charts/OptimizedChart';
+import { ComparisonChart } from './charts/ComparisonChart';
+import { BubbleChart } from './charts/BubbleChart';
+import { PerformanceMetrics } from './charts/PerformanceMetrics';
+import { ChangeMetrics } from './sections/ChangeMetrics';
+import { FeeSimulator } from './sections/FeeSimulator';
+import { Leaderboards } from './sections/Leaderboards';
+import { MarketImpact } from './sections/MarketImpact';
+import { NetFlow } from './sections/NetFlow';
+import { MarketOverview } from './sections/MarketOverview';
+import { ProtocolHero } from './sections/ProtocolHero';
+import { SupplyProjection } from './sections/SupplyProjection';
+import { ValuationHistory } from './sections/ValuationHistory';
+import { WorkspaceGrid } from './layout/WorkspaceGrid';
 import { ProtocolLogoImage } from './ProtocolLogo';
 import { SubmissionModal } from './SubmissionModal';
 import type { 
   BuybackData, 
+  ChartDataPoint,
+  CostBasisSummary,
   GlobalStats, 
   SortOption, 
   SortOrder,
-  DashboardState 
+  DashboardView,
+  RunRateEstimate,
+  RunRateWindow,
+  ValuationMetrics,
+  TimeframeOption
 } from '../types';
 
+// Chart points added from market price history only reach this far back
+const INTRADAY_WINDOW_DAYS = Math.max(0, ...INTRADAY_TIMEFRAMES.map(timeframe => TIMEFRAME_CONFIG[timeframe].days));
+
 /**
  * Global market statistics component
  */
@@ -34,66 +98,89 @@ interface GlobalStatsProps {
   stats: GlobalStats;
 }
 
-const GlobalStatsSection = React.memo<GlobalStatsProps>(({ stats }) => (
-  <motion.div 
-    style={{ 
-      background: THEME_COLORS.MEDIUM_BLACK, 
-      borderBottom: `1px solid ${THEME_COLORS.LIGHT_BLACK}` 
-    }}
-    initial={{ opacity: 0, y: 20 }}
-    animate={{ opacity: 1, y: 0 }}
-    transition={{ delay: ANIMATION_DELAYS.SHORT, duration: ANIMATION_DURATIONS.NORMAL }}
-  >
-    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-      {/* Compact Header with Description */}
-      <div className="text-center mb-6">
-        <div className="flex items-center justify-center gap-2 mb-2">
-          <span className="text-xl">🏛️</span>
-          <h1 className="text-xl font-bold text-white font-mono">DAO Treasury Analytics</h1>
-        </div>
-        <p className="text-xs text-gray-400 max-w-2xl mx-auto">
-          Strategic token buybacks across leading decentralized autonomous organizations
-        </p>
-      </div>
-      
-      {/* Stats Container */}
-      <div className="bg-gradient-to-r from-[#0a0a0a] via-[#111] to-[#0a0a0a] rounded-xl border border-gray-800/50 p-6">
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-6">
-          <div className="group text-center">
-            <div className="text-xs text-gray-500 mb-1 font-mono uppercase tracking-wide">Protocols</div>
-            <div className="font-bold text-white text-2xl font-mono group-hover:text-green-400 transition-colors">
-              {stats.totalCoins}
-            </div>
-          </div>
-          <div className="group text-center">
-            <div className="text-xs text-gray-500 mb-1 font-mono uppercase tracking-wide">Market Cap</div>
-            <div className="font-bold text-white text-2xl font-mono group-hover:text-green-400 transition-colors">
-              {formatCurrency(stats.totalMarketCap)}
-            </div>
-          </div>
-          <div className="group text-center">
-            <div className="text-xs text-gray-500 mb-1 font-mono uppercase tracking-wide">24h Volume</div>
-            <div className="font-bold text-white text-2xl font-mono group-hover:text-green-400 transition-colors">
-              {formatCurrency(stats.total24hVolume)}
-            </div>
+const StatCell = React.memo(({ label, value, caption }: { label: string; value: string; caption?: string }) => (
+  <div className="group text-center">
+    <div className="text-xs text-gray-500 mb-1 font-mono uppercase tracking-wide">{label}</div>
+    <div className="font-bold text-white text-xl font-mono group-hover:text-green-400 transition-colors">
+      {value}
+    </div>
+    {caption && <div className="text-[10px] text-gray-500 font-mono mt-1">{caption}</div>}
+  </div>
+));
+
+StatCell.displayName = 'StatCell';
+
+const GlobalStatsSection = React.memo<GlobalStatsProps>(({ stats }) => {
+  const dominance = sortArray(
+    Object.keys(stats.dominanceMetrics).map(protocol => ({ protocol, share: stats.dominanceMetrics[protocol] })),
+    item => item.share,
+    'desc'
+  );
+  const marketCaption = stats.marketDataCount < stats.totalCoins
+    ? `${stats.marketDataCount} of ${stats.totalCoins} tokens reported`
+    : undefined;
+
+  return (
+    <motion.div 
+      style={{ 
+        background: THEME_COLORS.SURFACE_RAISED, 
+        borderBottom: `1px solid ${THEME_COLORS.BORDER}` 
+      }}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: ANIMATION_DELAYS.SHORT, duration: ANIMATION_DURATIONS.NORMAL }}
+    >
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Compact Header with Description */}
+        <div className="text-center mb-6">
+          <div className="flex items-center justify-center gap-2 mb-2">
+            <span className="text-xl">🏛️</span>
+            <h1 className="text-xl font-bold text-white font-mono">DAO Treasury Analytics</h1>
           </div>
-          <div className="group text-center">
-            <div className="text-xs text-gray-500 mb-1 font-mono uppercase tracking-wide">Tokens Bought</div>
-            <div className="font-bold text-white text-2xl font-mono group-hover:text-green-400 transition-colors">
-              {formatTokenAmount(stats.totalTokensBoughtBack)}M
-            </div>
+          <p className="text-xs text-gray-400 max-w-2xl mx-auto">
+            Strategic token buybacks across leading decentralized autonomous organizations
+          </p>
+        </div>
+        
+        {/* Stats Container */}
+        <div className="bg-gradient-to-r from-surface via-surface-raised to-surface rounded-xl border border-gray-800/50 p-6 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-6">
+            <StatCell label="Protocols" value={String(stats.totalCoins)} />
+            <StatCell label="Market Cap" value={formatOptionalCurrency(stats.totalMarketCap)} caption={marketCaption} />
+            <StatCell label="FDV" value={formatOptionalCurrency(stats.totalFullyDilutedValuation)} />
+            <StatCell label="24h Volume" value={formatOptionalCurrency(stats.total24hVolume)} caption="Spot trading" />
+            <StatCell label="24h Buybacks" value={formatOptionalCurrency(stats.buyback24h)} caption="From stored snapshots" />
+            <StatCell label="Total Bought Back" value={formatCurrency(stats.totalBuybackValue)} />
           </div>
-          <div className="group text-center">
-            <div className="text-xs text-gray-500 mb-1 font-mono uppercase tracking-wide">Revenue</div>
-            <div className="font-bold text-white text-2xl font-mono group-hover:text-green-400 transition-colors">
-              {formatCurrency(stats.totalRevenue)}
+
+          {/* Buyback dominance */}
+          {dominance.length > 0 && (
+            <div>
+              <div className="text-xs text-gray-500 mb-2 font-mono uppercase tracking-wide">Buyback Dominance</div>
+              <div className="flex h-2 rounded-full overflow-hidden" style={{ background: THEME_COLORS.SURFACE_STRONG }}>
+                {dominance.map(item => (
+                  <div
+                    key={item.protocol}
+                    style={{ width: `${item.share}%`, background: getProtocolColor(item.protocol) }}
+                    title={`${item.protocol}: ${formatPercentage(item.share, 1)}`}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs font-mono">
+                {dominance.map(item => (
+                  <span key={item.protocol} className="flex items-center gap-1.5 text-gray-400">
+                    <span className="w-2 h-2 rounded-full" style={{ background: getProtocolColor(item.protocol) }} />
+                    {item.protocol} <span className="text-white">{formatPercentage(item.share, 1)}</span>
+                  </span>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
         </div>
       </div>
-    </div>
-  </motion.div>
-));
+    </motion.div>
+  );
+});
 
 GlobalStatsSection.displayName = 'GlobalStatsSection';
 
@@ -128,13 +215,13 @@ const ProtocolSelector = React.memo<ProtocolSelectorProps>(({
           className={`w-full text-left p-3 rounded-lg transition-all ${
             selectedProtocol === protocol.protocol
               ? 'border bg-opacity-10 hover:bg-opacity-20'
-              : 'border border-transparent hover:bg-[#1a1a1a]'
+              : 'border border-transparent hover:bg-surface-strong'
           }`}
           style={
             selectedProtocol === protocol.protocol
               ? {
-                  borderColor: THEME_COLORS.PRIMARY_GREEN,
-                  backgroundColor: `${THEME_COLORS.PRIMARY_GREEN}1a`
+                  borderColor: THEME_COLORS.ACCENT,
+                  backgroundColor: withAlpha(THEME_COLORS.ACCENT, 0.1)
                 }
               : {}
           }
@@ -151,7 +238,7 @@ const ProtocolSelector = React.memo<ProtocolSelectorProps>(({
               <div className="font-medium text-white font-mono">
                 {formatCurrency(protocol.totalValueUSD)}
               </div>
-              <div className="text-sm" style={{ color: THEME_COLORS.PRIMARY_GREEN }}>+{protocol.circulatingSupplyPercent}%</div>
+              <div className="text-sm" style={{ color: THEME_COLORS.ACCENT }}>+{protocol.circulatingSupplyPercent}%</div>
             </div>
           </div>
         </button>
@@ -162,11 +249,75 @@ const ProtocolSelector = React.memo<ProtocolSelectorProps>(({
 
 ProtocolSelector.displayName = 'ProtocolSelector';
 
+/**
+ * Annualised buyback with the method and band behind it
+ */
+const RunRateCell = React.memo(({ estimate, fallback }: { estimate?: RunRateEstimate; fallback: number }) => {
+  if (!estimate) return <>{formatCurrency(fallback)}</>;
+
+  const uncertainty = getRunRateUncertainty(estimate);
+  const detail = estimate.method === 'reported'
+    ? RUN_RATE_METHOD_LABELS.reported
+    : `${estimate.observedDays}d ${estimate.method === 'partial' ? 'partial ' : ''}run-rate` +
+      (uncertainty === null ? '' : ` ±${formatPercentage(uncertainty * 100, 0)}`);
+
+  return (
+    <div title={`${RUN_RATE_METHOD_LABELS[estimate.method]}: ${formatCurrency(estimate.low)} – ${formatCurrency(estimate.high)}`}>
+      <div>{formatCurrency(estimate.annualized)}</div>
+      <div className="text-xs text-gray-500">{detail}</div>
+    </div>
+  );
+});
+
+RunRateCell.displayName = 'RunRateCell';
+
+const getPnlClass = (pnl: number | null): string => {
+  if (pnl === null) return 'text-gray-500';
+  if (pnl > 0) return 'text-green-400';
+  if (pnl < 0) return 'text-red-400';
+  return 'text-white';
+};
+
+/**
+ * Unrealised PnL, average cost and marked value of the repurchased tokens
+ */
+const CostBasisCells = React.memo(({ costBasis }: { costBasis?: CostBasisSummary }) => {
+  const pnl = costBasis ? costBasis.unrealizedPnl : null;
+  return (
+    <>
+      <td className={`px-6 py-4 whitespace-nowrap text-sm font-mono ${getPnlClass(pnl)}`}>
+        <div>{formatSignedCurrency(pnl)}</div>
+        {costBasis && costBasis.unrealizedPnlPercent !== null && (
+          <div className="text-xs">{formatPercentage(costBasis.unrealizedPnlPercent, 1, true)}</div>
+        )}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-white font-mono">
+        <div>{costBasis ? formatPrice(costBasis.averageCost) : 'n/a'}</div>
+        {costBasis && costBasis.currentPrice !== null && (
+          <div className="text-xs text-gray-500">now {formatPrice(costBasis.currentPrice)}</div>
+        )}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-white font-mono">
+        <div>{formatOptionalCurrency(costBasis ? costBasis.marketValue : null)}</div>
+        {costBasis && (
+          <div className="text-xs text-gray-500">cost {formatCurrency(costBasis.costBasis)}</div>
+        )}
+      </td>
+    </>
+  );
+});
+
+CostBasisCells.displayName = 'CostBasisCells';
+
 /**
  * Protocol rankings table component
  */
 interface ProtocolTableProps {
   protocols: BuybackData[];
+  valuations: Record<string, ValuationMetrics>;  // By protocol name
+  runRates: Record<string, RunRateEstimate>;     // By protocol name
+  costBases: Record<string, CostBasisSummary>;   // By protocol name; absent without stored rows
+  runRateWindow: RunRateWindow;
   selectedProtocol: string;
   sortBy: SortOption;
   sortOrder: SortOrder;
@@ -174,17 +325,23 @@ interface ProtocolTableProps {
   onSort: (column: SortOption) => void;
   onSortByChange: (sortBy: SortOption) => void;
   onSortOrderChange: (sortOrder: SortOrder) => void;
+  onRunRateWindowChange: (runRateWindow: RunRateWindow) => void;
 }
 
 const ProtocolTable = React.memo<ProtocolTableProps>(({
   protocols,
+  valuations,
+  runRates,
+  costBases,
+  runRateWindow,
   selectedProtocol,
   sortBy,
   sortOrder,
   onProtocolSelect,
   onSort,
   onSortByChange,
-  onSortOrderChange
+  onSortOrderChange,
+  onRunRateWindowChange
 }) => {
   const SortIcon = ({ column }: { column: SortOption }) => (
     sortBy === column ? (
@@ -204,13 +361,12 @@ const ProtocolTable = React.memo<ProtocolTableProps>(({
 
   return (
     <motion.div 
-      className="mt-8"
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ delay: ANIMATION_DELAYS.VERY_LONG, duration: ANIMATION_DURATIONS.NORMAL }}
     >
       <div className="dark-card overflow-hidden">
-        <div className="px-6 py-4" style={{ borderBottom: '1px solid #1a1a1a' }}>
+        <div className="px-6 py-4" style={{ borderBottom: `1px solid ${THEME_COLORS.BORDER}` }}>
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
             <h3 className="text-lg font-semibold text-white font-mono">Protocol Buyback Rankings</h3>
             
@@ -223,16 +379,15 @@ const ProtocolTable = React.memo<ProtocolTableProps>(({
                   onChange={(e) => onSortByChange(e.target.value as SortOption)}
                   className="px-3 py-1 text-sm text-white border border-gray-600 rounded font-mono focus:outline-none transition-colors"
                   style={{ 
-                    backgroundColor: THEME_COLORS.MEDIUM_BLACK,
-                    borderColor: 'focus:' + THEME_COLORS.PRIMARY_GREEN
+                    backgroundColor: THEME_COLORS.SURFACE_RAISED,
+                    borderColor: 'focus:' + THEME_COLORS.ACCENT
                   }}
-                  onFocus={(e) => e.target.style.borderColor = THEME_COLORS.PRIMARY_GREEN}
-                  onBlur={(e) => e.target.style.borderColor = '#4b5563'}
+                  onFocus={(e) => e.target.style.borderColor = THEME_COLORS.ACCENT}
+                  onBlur={(e) => e.target.style.borderColor = ''}
                 >
-                  <option value="buybackValue">Buyback Value</option>
-                  <option value="revenue">Protocol Revenue</option>
-                  <option value="tokensBought">Tokens Bought</option>
-                  <option value="change">Supply Reduced</option>
+                  {SORT_OPTIONS.map(option => (
+                    <option key={option} value={option}>{SORT_OPTION_LABELS[option]}</option>
+                  ))}
                 </select>
               </div>
               
@@ -243,22 +398,46 @@ const ProtocolTable = React.memo<ProtocolTableProps>(({
                   onChange={(e) => onSortOrderChange(e.target.value as SortOrder)}
                   className="px-3 py-1 text-sm text-white border border-gray-600 rounded font-mono focus:outline-none transition-colors"
                   style={{ 
-                    backgroundColor: THEME_COLORS.MEDIUM_BLACK,
-                    borderColor: 'focus:' + THEME_COLORS.PRIMARY_GREEN
+                    backgroundColor: THEME_COLORS.SURFACE_RAISED,
+                    borderColor: 'focus:' + THEME_COLORS.ACCENT
                   }}
-                  onFocus={(e) => e.target.style.borderColor = THEME_COLORS.PRIMARY_GREEN}
-                  onBlur={(e) => e.target.style.borderColor = '#4b5563'}
+                  onFocus={(e) => e.target.style.borderColor = THEME_COLORS.ACCENT}
+                  onBlur={(e) => e.target.style.borderColor = ''}
                 >
                   <option value="desc">Highest First</option>
                   <option value="asc">Lowest First</option>
                 </select>
               </div>
+
+              <div className="flex items-center gap-2">
+                <label className="text-sm text-gray-400 font-mono">Run-rate:</label>
+                <select
+                  value={runRateWindow}
+                  onChange={(e) => onRunRateWindowChange(Number(e.target.value) as RunRateWindow)}
+                  className="px-3 py-1 text-sm text-white border border-gray-600 rounded font-mono focus:outline-none transition-colors"
+                  style={{ 
+                    backgroundColor: THEME_COLORS.SURFACE_RAISED,
+                    borderColor: 'focus:' + THEME_COLORS.ACCENT
+                  }}
+                  onFocus={(e) => e.target.style.borderColor = THEME_COLORS.ACCENT}
+                  onBlur={(e) => e.target.style.borderColor = ''}
+                >
+                  {RUN_RATE_WINDOWS.map(days => (
+                    <option key={days} value={days}>{days}-day</option>
+                  ))}
+                </select>
+              </div>
             </div>
           </div>
+          <p className="text-xs text-gray-500 font-mono mt-3">
+            {SORT_OPTION_LABELS.volume}: trailing {runRateWindow}-day run-rate of stored buybacks with a 95% band,
+            or the protocol's reported estimate where fewer than {RUN_RATE_CONFIG.MIN_OBSERVED_DAYS} days are stored.
+            Valuation metrics use the same figure. Cost basis treats every repurchased token as still held.
+          </p>
         </div>
         <div className="overflow-x-auto">
           <table className="w-full">
-            <thead style={{ background: THEME_COLORS.DARK_BLACK }}>
+            <thead style={{ background: THEME_COLORS.SURFACE }}>
               <tr>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider font-mono">
                   #
@@ -266,52 +445,34 @@ const ProtocolTable = React.memo<ProtocolTableProps>(({
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider font-mono">
                   Protocol
                 </th>
-                <th 
-                  className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider cursor-pointer hover:text-white transition-colors font-mono"
-                  onClick={() => onSort('marketCap')}
-                >
-                  <div className="flex items-center gap-1">
-                    Buyback Value
-                    <SortIcon column="marketCap" />
-                  </div>
-                </th>
-                <th 
-                  className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider cursor-pointer hover:text-white transition-colors font-mono"
-                  onClick={() => onSort('volume')}
-                >
-                  <div className="flex items-center gap-1">
-                    Protocol Revenue
-                    <SortIcon column="volume" />
-                  </div>
-                </th>
-                <th 
-                  className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider cursor-pointer hover:text-white transition-colors font-mono"
-                  onClick={() => onSort('change')}
-                >
-                  <div className="flex items-center gap-1">
-                    Tokens Bought
-                    <SortIcon column="change" />
-                  </div>
+                {SORT_OPTIONS.map(column => (
+                  <th 
+                    key={column}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider cursor-pointer hover:text-white transition-colors font-mono"
+                    onClick={() => onSort(column)}
+                  >
+                    <div className="flex items-center gap-1 whitespace-nowrap">
+                      {SORT_OPTION_LABELS[column]}
+                      <SortIcon column={column} />
+                    </div>
+                  </th>
+                ))}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider font-mono whitespace-nowrap">
+                  Avg Cost
                 </th>
-                <th 
-                  className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider cursor-pointer hover:text-white transition-colors font-mono"
-                  onClick={() => onSort('change')}
-                >
-                  <div className="flex items-center gap-1">
-                    Supply Reduced
-                    <SortIcon column="change" />
-                  </div>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider font-mono whitespace-nowrap">
+                  Marked Value
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider font-mono">
                   Fee Allocation
                 </th>
               </tr>
             </thead>
-            <tbody style={{ background: THEME_COLORS.MEDIUM_BLACK }}>
+            <tbody style={{ background: THEME_COLORS.SURFACE_RAISED }}>
               {protocols.map((protocol, index) => (
                 <tr 
                   key={protocol.protocol} 
-                  className="cursor-pointer transition-colors border-b border-[#1a1a1a] hover:bg-[#151515]"
+                  className="cursor-pointer transition-colors border-b border-line hover:bg-surface-hover"
                   onClick={() => onProtocolSelect(protocol.protocol)}
                 >
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-white">
@@ -320,7 +481,7 @@ const ProtocolTable = React.memo<ProtocolTableProps>(({
                       {selectedProtocol === protocol.protocol && (
                         <div 
                           className="w-2 h-2 rounded-full" 
-                          style={{ background: THEME_COLORS.PRIMARY_GREEN }}
+                          style={{ background: THEME_COLORS.ACCENT }}
                         />
                       )}
                     </div>
@@ -329,7 +490,16 @@ const ProtocolTable = React.memo<ProtocolTableProps>(({
                     <div className="flex items-center gap-3">
                       <ProtocolLogoImage protocol={protocol.protocol} size="md" />
                       <div>
-                        <div className="font-medium text-white">{protocol.protocol}</div>
+                        <a
+                          href={ROUTE_PATHS.protocol(protocol.token)}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleLinkClick(e, ROUTE_PATHS.protocol(protocol.token));
+                          }}
+                          className="font-medium text-white hover:underline"
+                        >
+                          {protocol.protocol}
+                        </a>
                         <div className="text-sm text-gray-400">{protocol.token}</div>
                       </div>
                     </div>
@@ -338,16 +508,22 @@ const ProtocolTable = React.memo<ProtocolTableProps>(({
                     {formatCurrency(protocol.totalValueUSD)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-white font-mono">
-                    {formatCurrency(protocol.estimatedAnnualBuyback * 0.15)}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-white font-mono">
-                    {formatTokenAmount(protocol.totalRepurchased)}
+                    <RunRateCell estimate={runRates[protocol.protocol]} fallback={protocol.estimatedAnnualBuyback} />
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className="text-sm font-medium font-mono" style={{ color: THEME_COLORS.PRIMARY_GREEN }}>
+                    <span className="text-sm font-medium font-mono" style={{ color: THEME_COLORS.ACCENT }}>
                       {protocol.circulatingSupplyPercent}%
                     </span>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-white font-mono">
+                    {formatTokenAmount(protocol.totalRepurchased)}
+                  </td>
+                  {VALUATION_METRICS.map(metric => (
+                    <td key={metric} className="px-6 py-4 whitespace-nowrap text-sm text-white font-mono">
+                      {formatValuationMetric(metric, valuations[protocol.protocol]?.[metric] ?? null)}
+                    </td>
+                  ))}
+                  <CostBasisCells costBasis={costBases[protocol.protocol]} />
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-white font-mono">
                     {protocol.feeAllocationPercent}%
                   </td>
@@ -376,7 +552,7 @@ const LoadingSpinner = React.memo(() => (
     >
       <div 
         className="animate-spin rounded-full h-16 w-16 border-b-4 mx-auto mb-6" 
-        style={{ borderBottomColor: THEME_COLORS.PRIMARY_GREEN }}
+        style={{ borderBottomColor: THEME_COLORS.ACCENT }}
       />
       <p className="text-gray-300 text-lg font-mono">Loading market data...</p>
     </motion.div>
@@ -389,98 +565,195 @@ LoadingSpinner.displayName = 'LoadingSpinner';
  * Main Optimized Dashboard Component
  */
 export const OptimizedDashboard: React.FC = () => {
-  // State management
-  const [state, setState] = useState<DashboardState>({
-    buybackData: [],
-    historicalData: [],
-    selectedProtocol: 'Hyperliquid',
-    sortBy: 'marketCap',
-    sortOrder: 'desc',
-    loading: true,
-    error: null,
-    lastUpdated: null,
-  });
+  // The user's defaults apply wherever the URL leaves the view unspecified
+  const { preferences } = useUserPreferences();
+  const {
+    selectedProtocol: defaultProtocol,
+    sortBy: defaultSortBy,
+    sortOrder: defaultSortOrder,
+    timeframe: defaultTimeframe
+  } = preferences;
+  const defaultView = useMemo((): DashboardView => ({
+    selectedProtocol: defaultProtocol,
+    sortBy: defaultSortBy,
+    sortOrder: defaultSortOrder,
+    timeframe: defaultTimeframe,
+    runRateWindow: DEFAULT_RUN_RATE_WINDOW,
+  }), [defaultProtocol, defaultSortBy, defaultSortOrder, defaultTimeframe]);
+
+  // View state; data comes from shared queries keyed by what the view needs
+  const [view, setView] = useState<DashboardView>(() => readDashboardUrl(defaultView));
 
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const dataService = OptimizedDataService.getInstance();
+  const { selectedProtocol, sortBy, sortOrder, timeframe, runRateWindow } = view;
+  const timeframeDays = TIMEFRAME_CONFIG[timeframe].days;
+  const hasSyncedUrl = useRef(false);
+
+  const buybackQuery = useBuybackData();
+  // Timeframe changes refresh in place rather than blanking the charts
+  const historicalQuery = useHistoricalData(undefined, timeframeDays, { keepPreviousData: true });
+  const performanceQuery = usePerformanceMetrics();
+  const marketQuery = useMarketData();
+  const recentBuybackQuery = useRecentBuybackValue(1);
+  const revenueQuery = useProtocolRevenue();
+  // Stored buyback rows for the longest run-rate window, so switching windows needs no refetch
+  const runRateQuery = useHistoricalData(undefined, Math.max(...RUN_RATE_WINDOWS));
+  const pricesQuery = useTokenPrices();
+
+  const buybackData = useMemo(() => buybackQuery.data || [], [buybackQuery.data]);
+  const historicalData = useMemo(() => historicalQuery.data || [], [historicalQuery.data]);
+  const performanceMetrics = useMemo(() => performanceQuery.data || [], [performanceQuery.data]);
+
+  const selectedSymbol = buybackData.find(data => data.protocol === selectedProtocol)?.token;
+  const selectedToken = selectedSymbol && isValidProtocolToken(selectedSymbol) ? selectedSymbol : undefined;
+  const priceQuery = usePriceHistory(selectedToken, timeframeDays);
+  const priceHistory = useMemo(() => priceQuery.data || [], [priceQuery.data]);
 
   // Memoized calculations
-  const globalStats = useMemo((): GlobalStats => {
-    return {
-      totalCoins: state.buybackData.length,
-      totalMarketCap: state.buybackData.reduce((sum, data) => sum + data.totalValueUSD * 10, 0),
-      total24hVolume: state.buybackData.reduce((sum, data) => sum + data.estimatedAnnualBuyback / 365, 0),
-      totalTokensBoughtBack: state.buybackData.reduce((sum, data) => sum + data.totalRepurchased, 0),
-      totalRevenue: state.buybackData.reduce((sum, data) => sum + data.totalValueUSD, 0),
-    };
-  }, [state.buybackData]);
+  const globalStats = useMemo(
+    (): GlobalStats => calculateGlobalStats(buybackData, marketQuery.data || [], recentBuybackQuery.data || {}),
+    [buybackData, marketQuery.data, recentBuybackQuery.data]
+  );
 
+  // Bubble size is total bought back; change is cumulative growth across the loaded window
+  const bubbleData = useMemo(() => {
+    return buybackData.map(protocol => {
+      const history = historicalData.filter(item => item.protocol === protocol.protocol);
+      const first = history[0]?.cumulative_value || 0;
+      const latest = history[history.length - 1]?.cumulative_value || 0;
+      return {
+        name: protocol.protocol,
+        value: protocol.totalValueUSD,
+        color: getProtocolColor(protocol.protocol),
+        change: history.length > 1 && first > 0 ? calculatePercentageChange(latest, first) : null,
+      };
+    });
+  }, [buybackData, historicalData]);
+
+  const runRates = useMemo(() => {
+    const rows = runRateQuery.data || [];
+    return buybackData.reduce<Record<string, RunRateEstimate>>((estimates, data) => {
+      estimates[data.protocol] = estimateRunRate(
+        rows.filter(row => row.protocol === data.protocol),
+        runRateWindow,
+        data.estimatedAnnualBuyback
+      );
+      return estimates;
+    }, {});
+  }, [buybackData, runRateQuery.data, runRateWindow]);
+
+  // Valued at the run-rate shown in the table rather than the reported estimate
+  const valuations = useMemo(() => {
+    const markets = marketQuery.data || [];
+    const revenue = revenueQuery.data || {};
+    return buybackData.reduce<Record<string, ValuationMetrics>>((metrics, data) => {
+      metrics[data.protocol] = calculateValuationMetrics(
+        data,
+        markets.find(market => market.token === data.token),
+        revenue[data.protocol],
+        runRates[data.protocol]?.annualized
+      );
+      return metrics;
+    }, {});
+  }, [buybackData, marketQuery.data, revenueQuery.data, runRates]);
+
+  // The run-rate rows carry cumulative totals, so their window still yields the lifetime position
+  const costBases = useMemo(() => {
+    const rows = runRateQuery.data || [];
+    const prices = pricesQuery.data || {};
+    return buybackData.reduce<Record<string, CostBasisSummary>>((summaries, data) => {
+      const summary = calculateCostBasis(rows.filter(row => row.protocol === data.protocol), prices[data.token]);
+      if (summary) summaries[data.protocol] = summary;
+      return summaries;
+    }, {});
+  }, [buybackData, runRateQuery.data, pricesQuery.data]);
+
+  // Protocols without a value for the sort column (e.g. no market cap) go last in either order
   const sortedProtocols = useMemo(() => {
-    return sortArray(
-      state.buybackData,
-      (protocol) => {
-        switch (state.sortBy) {
-          case 'marketCap': return protocol.totalValueUSD;
-          case 'volume': return protocol.estimatedAnnualBuyback;
-          case 'change': return protocol.circulatingSupplyPercent;
-          default: return protocol.totalValueUSD;
-        }
-      },
-      state.sortOrder
-    );
-  }, [state.buybackData, state.sortBy, state.sortOrder]);
+    const getSortValue = (protocol: BuybackData): number | null => {
+      switch (sortBy) {
+        case 'marketCap': return protocol.totalValueUSD;
+        case 'volume': return runRates[protocol.protocol]?.annualized ?? protocol.estimatedAnnualBuyback;
+        case 'change': return protocol.circulatingSupplyPercent;
+        case 'tokensBought': return protocol.totalRepurchased;
+        case 'unrealizedPnl': return costBases[protocol.protocol]?.unrealizedPnl ?? null;
+        default: return valuations[protocol.protocol]?.[sortBy] ?? null;
+      }
+    };
+    const known = buybackData.filter(protocol => getSortValue(protocol) !== null);
+    const unknown = buybackData.filter(protocol => getSortValue(protocol) === null);
+    return [...sortArray(known, protocol => getSortValue(protocol) as number, sortOrder), ...unknown];
+  }, [buybackData, runRates, valuations, costBases, sortBy, sortOrder]);
 
   const chartData = useMemo(() => {
-    return state.historicalData
-      .filter(item => item.protocol === state.selectedProtocol)
+    // Latest market price at or before a timestamp (price history is sorted ascending)
+    const priceAt = (timestamp: string): number | undefined => {
+      const time = new Date(timestamp).getTime();
+      let price: number | undefined;
+      for (const point of priceHistory) {
+        if (new Date(point.timestamp).getTime() > time) break;
+        price = point.price;
+      }
+      return price;
+    };
+
+    const rows = historicalData.filter(item => item.protocol === selectedProtocol);
+    const costBasisAt = new Map(buildCostBasisSeries(rows).map(point => [point.timestamp, point.averageCost]));
+
+    const points = rows
       .map(item => ({
         timestamp: item.timestamp,
         buybacks: item.cumulative_value || item.value_usd || 0,  // Total buyback value
         revenue: (item.cumulative_value || 0) * 0.15,           // Estimated revenue (15% of buybacks)
         tokensBought: item.cumulative_tokens || 0,              // Number of tokens bought
-        change24h: item.change24h || Math.random() * 20 - 10,
+        price: priceAt(item.timestamp),                         // Market price from CoinGecko history
+        costBasis: costBasisAt.get(item.timestamp),             // Average cost of tokens bought so far
       }))
       .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-  }, [state.historicalData, state.selectedProtocol]);
 
-  // Event handlers
-  const fetchData = useCallback(async () => {
-    try {
-      setState(prev => ({ ...prev, loading: true, error: null }));
-      
-      const [buyback, historical] = await Promise.all([
-        dataService.getAllBuybackData(),
-        dataService.getHistoricalChartData(undefined, 30)
-      ]);
-
-      if (!isValidProtocolCount(buyback.length)) {
-        console.warn(`Unexpected protocol count: ${buyback.length}, expected: ${EXPECTED_PROTOCOL_COUNT}`);
+    // Intraday timeframes are finer than one snapshot a day: add a point per stored market price,
+    // carrying the latest snapshot's cumulative figures forward
+    const snapshotTimes = points.map(point => new Date(point.timestamp).getTime());
+    const intradayStart = snapshotTimes.length > 0
+      ? snapshotTimes[snapshotTimes.length - 1] - INTRADAY_WINDOW_DAYS * DAY_MS
+      : Infinity;
+    const intradayPoints = priceHistory.reduce<typeof points>((added, pricePoint) => {
+      const time = new Date(pricePoint.timestamp).getTime();
+      if (time < intradayStart || snapshotTimes.includes(time)) return added;
+      let snapshotIndex = snapshotTimes.length - 1;
+      while (snapshotIndex >= 0 && snapshotTimes[snapshotIndex] > time) snapshotIndex--;
+      if (snapshotIndex >= 0) {
+        added.push({ ...points[snapshotIndex], timestamp: pricePoint.timestamp, price: pricePoint.price });
       }
+      return added;
+    }, []);
+    const series = [...points, ...intradayPoints]
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    const buybackSeries = series.map(point => ({ timestamp: point.timestamp, value: point.buybacks }));
+    return series.map((point, index): ChartDataPoint => ({
+      ...point,
+      change24h: calculatePeriodChange(buybackSeries, '24h', index),
+    }));
+  }, [historicalData, selectedProtocol, priceHistory]);
 
-      setState(prev => ({
-        ...prev,
-        buybackData: buyback,
-        historicalData: historical,
-        loading: false,
-        lastUpdated: new Date(),
-      }));
-
-    } catch (err) {
-      console.error('Failed to fetch data:', err);
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: err instanceof Error ? err.message : 'Unknown error occurred',
-      }));
+  useEffect(() => {
+    if (buybackQuery.data && !isValidProtocolCount(buybackQuery.data.length)) {
+      console.warn(`Unexpected protocol count: ${buybackQuery.data.length}, expected: ${EXPECTED_PROTOCOL_COUNT}`);
     }
-  }, [dataService]);
+  }, [buybackQuery.data]);
 
+  // Event handlers
   const handleProtocolSelect = useCallback((protocol: string) => {
-    setState(prev => ({ ...prev, selectedProtocol: protocol }));
+    setView(prev => ({ ...prev, selectedProtocol: protocol }));
+  }, []);
+
+  const handleTimeframeChange = useCallback((tf: TimeframeOption) => {
+    setView(prev => ({ ...prev, timeframe: tf }));
   }, []);
 
   const handleSort = useCallback((column: SortOption) => {
-    setState(prev => ({
+    setView(prev => ({
       ...prev,
       sortBy: column,
       sortOrder: prev.sortBy === column && prev.sortOrder === 'desc' ? 'asc' : 'desc',
@@ -503,31 +776,51 @@ export const OptimizedDashboard: React.FC = () => {
   }, []);
 
   // Effects
+  // Mirror the view in the URL; the first sync only canonicalises it
   useEffect(() => {
-    fetchData();
-    const interval = setInterval(fetchData, 5 * 60 * 1000); // 5 minutes
-    return () => clearInterval(interval);
-  }, [fetchData]);
+    syncDashboardUrl(
+      { selectedProtocol, sortBy, sortOrder, timeframe, runRateWindow },
+      hasSyncedUrl.current ? 'push' : 'replace',
+      defaultView
+    );
+    hasSyncedUrl.current = true;
+  }, [selectedProtocol, sortBy, sortOrder, timeframe, runRateWindow, defaultView]);
+
+  // Back/forward restores the view encoded in the URL
+  useEffect(() => {
+    const handlePopState = () => {
+      setView(readDashboardUrl(defaultView));
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [defaultView]);
+
+  // The page needs protocol data and history; other widgets degrade on their own
+  const blockingError = (!buybackQuery.data && buybackQuery.error) || (!historicalQuery.data && historicalQuery.error);
+  const handleRetry = () => {
+    buybackQuery.refetch();
+    historicalQuery.refetch();
+  };
 
   // Error state
-  if (state.error) {
+  if (blockingError) {
     return (
       <div className="min-h-screen bg-black flex items-center justify-center">
         <div className="text-center">
           <div className="text-red-400 text-6xl mb-4">⚠️</div>
           <h2 className="text-xl font-bold text-white mb-2">Error Loading Data</h2>
-          <p className="text-gray-400 mb-4">{state.error}</p>
+          <p className="text-gray-400 mb-4">{blockingError.message}</p>
           <button 
-            onClick={fetchData}
-            className="px-4 py-2 text-black rounded-lg transition-colors"
+            onClick={handleRetry}
+            className="px-4 py-2 text-accent-contrast rounded-lg transition-colors"
             style={{ 
-              background: THEME_COLORS.PRIMARY_GREEN,
+              background: THEME_COLORS.ACCENT,
             }}
             onMouseEnter={(e) => {
-              e.currentTarget.style.background = THEME_COLORS.SECONDARY_GREEN;
+              e.currentTarget.style.background = THEME_COLORS.ACCENT_HOVER;
             }}
             onMouseLeave={(e) => {
-              e.currentTarget.style.background = THEME_COLORS.PRIMARY_GREEN;
+              e.currentTarget.style.background = THEME_COLORS.ACCENT;
             }}
           >
             Retry
@@ -538,7 +831,7 @@ export const OptimizedDashboard: React.FC = () => {
   }
 
   // Loading state
-  if (state.loading) {
+  if (buybackQuery.isLoading || historicalQuery.isLoading) {
     return <LoadingSpinner />;
   }
 
@@ -548,44 +841,85 @@ export const OptimizedDashboard: React.FC = () => {
       {/* Header */}
       <Header />
 
-      {/* Global Market Stats */}
-      <GlobalStatsSection stats={globalStats} />
-
       {/* Main Content */}
       <div className="flex-1">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-            {/* Main Chart */}
-            <div className="lg:col-span-2">
-              <OptimizedChart
-                data={chartData}
-                title={`${state.selectedProtocol} Buyback Activity`}
-                color={getProtocolColor(state.selectedProtocol)}
-                height={400}
-                showVolume={true}
-              />
-            </div>
-
-            {/* Sidebar */}
-            <div className="space-y-6">
-              <ProtocolSelector
-                protocols={state.buybackData}
-                selectedProtocol={state.selectedProtocol}
-                onProtocolSelect={handleProtocolSelect}
-              />
-            </div>
-          </div>
-
-          {/* Protocol Table */}
-          <ProtocolTable
-            protocols={sortedProtocols}
-            selectedProtocol={state.selectedProtocol}
-            sortBy={state.sortBy}
-            sortOrder={state.sortOrder}
-            onProtocolSelect={handleProtocolSelect}
-            onSort={handleSort}
-            onSortByChange={(sortBy) => setState(prev => ({ ...prev, sortBy }))}
-            onSortOrderChange={(sortOrder) => setState(prev => ({ ...prev, sortOrder }))}
+          <WorkspaceGrid
+            widgets={{
+              globalStats: <GlobalStatsSection stats={globalStats} />,
+              chart: (
+                <OptimizedChart
+                  data={chartData}
+                  title={`${selectedProtocol} Buyback Activity`}
+                  color={getProtocolColor(selectedProtocol)}
+                  height={400}
+                  showVolume={true}
+                  timeframe={timeframe}
+                  onTimeframeChange={handleTimeframeChange}
+                />
+              ),
+              protocolSelector: (
+                <ProtocolSelector
+                  protocols={buybackData}
+                  selectedProtocol={selectedProtocol}
+                  onProtocolSelect={handleProtocolSelect}
+                />
+              ),
+              comparison: (
+                <ComparisonChart
+                  data={historicalData}
+                  protocols={buybackData}
+                  timeframe={timeframe}
+                />
+              ),
+              protocolTable: (
+                <ProtocolTable
+                  protocols={sortedProtocols}
+                  valuations={valuations}
+                  runRates={runRates}
+                  costBases={costBases}
+                  runRateWindow={runRateWindow}
+                  onRunRateWindowChange={(runRateWindow) => setView(prev => ({ ...prev, runRateWindow }))}
+                  selectedProtocol={selectedProtocol}
+                  sortBy={sortBy}
+                  sortOrder={sortOrder}
+                  onProtocolSelect={handleProtocolSelect}
+                  onSort={handleSort}
+                  onSortByChange={(sortBy) => setView(prev => ({ ...prev, sortBy }))}
+                  onSortOrderChange={(sortOrder) => setView(prev => ({ ...prev, sortOrder }))}
+                />
+              ),
+              bubbleChart: (
+                <div className="dark-card h-full">
+                  <h3 className="text-lg font-semibold text-white font-mono mb-4">Protocol Market Size</h3>
+                  <BubbleChart data={bubbleData} height={300} />
+                </div>
+              ),
+              performanceMetrics: <PerformanceMetrics data={performanceMetrics} />,
+              leaderboards: <Leaderboards performanceMetrics={performanceMetrics} historicalData={historicalData} />,
+              marketOverview: (
+                <MarketOverview
+                  protocols={buybackData}
+                  selectedProtocol={selectedProtocol}
+                  onProtocolSelect={handleProtocolSelect}
+                />
+              ),
+              changes: <ChangeMetrics token={selectedToken} />,
+              valuation: <ValuationHistory token={selectedToken} days={timeframeDays} />,
+              marketImpact: <MarketImpact token={selectedToken} days={timeframeDays} />,
+              supplyProjection: <SupplyProjection token={selectedToken} runRateWindow={runRateWindow} />,
+              netFlow: <NetFlow token={selectedToken} days={timeframeDays} />,
+              feeSimulator: <FeeSimulator token={selectedToken} />,
+              protocolHero: (
+                <ProtocolHero
+                  protocols={buybackData}
+                  selectedProtocol={selectedProtocol}
+                  historicalData={historicalData}
+                  timeframeLabel={`Last ${timeframe}`}
+                  onProtocolSelect={handleProtocolSelect}
+                />
+              ),
+            }}
           />
         </div>
       </div>
@@ -603,7 +937,7 @@ export const OptimizedDashboard: React.FC = () => {
       {/* Floating Submit Button */}
       <button
         onClick={handleModalOpen}
-        className="fixed bottom-8 right-8 z-40 bg-green-600 hover:bg-green-700 text-white p-4 rounded-full shadow-2xl transition-all duration-300 hover:scale-110 group"
+        className="fixed bottom-8 right-8 z-40 bg-accent hover:bg-accent-hover text-accent-contrast p-4 rounded-full shadow-2xl transition-all duration-300 hover:scale-110 group"
         title="Submit Your Entity"
       >
         <svg 
@@ -0,0 +1,377 @@
+/**
+ * Protocol Detail Page
+ * Everything known about one protocol's buyback program: totals, mechanism, history and treasury wallets
+ */
+
+import React, { useMemo, memo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  PROTOCOL_BY_TOKEN,
+  ANIMATION_DURATIONS,
+  ANIMATION_DELAYS,
+  CHART_HEIGHTS,
+  DEFAULT_RUN_RATE_WINDOW,
+  THEME_COLORS,
+  VALUATION_METRICS,
+  VALUATION_METRIC_LABELS
+} from '../constants';
+import {
+  formatCurrency,
+  formatOptionalCurrency,
+  formatTokenAmount,
+  formatPrice,
+  formatPercentage,
+  formatSignedCurrency,
+  formatDate,
+  formatValuationMetric
+} from '../utils/formatters';
+import { getProtocolColor } from '../utils/helpers';
+import { calculateValuationMetrics } from '../utils/valuationMetrics';
+import { estimateRunRate } from '../utils/runRate';
+import { calculateCostBasis } from '../utils/costBasis';
+import { ROUTE_PATHS, handleLinkClick } from '../utils/router';
+import { buildDashboardSearch, DEFAULT_DASHBOARD_VIEW } from '../utils/urlState';
+import { OptimizedDataService } from '../services/optimizedDataService';
+import {
+  useBuybackTrends,
+  useHistoricalData,
+  useMarketData,
+  useProtocolBuybackData,
+  useProtocolRevenue,
+  useTokenPrices
+} from '../hooks/useBuybackQueries';
+import { Header } from './layout/Header';
+import { Footer } from './layout/Footer';
+import { CumulativeChart } from './charts/CumulativeChart';
+import { ChangeMetrics } from './sections/ChangeMetrics';
+import { FeeSimulator } from './sections/FeeSimulator';
+import { MarketImpact } from './sections/MarketImpact';
+import { NetFlow } from './sections/NetFlow';
+import { SupplyProjection } from './sections/SupplyProjection';
+import { ValuationHistory } from './sections/ValuationHistory';
+import { ProtocolLogoImage } from './ProtocolLogo';
+import type { BuybackMechanism, ProtocolToken, TokenMarketData } from '../types';
+
+const DETAIL_HISTORY_DAYS = 90;
+const RECENT_SNAPSHOT_COUNT = 10;
+
+/**
+ * Back link to the dashboard with this protocol selected
+ */
+const BackLink = memo(({ protocol }: { protocol?: string }) => {
+  const path = `${ROUTE_PATHS.DASHBOARD}${protocol
+    ? buildDashboardSearch({ ...DEFAULT_DASHBOARD_VIEW, selectedProtocol: protocol })
+    : ''}`;
+
+  return (
+    <a
+      href={path}
+      onClick={(e) => handleLinkClick(e, path)}
+      className="inline-flex items-center gap-2 text-sm text-gray-400 hover:text-white font-mono transition-colors"
+    >
+      ← Back to dashboard
+    </a>
+  );
+});
+
+BackLink.displayName = 'BackLink';
+
+/**
+ * Single labelled statistic
+ */
+const StatTile = memo(({ label, value }: { label: string; value: string }) => (
+  <div className="dark-card">
+    <p className="text-xs text-gray-400 uppercase tracking-wider font-mono mb-2">{label}</p>
+    <p className="text-xl font-bold text-white font-mono">{value}</p>
+  </div>
+));
+
+StatTile.displayName = 'StatTile';
+
+const MARKET_SOURCE_LABELS: Record<TokenMarketData['source'], string> = {
+  live: 'Market data from CoinGecko',
+  stored: 'Live market data unavailable; showing the latest stored CoinGecko history',
+  unavailable: 'Market data unavailable',
+};
+
+/**
+ * Unknown token or path
+ */
+export const NotFoundPage: React.FC<{ message?: string }> = ({ message = 'This page does not exist.' }) => (
+  <div className="min-h-screen bg-black flex flex-col">
+    <Header />
+    <div className="flex-1 flex items-center justify-center px-4">
+      <div className="text-center">
+        <p className="text-6xl font-bold font-mono mb-4" style={{ color: THEME_COLORS.ACCENT }}>404</p>
+        <h2 className="text-xl font-bold text-white mb-2">Not Found</h2>
+        <p className="text-gray-400 mb-6">{message}</p>
+        <BackLink />
+      </div>
+    </div>
+    <Footer />
+  </div>
+);
+
+/**
+ * Main Protocol Detail Page
+ */
+export const ProtocolDetailPage: React.FC<{ token: ProtocolToken }> = ({ token }) => {
+  const protocol = PROTOCOL_BY_TOKEN[token];
+  const color = getProtocolColor(protocol.name);
+  const mechanism = useMemo(
+    (): BuybackMechanism => OptimizedDataService.getInstance().getBuybackMechanism(token),
+    [token]
+  );
+
+  const buybackQuery = useProtocolBuybackData(token);
+  const trendsQuery = useBuybackTrends(token, DETAIL_HISTORY_DAYS);
+  const historyQuery = useHistoricalData(protocol.name, DETAIL_HISTORY_DAYS);
+
+  const buybackData = buybackQuery.data || null;
+  const trends = useMemo(() => trendsQuery.data || [], [trendsQuery.data]);
+  const history = useMemo(() => historyQuery.data || [], [historyQuery.data]);
+  const error = buybackQuery.error || trendsQuery.error || historyQuery.error;
+  const market = useMarketData().data?.find(item => item.token === token);
+  const revenue = useProtocolRevenue().data?.[protocol.name];
+  // History covers the longest run-rate window, so the default window can be estimated from it
+  const runRate = useMemo(
+    () => buybackData ? estimateRunRate(history, DEFAULT_RUN_RATE_WINDOW, buybackData.estimatedAnnualBuyback) : null,
+    [buybackData, history]
+  );
+  const valuation = useMemo(
+    () => buybackData ? calculateValuationMetrics(buybackData, market, revenue, runRate?.annualized) : null,
+    [buybackData, market, revenue, runRate]
+  );
+
+  const price = useTokenPrices().data?.[token];
+  const costBasis = useMemo(() => calculateCostBasis(history, price), [history, price]);
+
+  const recentSnapshots = useMemo(() => trends.slice(-RECENT_SNAPSHOT_COUNT).reverse(), [trends]);
+
+  return (
+    <div className="min-h-screen bg-black flex flex-col">
+      <Header />
+
+      <div className="flex-1">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+          <BackLink protocol={protocol.name} />
+
+          {/* Title */}
+          <motion.div
+            className="flex items-center gap-4"
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: ANIMATION_DURATIONS.NORMAL }}
+          >
+            <ProtocolLogoImage protocol={protocol.name} size="lg" />
+            <div>
+              <h1 className="text-3xl font-bold text-white font-mono">{protocol.name}</h1>
+              <p className="text-gray-400 font-mono">{token}</p>
+            </div>
+          </motion.div>
+
+          {error && (
+            <div className="dark-card text-red-400 text-sm font-mono">Failed to load protocol data: {error.message}</div>
+          )}
+
+          {/* Key Figures */}
+          {buybackData && (
+            <motion.div
+              className="grid grid-cols-2 lg:grid-cols-3 gap-4"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: ANIMATION_DELAYS.SHORT, duration: ANIMATION_DURATIONS.NORMAL }}
+            >
+              <StatTile label="Total Bought Back" value={formatCurrency(buybackData.totalValueUSD)} />
+              <StatTile label="Tokens Repurchased" value={formatTokenAmount(buybackData.totalRepurchased)} />
+              <StatTile label="Supply Reduced" value={formatPercentage(buybackData.circulatingSupplyPercent)} />
+              <StatTile
+                label={runRate && runRate.method !== 'reported'
+                  ? `Annual Run-Rate (${runRate.observedDays}d)`
+                  : 'Est. Annual Buyback (reported)'}
+                value={formatCurrency(runRate ? runRate.annualized : buybackData.estimatedAnnualBuyback)}
+              />
+              <StatTile label="Fee Allocation" value={`${buybackData.feeAllocationPercent}%`} />
+              <StatTile label="Last Updated" value={buybackData.lastUpdated} />
+            </motion.div>
+          )}
+
+          {/* Market */}
+          {market && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+                <StatTile label="Price" value={market.price === null ? 'n/a' : formatPrice(market.price)} />
+                <StatTile label="Market Cap" value={formatOptionalCurrency(market.marketCap)} />
+                <StatTile label="FDV" value={formatOptionalCurrency(market.fullyDilutedValuation)} />
+                <StatTile
+                  label="Circulating Supply"
+                  value={market.circulatingSupply === null ? 'n/a' : `${formatTokenAmount(market.circulatingSupply)} ${token}`}
+                />
+                <StatTile label="24h Volume" value={formatOptionalCurrency(market.volume24h)} />
+              </div>
+              <p className="text-xs text-gray-500 font-mono">{MARKET_SOURCE_LABELS[market.source]}</p>
+            </div>
+          )}
+
+          {/* Valuation */}
+          {valuation && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {VALUATION_METRICS.map(metric => (
+                <StatTile
+                  key={metric}
+                  label={VALUATION_METRIC_LABELS[metric]}
+                  value={formatValuationMetric(metric, valuation[metric])}
+                />
+              ))}
+            </div>
+          )}
+          <ValuationHistory token={token} days={DETAIL_HISTORY_DAYS} height={CHART_HEIGHTS.MEDIUM} />
+
+          {/* Cost Basis */}
+          {costBasis && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                <StatTile label="Avg Cost" value={formatPrice(costBasis.averageCost)} />
+                <StatTile label="Cost Basis" value={formatCurrency(costBasis.costBasis)} />
+                <StatTile label="Marked Value" value={formatOptionalCurrency(costBasis.marketValue)} />
+                <StatTile
+                  label="Unrealised PnL"
+                  value={costBasis.unrealizedPnlPercent === null
+                    ? 'n/a'
+                    : `${formatSignedCurrency(costBasis.unrealizedPnl)} (${formatPercentage(costBasis.unrealizedPnlPercent, 1, true)})`}
+                />
+              </div>
+              <p className="text-xs text-gray-500 font-mono">
+                Every repurchased {token} is treated as still held and marked to the current price
+              </p>
+            </div>
+          )}
+
+          {/* Change Metrics */}
+          <ChangeMetrics token={token} />
+
+          {/* Market Impact */}
+          <MarketImpact token={token} days={DETAIL_HISTORY_DAYS} />
+
+          {/* Supply Projection */}
+          <SupplyProjection token={token} />
+
+          {/* Fee Allocation Simulator */}
+          <FeeSimulator token={token} />
+
+          {/* Cumulative Chart */}
+          <div className="dark-card">
+            <h3 className="text-lg font-semibold text-white font-mono mb-4">Cumulative Buybacks ({DETAIL_HISTORY_DAYS}D)</h3>
+            <CumulativeChart data={history} color={color} />
+          </div>
+
+          {/* Net Token Flow */}
+          <NetFlow token={token} days={DETAIL_HISTORY_DAYS} height={CHART_HEIGHTS.MEDIUM} />
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Mechanism */}
+            <div className="dark-card space-y-3">
+              <h3 className="text-lg font-semibold text-white font-mono">Buyback Mechanism</h3>
+              <p className="text-gray-300 text-sm">{mechanism.summary}</p>
+              <div className="grid grid-cols-2 gap-4 text-sm font-mono">
+                <div>
+                  <p className="text-gray-400">Fee rate</p>
+                  <p className="text-white">{formatPercentage(mechanism.feeRate * 100, 3)} of volume</p>
+                </div>
+                <div>
+                  <p className="text-gray-400">Fees to buybacks</p>
+                  <p className="text-white">{mechanism.feeAllocationPercent}%</p>
+                </div>
+              </div>
+            </div>
+
+            {/* Treasury Wallets */}
+            <div className="dark-card space-y-3">
+              <h3 className="text-lg font-semibold text-white font-mono">Treasury Wallets</h3>
+              {protocol.treasuryWallets.length === 0 ? (
+                <p className="text-gray-400 text-sm">No treasury wallets listed for {protocol.name} yet.</p>
+              ) : (
+                protocol.treasuryWallets.map(wallet => (
+                  <div key={wallet.address} className="text-sm font-mono">
+                    <p className="text-white">{wallet.label} <span className="text-gray-500">· {wallet.chain}</span></p>
+                    <a
+                      href={wallet.explorerUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="break-all hover:underline"
+                      style={{ color: THEME_COLORS.ACCENT }}
+                    >
+                      {wallet.address}
+                    </a>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Monthly Breakdown */}
+            <div className="dark-card overflow-x-auto">
+              <h3 className="text-lg font-semibold text-white font-mono mb-4">Monthly Breakdown</h3>
+              {buybackData?.monthlyData && buybackData.monthlyData.length > 0 ? (
+                <table className="w-full text-sm font-mono">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-400 uppercase tracking-wider">
+                      <th className="py-2">Month</th>
+                      <th className="py-2 text-right">Tokens</th>
+                      <th className="py-2 text-right">Value</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {buybackData.monthlyData.map(month => (
+                      <tr key={month.month} className="border-t border-line text-white">
+                        <td className="py-2">{month.month}</td>
+                        <td className="py-2 text-right">{formatTokenAmount(month.amount)}</td>
+                        <td className="py-2 text-right">{formatCurrency(month.valueUSD)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-gray-400 text-sm">No monthly data available</p>
+              )}
+            </div>
+
+            {/* Recent Snapshots */}
+            <div className="dark-card overflow-x-auto">
+              <h3 className="text-lg font-semibold text-white font-mono mb-4">Recent Snapshots</h3>
+              {recentSnapshots.length > 0 ? (
+                <table className="w-full text-sm font-mono">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-400 uppercase tracking-wider">
+                      <th className="py-2">Date</th>
+                      <th className="py-2 text-right">Total Value</th>
+                      <th className="py-2 text-right">Tokens</th>
+                      <th className="py-2 text-right">Price</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {recentSnapshots.map(point => (
+                      <tr key={point.timestamp} className="border-t border-line text-white">
+                        <td className="py-2">{formatDate(point.timestamp)}</td>
+                        <td className="py-2 text-right">{formatCurrency(point.total_value_usd)}</td>
+                        <td className="py-2 text-right">{formatTokenAmount(point.total_repurchased)}</td>
+                        <td className="py-2 text-right">{formatPrice(point.price_per_token)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-gray-400 text-sm">No snapshots recorded yet</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ProtocolDetailPage;
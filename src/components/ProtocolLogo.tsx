@@ -1,4 +1,5 @@
 import React from 'react';
+import { PROTOCOL_REGISTRY } from '../constants';
 
 /**
  * Protocol Logo Components
@@ -25,6 +26,8 @@ import React from 'react';
  * displays the actual protocol branding.
  */
 
+const DEFAULT_GRADIENT = 'from-gray-400 to-gray-600';
+
 interface ProtocolLogoProps {
   protocol: string;
   size?: 'sm' | 'md' | 'lg';
@@ -42,11 +45,13 @@ export const ProtocolLogo: React.FC<ProtocolLogoProps> = ({
     lg: 'w-12 h-12'
   };
 
+  const gradient = PROTOCOL_REGISTRY.find(entry => entry.name === protocol)?.logoGradient || DEFAULT_GRADIENT;
+
   const getLogoComponent = () => {
     switch (protocol) {
       case 'Hyperliquid':
         return (
-          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br from-cyan-400 to-cyan-600 rounded-lg flex items-center justify-center shadow-lg`}>
+          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br ${gradient} rounded-lg flex items-center justify-center shadow-lg`}>
             <svg viewBox="0 0 24 24" className="w-2/3 h-2/3 text-white" fill="currentColor">
               <path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5"/>
             </svg>
@@ -55,7 +60,7 @@ export const ProtocolLogo: React.FC<ProtocolLogoProps> = ({
       
       case 'Jupiter':
         return (
-          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br from-orange-400 to-orange-600 rounded-lg flex items-center justify-center shadow-lg`}>
+          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br ${gradient} rounded-lg flex items-center justify-center shadow-lg`}>
             <svg viewBox="0 0 24 24" className="w-2/3 h-2/3 text-white" fill="currentColor">
               <circle cx="12" cy="12" r="3"/>
               <path d="M12 1v6m0 6v6m11-7h-6m-6 0H1"/>
@@ -66,7 +71,7 @@ export const ProtocolLogo: React.FC<ProtocolLogoProps> = ({
       
       case 'Aave':
         return (
-          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br from-purple-400 to-purple-600 rounded-lg flex items-center justify-center shadow-lg`}>
+          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br ${gradient} rounded-lg flex items-center justify-center shadow-lg`}>
             <svg viewBox="0 0 24 24" className="w-2/3 h-2/3 text-white" fill="currentColor">
               <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-2 15l-5-5 1.41-1.41L10 14.17l7.59-7.59L19 8l-9 9z"/>
             </svg>
@@ -75,7 +80,7 @@ export const ProtocolLogo: React.FC<ProtocolLogoProps> = ({
       
       case 'Jito':
         return (
-          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br from-orange-500 to-red-500 rounded-lg flex items-center justify-center shadow-lg`}>
+          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br ${gradient} rounded-lg flex items-center justify-center shadow-lg`}>
             <svg viewBox="0 0 24 24" className="w-2/3 h-2/3 text-white" fill="currentColor">
               <path d="M13 3L4 14h6l-1 4 9-11h-6l1-4z"/>
             </svg>
@@ -84,7 +89,7 @@ export const ProtocolLogo: React.FC<ProtocolLogoProps> = ({
       
       case 'Pump.fun':
         return (
-          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br from-pink-500 to-purple-600 rounded-lg flex items-center justify-center shadow-lg`}>
+          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br ${gradient} rounded-lg flex items-center justify-center shadow-lg`}>
             <svg viewBox="0 0 24 24" className="w-2/3 h-2/3 text-white" fill="currentColor">
               <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z"/>
             </svg>
@@ -93,7 +98,7 @@ export const ProtocolLogo: React.FC<ProtocolLogoProps> = ({
       
       case 'DeBridge':
         return (
-          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br from-blue-500 to-blue-700 rounded-lg flex items-center justify-center shadow-lg`}>
+          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br ${gradient} rounded-lg flex items-center justify-center shadow-lg`}>
             <svg viewBox="0 0 24 24" className="w-2/3 h-2/3 text-white" fill="currentColor">
               <path d="M17 7l-10 10M7 7l10 10M3 12a9 9 0 1 0 18 0a9 9 0 1 0-18 0"/>
             </svg>
@@ -102,7 +107,7 @@ export const ProtocolLogo: React.FC<ProtocolLogoProps> = ({
       
       case 'Fluid':
         return (
-          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br from-cyan-400 to-blue-500 rounded-lg flex items-center justify-center shadow-lg`}>
+          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br ${gradient} rounded-lg flex items-center justify-center shadow-lg`}>
             <svg viewBox="0 0 24 24" className="w-2/3 h-2/3 text-white" fill="currentColor">
               <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10c1.19 0 2.34-.21 3.41-.6.3-.11.49-.4.49-.72 0-.43-.35-.78-.78-.78-.22 0-.42.09-.56.24-.78.28-1.6.43-2.46.43-3.31 0-6-2.69-6-6s2.69-6 6-6 6 2.69 6 6c0 .86-.15 1.68-.43 2.46-.15.14-.24.34-.24.56 0 .43.35.78.78.78.32 0 .61-.19.72-.49.39-1.07.6-2.22.6-3.41 0-5.52-4.48-10-10-10z"/>
             </svg>
@@ -111,7 +116,7 @@ export const ProtocolLogo: React.FC<ProtocolLogoProps> = ({
       
       default:
         return (
-          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br from-gray-400 to-gray-600 rounded-lg flex items-center justify-center shadow-lg`}>
+          <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br ${DEFAULT_GRADIENT} rounded-lg flex items-center justify-center shadow-lg`}>
             <span className="text-white font-bold text-sm">
               {protocol.charAt(0)}
             </span>
@@ -138,63 +143,23 @@ export const ProtocolLogoImage: React.FC<ProtocolLogoProps> = ({
     lg: 'w-12 h-12'
   };
 
-  // Primary logo URLs with fallbacks
-  const logoUrls = {
-    'Hyperliquid': [
-      'https://s2.coinmarketcap.com/static/img/coins/64x64/29615.png',
-      'https://assets.coingecko.com/coins/images/38481/standard/hyperliquid.png'
-    ],
-    'Jupiter': [
-      'https://s2.coinmarketcap.com/static/img/coins/64x64/28932.png',
-      'https://assets.coingecko.com/coins/images/33547/standard/jupiter.png'
-    ],
-    'Aave': [
-      'https://s2.coinmarketcap.com/static/img/coins/64x64/7278.png',
-      'https://assets.coingecko.com/coins/images/12645/standard/AAVE.png'
-    ],
-    'Jito': [
-      'https://s2.coinmarketcap.com/static/img/coins/64x64/28541.png',
-      'https://assets.coingecko.com/coins/images/32592/standard/jto.png'
-    ],
-    'Pump.fun': [
-      'https://assets.coingecko.com/coins/images/47629/large/pump.png?1714039066',
-      'https://dd.dexscreener.com/ds-data/tokens/solana/pump.png'
-    ],
-    'DeBridge': [
-      'https://s2.coinmarketcap.com/static/img/coins/64x64/27804.png',
-      'https://assets.coingecko.com/coins/images/27840/standard/debridge.png'
-    ],
-    'Fluid': [
-      'https://s2.coinmarketcap.com/static/img/coins/64x64/3604.png',
-      'https://assets.coingecko.com/coins/images/10393/standard/INST.png'
-    ]
-  };
+  // Primary logo URLs with fallbacks come from the protocol registry
+  const registryEntry = PROTOCOL_REGISTRY.find(entry => entry.name === protocol);
 
   const renderFallback = () => {
-    // Try to match the protocol with its original emoji or gradient colors from the SVG version
-    const protocolInfo = {
-      'Hyperliquid': { emoji: '🚀', colors: 'from-cyan-400 to-cyan-600' },
-      'Jupiter': { emoji: '🪐', colors: 'from-orange-400 to-orange-600' },
-      'Aave': { emoji: '👻', colors: 'from-purple-400 to-purple-600' },
-      'Jito': { emoji: '⚡', colors: 'from-orange-500 to-red-500' },
-      'Pump.fun': { emoji: '💎', colors: 'from-pink-500 to-purple-600' },
-      'DeBridge': { emoji: '🌉', colors: 'from-blue-500 to-blue-700' },
-      'Fluid': { emoji: '💧', colors: 'from-cyan-400 to-blue-500' }
-    };
-
-    const info = protocolInfo[protocol as keyof typeof protocolInfo];
-    if (info) {
+    // The registry's emoji over the same gradient as the SVG version
+    if (registryEntry) {
       return (
-        <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br ${info.colors} rounded-lg flex items-center justify-center shadow-lg`}>
+        <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br ${registryEntry.logoGradient} rounded-lg flex items-center justify-center shadow-lg`}>
           <span className="text-white text-lg">
-            {info.emoji}
+            {registryEntry.icon}
           </span>
         </div>
       );
     }
 
     return (
-      <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br from-gray-400 to-gray-600 rounded-lg flex items-center justify-center shadow-lg`}>
+      <div className={`${sizeClasses[size]} ${className} bg-gradient-to-br ${DEFAULT_GRADIENT} rounded-lg flex items-center justify-center shadow-lg`}>
         <span className="text-white font-bold text-sm">
           {protocol.charAt(0)}
         </span>
@@ -202,7 +167,7 @@ export const ProtocolLogoImage: React.FC<ProtocolLogoProps> = ({
     );
   };
 
-  const protocolUrls = logoUrls[protocol as keyof typeof logoUrls];
+  const protocolUrls = registryEntry?.logoUrls;
   const logoUrl = protocolUrls?.[currentUrlIndex];
 
   // Handle URL fallback
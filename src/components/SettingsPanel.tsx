@@ -0,0 +1,223 @@
+/**
+ * Settings Panel Component
+ * Edits the stored user preferences: theme, refresh behaviour and the view the dashboard opens with
+ */
+
+import React, { memo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  ANIMATION_DURATIONS,
+  PROTOCOL_REGISTRY,
+  REFRESH_INTERVAL_OPTIONS,
+  SORT_OPTIONS,
+  SORT_OPTION_LABELS,
+  SORT_ORDERS,
+  TIMEFRAME_OPTIONS,
+  THEME_COLORS,
+  SYSTEM_THEME
+} from '../constants';
+import { useUserPreferences } from '../context/UserPreferencesContext';
+import { useTheme } from '../context/ThemeContext';
+import type { SortOption, SortOrder, TimeframeOption } from '../types';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SORT_ORDER_LABELS: Record<SortOrder, string> = {
+  desc: 'Highest first',
+  asc: 'Lowest first',
+};
+
+const formatInterval = (ms: number): string => {
+  const minutes = ms / (60 * 1000);
+  return `Every ${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+const selectClass = 'w-full px-3 py-2 bg-surface-strong border border-gray-700 rounded-lg text-white text-sm font-mono focus:ring-2 focus:ring-accent focus:border-accent transition-all disabled:opacity-40';
+
+/**
+ * Labelled form row
+ */
+const SettingRow = memo<{ label: string; description?: string; children: React.ReactNode }>(({
+  label,
+  description,
+  children
+}) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-300 mb-1 font-mono">{label}</label>
+    {description && <p className="text-xs text-gray-500 mb-2">{description}</p>}
+    {children}
+  </div>
+));
+
+SettingRow.displayName = 'SettingRow';
+
+/**
+ * Main Settings Panel Component
+ */
+export const SettingsPanel = memo<SettingsPanelProps>(({ isOpen, onClose }) => {
+  const { preferences, updatePreferences, resetPreferences } = useUserPreferences();
+  const { themes, preference: themePreference, setTheme } = useTheme();
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="fixed inset-0 bg-black bg-opacity-90 z-50 flex items-center justify-center p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: ANIMATION_DURATIONS.FAST }}
+          onClick={onClose}
+        >
+          <motion.div
+            className="bg-surface border border-gray-800 rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            transition={{ duration: ANIMATION_DURATIONS.NORMAL }}
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-label="Settings"
+          >
+            <div className="p-6 space-y-6">
+              {/* Header */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-2xl font-bold text-white mb-1 font-mono">Settings</h2>
+                  <p className="text-gray-400 text-sm">Saved in this browser.</p>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="text-gray-400 hover:text-white text-2xl font-bold transition-colors"
+                  aria-label="Close settings"
+                >
+                  ×
+                </button>
+              </div>
+
+              {/* Appearance */}
+              <section className="space-y-4">
+                <h3 className="text-xs uppercase tracking-wider text-gray-500 font-mono">Appearance</h3>
+                <SettingRow label="Theme">
+                  <select
+                    value={themePreference}
+                    onChange={(e) => setTheme(e.target.value)}
+                    className={selectClass}
+                  >
+                    <option value={SYSTEM_THEME}>Match system</option>
+                    {themes.map(theme => (
+                      <option key={theme.id} value={theme.id}>{theme.label}</option>
+                    ))}
+                  </select>
+                </SettingRow>
+              </section>
+
+              {/* Data refresh */}
+              <section className="space-y-4">
+                <h3 className="text-xs uppercase tracking-wider text-gray-500 font-mono">Data refresh</h3>
+                <label className="flex items-center justify-between cursor-pointer">
+                  <span className="text-sm font-medium text-gray-300 font-mono">Auto-refresh</span>
+                  <input
+                    type="checkbox"
+                    checked={preferences.autoRefresh}
+                    onChange={(e) => updatePreferences({ autoRefresh: e.target.checked })}
+                    className="w-4 h-4"
+                    style={{ accentColor: THEME_COLORS.ACCENT }}
+                  />
+                </label>
+                <SettingRow label="Refresh interval">
+                  <select
+                    value={preferences.refreshInterval}
+                    disabled={!preferences.autoRefresh}
+                    onChange={(e) => updatePreferences({ refreshInterval: Number(e.target.value) })}
+                    className={selectClass}
+                  >
+                    {REFRESH_INTERVAL_OPTIONS.map(interval => (
+                      <option key={interval} value={interval}>{formatInterval(interval)}</option>
+                    ))}
+                  </select>
+                </SettingRow>
+              </section>
+
+              {/* Defaults on load */}
+              <section className="space-y-4">
+                <h3 className="text-xs uppercase tracking-wider text-gray-500 font-mono">Defaults on load</h3>
+                <p className="text-xs text-gray-500">Used when a link does not specify the view.</p>
+                <SettingRow label="Protocol">
+                  <select
+                    value={preferences.selectedProtocol}
+                    onChange={(e) => updatePreferences({ selectedProtocol: e.target.value })}
+                    className={selectClass}
+                  >
+                    {PROTOCOL_REGISTRY.map(protocol => (
+                      <option key={protocol.token} value={protocol.name}>{protocol.name} ({protocol.token})</option>
+                    ))}
+                  </select>
+                </SettingRow>
+                <div className="grid grid-cols-2 gap-4">
+                  <SettingRow label="Sort by">
+                    <select
+                      value={preferences.sortBy}
+                      onChange={(e) => updatePreferences({ sortBy: e.target.value as SortOption })}
+                      className={selectClass}
+                    >
+                      {SORT_OPTIONS.map(option => (
+                        <option key={option} value={option}>{SORT_OPTION_LABELS[option]}</option>
+                      ))}
+                    </select>
+                  </SettingRow>
+                  <SettingRow label="Order">
+                    <select
+                      value={preferences.sortOrder}
+                      onChange={(e) => updatePreferences({ sortOrder: e.target.value as SortOrder })}
+                      className={selectClass}
+                    >
+                      {SORT_ORDERS.map(order => (
+                        <option key={order} value={order}>{SORT_ORDER_LABELS[order]}</option>
+                      ))}
+                    </select>
+                  </SettingRow>
+                </div>
+                <SettingRow label="Timeframe">
+                  <select
+                    value={preferences.timeframe}
+                    onChange={(e) => updatePreferences({ timeframe: e.target.value as TimeframeOption })}
+                    className={selectClass}
+                  >
+                    {TIMEFRAME_OPTIONS.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                </SettingRow>
+              </section>
+
+              {/* Footer */}
+              <div className="flex items-center justify-between pt-4 border-t border-gray-800">
+                <button
+                  onClick={resetPreferences}
+                  className="px-4 py-2 text-sm font-mono text-gray-400 hover:text-white transition-colors"
+                >
+                  Reset to defaults
+                </button>
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 text-sm font-mono rounded-lg text-accent-contrast"
+                  style={{ background: THEME_COLORS.ACCENT }}
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+});
+
+SettingsPanel.displayName = 'SettingsPanel';
+
+export default SettingsPanel;
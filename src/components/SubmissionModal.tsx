@@ -5,7 +5,8 @@
 
 import React, { useState, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ANIMATION_DURATIONS } from '../constants';
+import { ANIMATION_DURATIONS, THEME_COLORS } from '../constants';
+import { withAlpha } from '../utils/theme';
 
 interface SubmissionModalProps {
   isOpen: boolean;
@@ -102,9 +103,9 @@ export const SubmissionModal: React.FC<SubmissionModalProps> = ({
           >
             {/* Modal Content */}
             <motion.div
-              className="bg-[#0a0a0a] border border-gray-800 rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+              className="bg-surface border border-gray-800 rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
               style={{
-                boxShadow: '0 25px 50px -12px rgba(0, 255, 135, 0.1), 0 0 0 1px rgba(255, 255, 255, 0.05)'
+                boxShadow: `0 25px 50px -12px ${withAlpha(THEME_COLORS.ACCENT, 0.1)}, 0 0 0 1px ${withAlpha(THEME_COLORS.TEXT_PRIMARY, 0.05)}`
               }}
               initial={{ opacity: 0, scale: 0.9, y: 20 }}
               animate={{ opacity: 1, scale: 1, y: 0 }}
@@ -139,7 +140,7 @@ export const SubmissionModal: React.FC<SubmissionModalProps> = ({
                         type="text"
                         value={formData.companyName}
                         onChange={(e) => handleInputChange('companyName', e.target.value)}
-                        className={`w-full px-3 py-2 bg-[#1a1a1a] border rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-green-500 focus:border-green-500 focus:bg-[#222] transition-all ${
+                        className={`w-full px-3 py-2 bg-surface-strong border rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-accent focus:border-accent focus:bg-surface-hover transition-all ${
                           errors.companyName ? 'border-red-500' : 'border-gray-700'
                         }`}
                         placeholder="Enter company name"
@@ -156,7 +157,7 @@ export const SubmissionModal: React.FC<SubmissionModalProps> = ({
                         type="text"
                         value={formData.tickerSymbol}
                         onChange={(e) => handleInputChange('tickerSymbol', e.target.value)}
-                        className="w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-green-500 focus:border-green-500 focus:bg-[#222] transition-all"
+                        className="w-full px-3 py-2 bg-surface-strong border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-accent focus:border-accent focus:bg-surface-hover transition-all"
                         placeholder="BTC, ETH, etc."
                       />
                     </div>
@@ -172,7 +173,7 @@ export const SubmissionModal: React.FC<SubmissionModalProps> = ({
                         type="url"
                         value={formData.websiteUrl}
                         onChange={(e) => handleInputChange('websiteUrl', e.target.value)}
-                        className="w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-green-500 focus:border-green-500 focus:bg-[#222] transition-all"
+                        className="w-full px-3 py-2 bg-surface-strong border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-accent focus:border-accent focus:bg-surface-hover transition-all"
                         placeholder="https://example.com"
                       />
                     </div>
@@ -184,7 +185,7 @@ export const SubmissionModal: React.FC<SubmissionModalProps> = ({
                         type="text"
                         value={formData.twitter}
                         onChange={(e) => handleInputChange('twitter', e.target.value)}
-                        className="w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-green-500 focus:border-green-500 focus:bg-[#222] transition-all"
+                        className="w-full px-3 py-2 bg-surface-strong border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-accent focus:border-accent focus:bg-surface-hover transition-all"
                         placeholder="@username"
                       />
                     </div>
@@ -199,7 +200,7 @@ export const SubmissionModal: React.FC<SubmissionModalProps> = ({
                       type="text"
                       value={formData.submitterContact}
                       onChange={(e) => handleInputChange('submitterContact', e.target.value)}
-                      className={`w-full px-3 py-2 bg-[#1a1a1a] border rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-green-500 focus:border-green-500 focus:bg-[#222] transition-all ${
+                      className={`w-full px-3 py-2 bg-surface-strong border rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-accent focus:border-accent focus:bg-surface-hover transition-all ${
                         errors.submitterContact ? 'border-red-500' : 'border-gray-700'
                       }`}
                       placeholder="Telegram/Email"
@@ -218,7 +219,7 @@ export const SubmissionModal: React.FC<SubmissionModalProps> = ({
                       value={formData.briefDescription}
                       onChange={(e) => handleInputChange('briefDescription', e.target.value)}
                       rows={4}
-                      className="w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-green-500 focus:border-green-500 focus:bg-[#222] transition-all"
+                      className="w-full px-3 py-2 bg-surface-strong border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-accent focus:border-accent focus:bg-surface-hover transition-all"
                       placeholder="Enter a brief description or announcement..."
                     />
                   </div>
@@ -232,7 +233,7 @@ export const SubmissionModal: React.FC<SubmissionModalProps> = ({
                       value={formData.walletAddresses}
                       onChange={(e) => handleInputChange('walletAddresses', e.target.value)}
                       rows={3}
-                      className="w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-green-500 focus:border-green-500 focus:bg-[#222] transition-all"
+                      className="w-full px-3 py-2 bg-surface-strong border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-accent focus:border-accent focus:bg-surface-hover transition-all"
                       placeholder="0xfoo,0xbar"
                     />
                     <p className="text-sm text-gray-400 mt-1">
@@ -245,13 +246,13 @@ export const SubmissionModal: React.FC<SubmissionModalProps> = ({
                     <button
                       type="button"
                       onClick={onClose}
-                      className="px-4 py-2 text-gray-400 bg-[#1a1a1a] hover:bg-[#2a2a2a] hover:text-white border border-gray-700 rounded-lg transition-colors font-mono"
+                      className="px-4 py-2 text-gray-400 bg-surface-strong hover:bg-line-strong hover:text-white border border-gray-700 rounded-lg transition-colors font-mono"
                     >
                       Cancel
                     </button>
                     <button
                       type="submit"
-                      className="px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors font-medium font-mono shadow-lg hover:shadow-green-500/25"
+                      className="px-6 py-2 bg-accent hover:bg-accent-hover text-accent-contrast rounded-lg transition-colors font-medium font-mono shadow-lg hover:shadow-accent/25"
                     >
                       Submit Entity
                     </button>
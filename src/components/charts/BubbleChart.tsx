@@ -1,11 +1,12 @@
 import React from 'react';
 import { motion } from 'framer-motion';
+import { formatChange } from '../../utils/formatters';
 
 interface BubbleData {
   name: string;
   value: number;
   color: string;
-  change: number;
+  change: number | null;     // Growth across the loaded window; null when it cannot be measured
 }
 
 interface BubbleChartProps {
@@ -13,6 +14,11 @@ interface BubbleChartProps {
   height?: number;
 }
 
+const getChangeClass = (change: number | null): string => {
+  if (change === null) return 'text-gray-300';
+  return change >= 0 ? 'text-green-400' : 'text-red-400';
+};
+
 export const BubbleChart: React.FC<BubbleChartProps> = ({ data, height = 200 }) => {
   const formatValue = (value: number) => {
     if (value >= 1000000000) return `$${(value / 1000000000).toFixed(1)}B`;
@@ -135,11 +141,9 @@ export const BubbleChart: React.FC<BubbleChartProps> = ({ data, height = 200 })
               <div className="text-white text-xs opacity-90 mt-1">
                 {formatValue(item.value)}
               </div>
-              {item.change !== 0 && (
-                <div className={`text-xs mt-1 ${item.change > 0 ? 'text-green-400' : 'text-red-400'}`}>
-                  {item.change > 0 ? '+' : ''}{item.change.toFixed(1)}%
-                </div>
-              )}
+              <div className={`text-xs mt-1 ${getChangeClass(item.change)}`}>
+                {formatChange(item.change, 1)}
+              </div>
             </div>
           </motion.div>
         );
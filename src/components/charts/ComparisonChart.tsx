@@ -0,0 +1,273 @@
+/**
+ * Comparison Chart Component
+ * Overlays cumulative buybacks for any subset of protocols with a shared normalization mode
+ */
+
+import React, { useState, useMemo, memo, useCallback } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { motion } from 'framer-motion';
+import {
+  CHART_HEIGHTS,
+  ANIMATION_DURATIONS,
+  ANIMATION_DELAYS,
+  THEME_COLORS,
+  TIMEFRAME_CONFIG,
+  DEFAULT_TIMEFRAME,
+  COMPARISON_MODES,
+  COMPARISON_MODE_LABELS,
+  DEFAULT_COMPARISON_MODE
+} from '../../constants';
+import { formatCurrency, formatPercentage, formatChartDate } from '../../utils/formatters';
+import { getProtocolColor, getImpliedCirculatingSupply, sliceTimeWindow } from '../../utils/helpers';
+import { pivotByTimestamp, indexPivotRows, dropNonPositive } from '../../utils/pivot';
+import { withAlpha } from '../../utils/theme';
+import { useChartColors } from '../../hooks/useChartColors';
+import type { ComparisonChartProps, ComparisonMode, HistoricalDataPoint, PivotRow } from '../../types';
+
+/**
+ * Value formatter for the active mode
+ */
+const getModeFormatter = (mode: ComparisonMode) => (value: number): string => {
+  switch (mode) {
+    case 'indexed':
+      return value.toFixed(1);
+    case 'supplyPercent':
+      return formatPercentage(value, 3);
+    default:
+      return formatCurrency(value);
+  }
+};
+
+/**
+ * Custom tooltip listing every visible series at the hovered timestamp
+ */
+interface TooltipProps {
+  active?: boolean;
+  payload?: Array<{
+    color: string;
+    name: string;
+    value: number;
+  }>;
+  label?: string;
+  mode: ComparisonMode;
+}
+
+const ComparisonTooltip = memo<TooltipProps>(({ active, payload, label, mode }) => {
+  if (!active || !payload || !payload.length) return null;
+  const format = getModeFormatter(mode);
+
+  return (
+    <div
+      className="rounded-lg p-3 shadow-lg border"
+      style={{
+        backgroundColor: THEME_COLORS.SURFACE,
+        borderColor: THEME_COLORS.ACCENT,
+      }}
+    >
+      <p className="text-xs font-mono mb-2" style={{ color: THEME_COLORS.ACCENT }}>
+        {label ? formatChartDate(label) : 'No date'}
+      </p>
+      {[...payload]
+        .sort((a, b) => b.value - a.value)
+        .map(entry => (
+          <p key={entry.name} className="text-xs font-mono" style={{ color: entry.color }}>
+            {`${entry.name}: ${format(entry.value)}`}
+          </p>
+        ))}
+    </div>
+  );
+});
+
+ComparisonTooltip.displayName = 'ComparisonTooltip';
+
+/**
+ * Main Comparison Chart Component
+ */
+export const ComparisonChart = memo<ComparisonChartProps>(({
+  data,
+  protocols,
+  title = 'Protocol Comparison',
+  height = CHART_HEIGHTS.LARGE,
+  timeframe = DEFAULT_TIMEFRAME
+}) => {
+  const [mode, setMode] = useState<ComparisonMode>(DEFAULT_COMPARISON_MODE);
+  const [hiddenProtocols, setHiddenProtocols] = useState<Set<string>>(new Set());
+  const chartColors = useChartColors();
+
+  const visibleProtocols = useMemo(
+    () => protocols.map(protocol => protocol.protocol).filter(name => !hiddenProtocols.has(name)),
+    [protocols, hiddenProtocols]
+  );
+
+  // Pivot the visible protocols into one row per bucket, then normalize for the active mode
+  const chartData = useMemo((): PivotRow[] => {
+    const { days, bucketMs } = TIMEFRAME_CONFIG[timeframe];
+    const visible = new Set(visibleProtocols);
+    const supplyByProtocol = new Map(
+      protocols.map(protocol => [protocol.protocol, getImpliedCirculatingSupply(protocol)] as const)
+    );
+
+    const rows = data
+      .filter(point => visible.has(point.protocol))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    const getValue = (point: HistoricalDataPoint): number | undefined => {
+      if (mode !== 'supplyPercent') return point.cumulative_value;
+      const supply = supplyByProtocol.get(point.protocol);
+      return supply && point.cumulative_tokens !== undefined
+        ? (point.cumulative_tokens / supply) * 100
+        : undefined;
+    };
+
+    const pivoted = pivotByTimestamp(sliceTimeWindow(rows, days), {
+      seriesKey: point => point.protocol,
+      value: getValue,
+      bucketMs,
+    });
+
+    if (mode === 'indexed') return indexPivotRows(pivoted, visibleProtocols);
+    if (mode === 'log') return dropNonPositive(pivoted, visibleProtocols);
+    return pivoted;
+  }, [data, protocols, visibleProtocols, mode, timeframe]);
+
+  const handleProtocolToggle = useCallback((protocol: string) => {
+    setHiddenProtocols(prev => {
+      const next = new Set(prev);
+      if (next.has(protocol)) {
+        next.delete(protocol);
+      } else {
+        next.add(protocol);
+      }
+      return next;
+    });
+  }, []);
+
+  const formatValue = getModeFormatter(mode);
+
+  return (
+    <motion.div
+      className="dark-card"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{
+        duration: ANIMATION_DURATIONS.NORMAL,
+        delay: ANIMATION_DELAYS.MEDIUM
+      }}
+    >
+      {/* Title and Mode Selector */}
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-4">
+        <div className="space-y-1">
+          <h3 className="text-lg font-semibold text-gray-400 font-mono tracking-wide">{title}</h3>
+          <p className="text-xs text-gray-500 font-mono">Cumulative buybacks · {timeframe}</p>
+        </div>
+
+        <div className="bg-surface-raised border border-gray-800 rounded-xl p-1 flex gap-1">
+          {COMPARISON_MODES.map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-2 text-xs font-medium rounded-lg transition-all duration-200 font-mono ${
+                mode === option ? 'text-accent-contrast' : 'text-gray-400 hover:text-white hover:bg-gray-800/50'
+              }`}
+              style={mode === option ? { backgroundColor: THEME_COLORS.ACCENT } : {}}
+            >
+              {COMPARISON_MODE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Protocol Toggles */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {protocols.map(({ protocol }) => {
+          const color = getProtocolColor(protocol);
+          const isVisible = !hiddenProtocols.has(protocol);
+          return (
+            <button
+              key={protocol}
+              onClick={() => handleProtocolToggle(protocol)}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-mono transition-colors ${
+                isVisible ? 'text-white' : 'text-gray-500 border-gray-800'
+              }`}
+              style={isVisible ? { borderColor: color, backgroundColor: withAlpha(color, 0.1) } : {}}
+            >
+              <span
+                className="w-2 h-2 rounded-full"
+                style={{ backgroundColor: isVisible ? color : THEME_COLORS.TEXT_MUTED }}
+              />
+              {protocol}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Chart Container */}
+      <div style={{ height }} className="w-full">
+        {chartData.length === 0 ? (
+          <div className="h-full flex items-center justify-center">
+            <p className="text-gray-400 text-sm">
+              {visibleProtocols.length === 0 ? 'Select at least one protocol' : 'No comparison data available'}
+            </p>
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid
+                strokeDasharray="1 3"
+                stroke={chartColors.GRID}
+                strokeWidth={0.5}
+                vertical={false}
+              />
+              <XAxis
+                dataKey="timestamp"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: chartColors.TEXT_SECONDARY, fontSize: 11, fontFamily: 'JetBrains Mono, monospace' }}
+                tickFormatter={formatChartDate}
+                height={40}
+                tickMargin={10}
+                interval="preserveStartEnd"
+              />
+              <YAxis
+                orientation="right"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: chartColors.TEXT_SECONDARY, fontSize: 11, fontFamily: 'JetBrains Mono, monospace' }}
+                tickFormatter={formatValue}
+                width={80}
+                scale={mode === 'log' ? 'log' : 'auto'}
+                domain={mode === 'log' ? ['auto', 'auto'] : [0, 'auto']}
+                allowDataOverflow={mode === 'log'}
+              />
+              <Tooltip content={<ComparisonTooltip mode={mode} />} />
+              {visibleProtocols.map(protocol => (
+                <Line
+                  key={protocol}
+                  type="monotone"
+                  dataKey={protocol}
+                  name={protocol}
+                  stroke={getProtocolColor(protocol)}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </motion.div>
+  );
+});
+
+ComparisonChart.displayName = 'ComparisonChart';
+
+export default ComparisonChart;
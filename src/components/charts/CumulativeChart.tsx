@@ -0,0 +1,76 @@
+/**
+ * Cumulative Chart Component
+ * Cumulative buyback value over time for a single protocol
+ */
+
+import React, { memo } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { CHART_HEIGHTS, THEME_COLORS } from '../../constants';
+import { formatCurrency, formatChartDate } from '../../utils/formatters';
+import { useChartColors } from '../../hooks/useChartColors';
+import type { HistoricalDataPoint } from '../../types';
+
+interface CumulativeChartProps {
+  data: HistoricalDataPoint[];
+  color: string;
+  height?: number;
+}
+
+export const CumulativeChart = memo<CumulativeChartProps>(({ data, color, height = CHART_HEIGHTS.MEDIUM }) => {
+  const chartColors = useChartColors();
+  // Gradient ids are document-wide, so key them by colour
+  const gradientId = `cumulative-gradient-${color.replace(/[^\w]/g, '')}`;
+
+  if (data.length === 0) {
+    return <p className="text-gray-400 text-sm">No buyback history recorded yet</p>;
+  }
+
+  return (
+    <div style={{ height }} className="w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={data} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+          <defs>
+            <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor={color} stopOpacity={0.3} />
+              <stop offset="95%" stopColor={color} stopOpacity={0} />
+            </linearGradient>
+          </defs>
+          <CartesianGrid strokeDasharray="1 3" stroke={chartColors.GRID} strokeWidth={0.5} vertical={false} />
+          <XAxis
+            dataKey="timestamp"
+            axisLine={false}
+            tickLine={false}
+            tick={{ fill: chartColors.TEXT_SECONDARY, fontSize: 11, fontFamily: 'JetBrains Mono, monospace' }}
+            tickFormatter={formatChartDate}
+            interval="preserveStartEnd"
+          />
+          <YAxis
+            orientation="right"
+            axisLine={false}
+            tickLine={false}
+            tick={{ fill: chartColors.TEXT_SECONDARY, fontSize: 11, fontFamily: 'JetBrains Mono, monospace' }}
+            tickFormatter={formatCurrency}
+            width={80}
+          />
+          <Tooltip
+            contentStyle={{ backgroundColor: THEME_COLORS.SURFACE, border: `1px solid ${color}`, borderRadius: '8px' }}
+            labelStyle={{ color: THEME_COLORS.TEXT_SECONDARY }}
+            labelFormatter={(label: string) => formatChartDate(label)}
+            formatter={(value: number) => [formatCurrency(value), 'Cumulative Value']}
+          />
+          <Area
+            type="monotone"
+            dataKey="cumulative_value"
+            stroke={color}
+            strokeWidth={2}
+            fill={`url(#${gradientId})`}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+});
+
+CumulativeChart.displayName = 'CumulativeChart';
+
+export default CumulativeChart;
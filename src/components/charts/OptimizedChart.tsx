@@ -13,31 +13,36 @@ import {
   Tooltip,
   ResponsiveContainer,
   ComposedChart,
-  Bar
+  Bar,
+  Line
 } from 'recharts';
 import { motion } from 'framer-motion';
 import { 
-  CHART_COLORS, 
   CHART_HEIGHTS, 
   ANIMATION_DURATIONS, 
   ANIMATION_DELAYS,
-  THEME_COLORS 
+  THEME_COLORS,
+  TIMEFRAME_OPTIONS,
+  TIMEFRAME_CONFIG,
+  DEFAULT_TIMEFRAME,
+  INTRADAY_TIMEFRAMES,
+  MIN_TIMEFRAME_POINTS
 } from '../../constants';
-import { formatCurrency, formatVolume, formatChartDate } from '../../utils/formatters';
-import type { ChartProps } from '../../types';
+import { formatCurrency, formatVolume, formatPrice, formatChartDate, formatChartDateTime } from '../../utils/formatters';
+import { calculatePercentageChange, rebucketTimeSeries, sliceTimeWindow } from '../../utils/helpers';
+import { withAlpha } from '../../utils/theme';
+import { useChartColors } from '../../hooks/useChartColors';
+import type { ChartProps, TimeframeOption } from '../../types';
 
 // Chart type options focused on DAO treasury metrics
 type ChartType = 'buybacks' | 'revenue' | 'tokensBought';
-type TimeframeOption = '1D' | '7D' | '30D' | '90D' | '1Y';
-
-const TIMEFRAME_OPTIONS: TimeframeOption[] = ['1D', '7D', '30D', '90D', '1Y'];
 const CHART_TYPE_OPTIONS: Array<{
   key: ChartType;
   label: string;
   color: string;
   description: string;
 }> = [
-  { key: 'buybacks', label: 'Buyback Value', color: '#00ff87', description: 'Total USD value of token buybacks' },
+  { key: 'buybacks', label: 'Buyback Value', color: THEME_COLORS.ACCENT, description: 'Total USD value of token buybacks' },
   { key: 'revenue', label: 'Protocol Revenue', color: '#16a34a', description: 'Revenue generated from protocol fees' },
   { key: 'tokensBought', label: 'Tokens Bought', color: '#2563eb', description: 'Number of tokens purchased back' }
 ];
@@ -54,27 +59,29 @@ interface TooltipProps {
     dataKey: string;
   }>;
   label?: string;
+  formatLabel?: (timestamp: string) => string;
 }
 
-const CustomTooltip = memo<TooltipProps>(({ active, payload, label }) => {
+const CustomTooltip = memo<TooltipProps>(({ active, payload, label, formatLabel = formatChartDate }) => {
   if (!active || !payload || !payload.length) return null;
 
   return (
     <div
       className="rounded-lg p-3 shadow-lg border"
       style={{
-        backgroundColor: THEME_COLORS.DARK_BLACK,
-        borderColor: CHART_COLORS.PRIMARY,
-        boxShadow: `0 10px 25px -5px ${CHART_COLORS.PRIMARY}1a`,
+        backgroundColor: THEME_COLORS.SURFACE,
+        borderColor: THEME_COLORS.ACCENT,
+        boxShadow: `0 10px 25px -5px ${withAlpha(THEME_COLORS.ACCENT, 0.1)}`,
       }}
     >
-      <p className="text-xs font-mono mb-2" style={{ color: CHART_COLORS.PRIMARY }}>
-        {label ? formatChartDate(label) : 'No date'}
+      <p className="text-xs font-mono mb-2" style={{ color: THEME_COLORS.ACCENT }}>
+        {label ? formatLabel(label) : 'No date'}
       </p>
       {payload.map((entry, index: number) => (
         <p key={index} className="text-xs font-mono" style={{ color: entry.color }}>
           {`${entry.name}: ${
             (() => {
+              if (entry.dataKey === 'price' || entry.dataKey === 'costBasis') return formatPrice(entry.value);
               const formatter = entry.dataKey === 'tokensBought' ? formatVolume : formatCurrency;
               return formatter(entry.value);
             })()
@@ -93,9 +100,10 @@ CustomTooltip.displayName = 'CustomTooltip';
 interface ChartHeaderProps {
   title: string;
   currentValue: number;
-  change24h: number;
+  windowChange: number;
   activeChart: ChartType;
   timeframe: TimeframeOption;
+  availableTimeframes: readonly TimeframeOption[];
   onChartTypeChange: (type: ChartType) => void;
   onTimeframeChange: (timeframe: TimeframeOption) => void;
 }
@@ -103,13 +111,14 @@ interface ChartHeaderProps {
 const ChartHeader = memo<ChartHeaderProps>(({
   title,
   currentValue,
-  change24h,
+  windowChange,
   activeChart,
   timeframe,
+  availableTimeframes,
   onChartTypeChange,
   onTimeframeChange
 }) => {
-  const isPositive = change24h >= 0;
+  const isPositive = windowChange >= 0;
   const currentMetric = CHART_TYPE_OPTIONS.find(option => option.key === activeChart);
   
   return (
@@ -139,9 +148,9 @@ const ChartHeader = memo<ChartHeaderProps>(({
                 <svg className={`w-3 h-3 mr-1 ${isPositive ? '' : 'rotate-180'}`} fill="currentColor" viewBox="0 0 20 20">
                   <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
                 </svg>
-                {isPositive ? '+' : ''}{change24h.toFixed(2)}%
+                {isPositive ? '+' : ''}{windowChange.toFixed(2)}%
               </span>
-              <span className="text-xs text-gray-500 font-mono">24h</span>
+              <span className="text-xs text-gray-500 font-mono">{timeframe}</span>
             </div>
           </div>
           {currentMetric && (
@@ -150,21 +159,23 @@ const ChartHeader = memo<ChartHeaderProps>(({
         </div>
 
         {/* Timeframe Selector - Elevated Design */}
-        <div className="bg-[#0f0f0f] border border-gray-800 rounded-xl p-1 flex gap-1">
+        <div className="bg-surface-raised border border-gray-800 rounded-xl p-1 flex gap-1">
           {TIMEFRAME_OPTIONS.map((tf) => (
             <button
               key={tf}
               onClick={() => onTimeframeChange(tf)}
+              disabled={timeframe !== tf && !availableTimeframes.includes(tf)}
+              title={availableTimeframes.includes(tf) ? undefined : 'Not enough stored history for this window'}
               className={`relative px-4 py-2.5 text-sm font-medium rounded-lg transition-all duration-200 font-mono ${
                 timeframe === tf
-                  ? 'text-black shadow-lg'
-                  : 'text-gray-400 hover:text-white hover:bg-gray-800/50'
+                  ? 'text-accent-contrast shadow-lg'
+                  : 'text-gray-400 hover:text-white hover:bg-gray-800/50 disabled:text-gray-600 disabled:hover:bg-transparent disabled:cursor-not-allowed'
               }`}
               style={
                 timeframe === tf
                   ? {
-                      backgroundColor: CHART_COLORS.PRIMARY,
-                      boxShadow: `0 0 20px ${CHART_COLORS.PRIMARY}40`,
+                      backgroundColor: THEME_COLORS.ACCENT,
+                      boxShadow: `0 0 20px ${withAlpha(THEME_COLORS.ACCENT, 0.25)}`,
                     }
                   : {}
               }
@@ -190,8 +201,8 @@ const ChartHeader = memo<ChartHeaderProps>(({
               activeChart === key
                 ? {
                     borderColor: color,
-                    backgroundColor: `${color}0a`,
-                    boxShadow: `0 8px 32px ${color}20`,
+                    backgroundColor: withAlpha(color, 0.04),
+                    boxShadow: `0 8px 32px ${withAlpha(color, 0.125)}`,
                   }
                 : {}
             }
@@ -241,36 +252,48 @@ ChartHeader.displayName = 'ChartHeader';
 export const OptimizedChart = memo<ChartProps>(({
   data,
   title,
-  color = CHART_COLORS.PRIMARY,
+  color: colorOverride,
   height = CHART_HEIGHTS.LARGE,
-  showVolume = true
+  showVolume = true,
+  timeframe: controlledTimeframe,
+  onTimeframeChange
 }) => {
   const [activeChart, setActiveChart] = useState<ChartType>('buybacks');
-  const [timeframe, setTimeframe] = useState<TimeframeOption>('30D');
+  const [internalTimeframe, setInternalTimeframe] = useState<TimeframeOption>(DEFAULT_TIMEFRAME);
+  const timeframe = controlledTimeframe || internalTimeframe;
+  const chartColors = useChartColors();
+  const color = colorOverride || chartColors.PRIMARY;
+
+  const sortedData = useMemo(() => [...(data || [])].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  ), [data]);
 
-  // Memoized calculations
-  const { currentValue, change24h, chartData } = useMemo(() => {
-    if (!data || data.length === 0) {
-      return { currentValue: 0, change24h: 0, chartData: [] };
+  // Short windows need intraday points; daily snapshots alone leave 1D with one or two
+  const availableTimeframes = useMemo(() => TIMEFRAME_OPTIONS.filter(tf => {
+    const { days, bucketMs } = TIMEFRAME_CONFIG[tf];
+    return rebucketTimeSeries(sliceTimeWindow(sortedData, days), bucketMs).length >= MIN_TIMEFRAME_POINTS;
+  }), [sortedData]);
+
+  // Memoized calculations: window the data, re-bucket it, and measure change from the window start
+  const { currentValue, windowChange, chartData } = useMemo(() => {
+    if (sortedData.length === 0) {
+      return { currentValue: 0, windowChange: 0, chartData: [] };
     }
 
-    const sortedData = [...data].sort(
-      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
+    const { days, bucketMs } = TIMEFRAME_CONFIG[timeframe];
+    const bucketedData = rebucketTimeSeries(sliceTimeWindow(sortedData, days), bucketMs);
 
-    const latest = sortedData[sortedData.length - 1];
-    const previous = sortedData[sortedData.length - 2];
-    
+    const first = bucketedData[0];
+    const latest = bucketedData[bucketedData.length - 1];
     const currentVal = latest?.[activeChart] || 0;
-    const previousVal = previous?.[activeChart] || currentVal;
-    const change = previousVal === 0 ? 0 : ((currentVal - previousVal) / previousVal) * 100;
+    const startVal = first?.[activeChart] || 0;
 
     return {
       currentValue: currentVal,
-      change24h: change,
-      chartData: sortedData
+      windowChange: calculatePercentageChange(currentVal, startVal),
+      chartData: bucketedData
     };
-  }, [data, activeChart]);
+  }, [sortedData, activeChart, timeframe]);
 
   // Event handlers
   const handleChartTypeChange = useCallback((type: ChartType) => {
@@ -278,8 +301,9 @@ export const OptimizedChart = memo<ChartProps>(({
   }, []);
 
   const handleTimeframeChange = useCallback((tf: TimeframeOption) => {
-    setTimeframe(tf);
-  }, []);
+    setInternalTimeframe(tf);
+    onTimeframeChange?.(tf);
+  }, [onTimeframeChange]);
 
   // Error boundary fallback
   if (!data || data.length === 0) {
@@ -300,6 +324,10 @@ export const OptimizedChart = memo<ChartProps>(({
   }
 
   const gradientId = `gradient-${activeChart}`;
+  const isIntraday = INTRADAY_TIMEFRAMES.includes(timeframe);
+  const formatTick = isIntraday ? formatChartDateTime : formatChartDate;
+  const hasPrice = chartData.some(point => typeof point.price === 'number');
+  const hasCostBasis = chartData.some(point => typeof point.costBasis === 'number');
 
   return (
     <motion.div
@@ -314,178 +342,222 @@ export const OptimizedChart = memo<ChartProps>(({
       <ChartHeader
         title={title}
         currentValue={currentValue}
-        change24h={change24h}
+        windowChange={windowChange}
         activeChart={activeChart}
         timeframe={timeframe}
+        availableTimeframes={availableTimeframes}
         onChartTypeChange={handleChartTypeChange}
         onTimeframeChange={handleTimeframeChange}
       />
 
       {/* Chart Container */}
-      <div style={{ height }} className="w-full">
-        <ResponsiveContainer width="100%" height="100%">
-          {showVolume && activeChart === 'buybacks' ? (
-            <ComposedChart 
-              data={chartData} 
-              margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
-            >
-              <defs>
-                <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor={color} stopOpacity={0.3} />
-                  <stop offset="95%" stopColor={color} stopOpacity={0} />
-                </linearGradient>
-              </defs>
-              
-              <CartesianGrid
-                strokeDasharray="1 3"
-                stroke={CHART_COLORS.GRID}
-                strokeWidth={0.5}
-                horizontal={true}
-                vertical={false}
-              />
-              
-              <XAxis
-                dataKey="timestamp"
-                axisLine={false}
-                tickLine={false}
-                tick={{
-                  fill: CHART_COLORS.TEXT_SECONDARY,
-                  fontSize: 11,
-                  fontFamily: 'JetBrains Mono, monospace'
-                }}
-                tickFormatter={formatChartDate}
-                height={40}
-                tickMargin={10}
-                interval="preserveStartEnd"
-              />
-              
-              <YAxis
-                yAxisId="primary"
-                orientation="right"
-                axisLine={false}
-                tickLine={false}
-                tick={{
-                  fill: CHART_COLORS.PRIMARY,
-                  fontSize: 11,
-                  fontFamily: 'JetBrains Mono, monospace'
-                }}
-                tickFormatter={formatCurrency}
-                width={80}
-                tickMargin={5}
-                domain={['dataMin * 0.95', 'dataMax * 1.05']}
-              />
-              
-              <YAxis
-                yAxisId="secondary"
-                orientation="left"
-                axisLine={false}
-                tickLine={false}
-                tick={{
-                  fill: CHART_COLORS.TEXT_SECONDARY,
-                  fontSize: 10,
-                  fontFamily: 'JetBrains Mono, monospace'
-                }}
-                tickFormatter={formatVolume}
-                width={60}
-                tickMargin={5}
-                domain={[0, 'dataMax * 1.1']}
-              />
-              
-              <Tooltip
-                content={<CustomTooltip />}
-                cursor={{ stroke: color, strokeWidth: 1, strokeOpacity: 0.5 }}
-              />
-              
-              <Bar
-                yAxisId="secondary"
-                dataKey="revenue"
-                fill="#16a34a"
-                opacity={0.4}
-                radius={[2, 2, 0, 0]}
-              />
-              
-              <Area
-                yAxisId="primary"
-                type="monotone"
-                dataKey={activeChart}
-                stroke={color}
-                strokeWidth={2}
-                fill={`url(#${gradientId})`}
-                dot={false}
-                activeDot={{ r: 4, stroke: color, strokeWidth: 2 }}
-              />
-            </ComposedChart>
-          ) : (
-            <AreaChart 
-              data={chartData} 
-              margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
-            >
-              <defs>
-                <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor={color} stopOpacity={0.3} />
-                  <stop offset="95%" stopColor={color} stopOpacity={0} />
-                </linearGradient>
-              </defs>
-              
-              <CartesianGrid
-                strokeDasharray="1 3"
-                stroke={CHART_COLORS.GRID}
-                strokeWidth={0.5}
-                horizontal={true}
-                vertical={false}
-              />
-              
-              <XAxis
-                dataKey="timestamp"
-                axisLine={false}
-                tickLine={false}
-                tick={{
-                  fill: CHART_COLORS.TEXT_SECONDARY,
-                  fontSize: 11,
-                  fontFamily: 'JetBrains Mono, monospace'
-                }}
-                tickFormatter={formatChartDate}
-                height={40}
-                tickMargin={10}
-                interval="preserveStartEnd"
-              />
-              
-              <YAxis
-                axisLine={false}
-                tickLine={false}
-                tick={{
-                  fill: CHART_COLORS.PRIMARY,
-                  fontSize: 11,
-                  fontFamily: 'JetBrains Mono, monospace'
-                }}
-                tickFormatter={(value: number) => {
-                  const chartType = activeChart as ChartType;
-                  const formatter = chartType === 'tokensBought' ? formatVolume : formatCurrency;
-                  return formatter(value);
-                }}
-                width={80}
-                tickMargin={5}
-                domain={['dataMin * 0.95', 'dataMax * 1.05']}
-              />
-              
-              <Tooltip
-                content={<CustomTooltip />}
-                cursor={{ stroke: color, strokeWidth: 1, strokeOpacity: 0.5 }}
-              />
-              
-              <Area
-                type="monotone"
-                dataKey={activeChart}
-                stroke={color}
-                strokeWidth={2}
-                fill={`url(#${gradientId})`}
-                dot={false}
-                activeDot={{ r: 4, stroke: color, strokeWidth: 2 }}
-              />
-            </AreaChart>
-          )}
-        </ResponsiveContainer>
-      </div>
+      {!availableTimeframes.includes(timeframe) ? (
+        <div style={{ height }} className="w-full flex items-center justify-center">
+          <p className="text-gray-400 text-sm font-mono">
+            {isIntraday
+              ? `No intraday market history stored for ${timeframe}; pick a longer window`
+              : `Not enough stored history for ${timeframe}`}
+          </p>
+        </div>
+      ) : (
+        <div style={{ height }} className="w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            {showVolume && activeChart === 'buybacks' ? (
+              <ComposedChart 
+                data={chartData} 
+                margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+              >
+                <defs>
+                  <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor={color} stopOpacity={0.3} />
+                    <stop offset="95%" stopColor={color} stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                
+                <CartesianGrid
+                  strokeDasharray="1 3"
+                  stroke={chartColors.GRID}
+                  strokeWidth={0.5}
+                  horizontal={true}
+                  vertical={false}
+                />
+                
+                <XAxis
+                  dataKey="timestamp"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{
+                    fill: chartColors.TEXT_SECONDARY,
+                    fontSize: 11,
+                    fontFamily: 'JetBrains Mono, monospace'
+                  }}
+                  tickFormatter={formatTick}
+                  height={40}
+                  tickMargin={10}
+                  interval="preserveStartEnd"
+                />
+                
+                <YAxis
+                  yAxisId="primary"
+                  orientation="right"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{
+                    fill: chartColors.PRIMARY,
+                    fontSize: 11,
+                    fontFamily: 'JetBrains Mono, monospace'
+                  }}
+                  tickFormatter={formatCurrency}
+                  width={80}
+                  tickMargin={5}
+                  domain={['dataMin * 0.95', 'dataMax * 1.05']}
+                />
+                
+                <YAxis
+                  yAxisId="secondary"
+                  orientation="left"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{
+                    fill: chartColors.TEXT_SECONDARY,
+                    fontSize: 10,
+                    fontFamily: 'JetBrains Mono, monospace'
+                  }}
+                  tickFormatter={formatVolume}
+                  width={60}
+                  tickMargin={5}
+                  domain={[0, 'dataMax * 1.1']}
+                />
+
+                {(hasPrice || hasCostBasis) && (
+                  <YAxis yAxisId="price" hide domain={['dataMin * 0.9', 'dataMax * 1.1']} />
+                )}
+                
+                <Tooltip
+                  content={<CustomTooltip formatLabel={formatTick} />}
+                  cursor={{ stroke: color, strokeWidth: 1, strokeOpacity: 0.5 }}
+                />
+                
+                <Bar
+                  yAxisId="secondary"
+                  dataKey="revenue"
+                  fill="#16a34a"
+                  opacity={0.4}
+                  radius={[2, 2, 0, 0]}
+                />
+                
+                <Area
+                  yAxisId="primary"
+                  type="monotone"
+                  dataKey={activeChart}
+                  stroke={color}
+                  strokeWidth={2}
+                  fill={`url(#${gradientId})`}
+                  dot={false}
+                  activeDot={{ r: 4, stroke: color, strokeWidth: 2 }}
+                />
+
+                {hasPrice && (
+                  <Line
+                    yAxisId="price"
+                    type="monotone"
+                    dataKey="price"
+                    name="Token Price"
+                    stroke={chartColors.TEXT_SECONDARY}
+                    strokeWidth={1}
+                    strokeDasharray="4 4"
+                    dot={false}
+                    connectNulls
+                  />
+                )}
+
+                {/* Shares the price axis so the gap to the price line reads as unrealised PnL per token */}
+                {hasCostBasis && (
+                  <Line
+                    yAxisId="price"
+                    type="stepAfter"
+                    dataKey="costBasis"
+                    name="Avg Cost Basis"
+                    stroke="#f59e0b"
+                    strokeWidth={1}
+                    strokeDasharray="2 2"
+                    dot={false}
+                    connectNulls
+                  />
+                )}
+              </ComposedChart>
+            ) : (
+              <AreaChart 
+                data={chartData} 
+                margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+              >
+                <defs>
+                  <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor={color} stopOpacity={0.3} />
+                    <stop offset="95%" stopColor={color} stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                
+                <CartesianGrid
+                  strokeDasharray="1 3"
+                  stroke={chartColors.GRID}
+                  strokeWidth={0.5}
+                  horizontal={true}
+                  vertical={false}
+                />
+                
+                <XAxis
+                  dataKey="timestamp"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{
+                    fill: chartColors.TEXT_SECONDARY,
+                    fontSize: 11,
+                    fontFamily: 'JetBrains Mono, monospace'
+                  }}
+                  tickFormatter={formatTick}
+                  height={40}
+                  tickMargin={10}
+                  interval="preserveStartEnd"
+                />
+                
+                <YAxis
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{
+                    fill: chartColors.PRIMARY,
+                    fontSize: 11,
+                    fontFamily: 'JetBrains Mono, monospace'
+                  }}
+                  tickFormatter={(value: number) => {
+                    const chartType = activeChart as ChartType;
+                    const formatter = chartType === 'tokensBought' ? formatVolume : formatCurrency;
+                    return formatter(value);
+                  }}
+                  width={80}
+                  tickMargin={5}
+                  domain={['dataMin * 0.95', 'dataMax * 1.05']}
+                />
+                
+                <Tooltip
+                  content={<CustomTooltip formatLabel={formatTick} />}
+                  cursor={{ stroke: color, strokeWidth: 1, strokeOpacity: 0.5 }}
+                />
+                
+                <Area
+                  type="monotone"
+                  dataKey={activeChart}
+                  stroke={color}
+                  strokeWidth={2}
+                  fill={`url(#${gradientId})`}
+                  dot={false}
+                  activeDot={{ r: 4, stroke: color, strokeWidth: 2 }}
+                />
+              </AreaChart>
+            )}
+          </ResponsiveContainer>
+        </div>
+      )}
     </motion.div>
   );
 });
@@ -11,25 +11,22 @@ import {
   Pie,
   Cell
 } from 'recharts';
-
-interface PerformanceData {
-  protocol: string;
-  data_points: number;
-  avg_value_usd: number;
-  max_value_usd: number;
-  min_value_usd: number;
-  avg_supply_reduction: number;
-}
+import { PROTOCOL_COLORS, THEME_COLORS } from '../../constants';
+import { useChartColors } from '../../hooks/useChartColors';
+import type { ProtocolPerformance } from '../../types';
 
 interface PerformanceMetricsProps {
-  data: PerformanceData[];
+  data: ProtocolPerformance[];
 }
 
 export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({ data }) => {
-  const protocolColors = {
-    'Hyperliquid': '#00D4AA',
-    'Jupiter': '#FFA500',
-    'Aave': '#B6509E'
+  const protocolColors: Record<string, string> = PROTOCOL_COLORS;
+  const chartColors = useChartColors();
+  const tooltipStyle = {
+    backgroundColor: THEME_COLORS.SURFACE,
+    border: `1px solid ${THEME_COLORS.BORDER_STRONG}`,
+    borderRadius: '8px',
+    color: THEME_COLORS.TEXT_PRIMARY,
   };
 
   const formatCurrency = (value: number) => {
@@ -51,7 +48,7 @@ export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({ data })
   const pieData = data.map(item => ({
     name: item.protocol,
     value: item.avg_value_usd,
-    color: protocolColors[item.protocol as keyof typeof protocolColors] || '#3b82f6'
+    color: protocolColors[item.protocol] || '#3b82f6'
   }));
 
   const totalValue = pieData.reduce((sum, item) => sum + item.value, 0);
@@ -59,18 +56,18 @@ export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({ data })
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
       {/* Performance Comparison Bar Chart */}
-      <div className="bg-white rounded-xl shadow-lg p-6">
-        <h3 className="text-lg font-semibold text-gray-800 mb-4">Performance Comparison</h3>
+      <div className="dark-card">
+        <h3 className="text-lg font-semibold text-white mb-4">Performance Comparison</h3>
         <ResponsiveContainer width="100%" height={300}>
           <BarChart data={barData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
-            <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+            <CartesianGrid strokeDasharray="3 3" stroke={chartColors.GRID} />
             <XAxis 
               dataKey="protocol" 
-              stroke="#6b7280"
+              stroke={chartColors.TEXT_SECONDARY}
               fontSize={12}
             />
             <YAxis 
-              stroke="#6b7280"
+              stroke={chartColors.TEXT_SECONDARY}
               fontSize={12}
               tickFormatter={formatCurrency}
             />
@@ -79,12 +76,7 @@ export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({ data })
                 name.includes('%') ? `${value.toFixed(2)}%` : formatCurrency(value),
                 name
               ]}
-              contentStyle={{ 
-                backgroundColor: 'white', 
-                border: '1px solid #e5e7eb',
-                borderRadius: '8px',
-                boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-              }}
+              contentStyle={tooltipStyle}
             />
             <Bar 
               dataKey="Avg Buyback Value" 
@@ -101,8 +93,8 @@ export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({ data })
       </div>
 
       {/* Market Share Pie Chart */}
-      <div className="bg-white rounded-xl shadow-lg p-6">
-        <h3 className="text-lg font-semibold text-gray-800 mb-4">Buyback Value Distribution</h3>
+      <div className="dark-card">
+        <h3 className="text-lg font-semibold text-white mb-4">Buyback Value Distribution</h3>
         <ResponsiveContainer width="100%" height={300}>
           <PieChart>
             <Pie
@@ -121,12 +113,7 @@ export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({ data })
             </Pie>
             <Tooltip 
               formatter={(value: any) => [formatCurrency(value), 'Avg Buyback Value']}
-              contentStyle={{ 
-                backgroundColor: 'white', 
-                border: '1px solid #e5e7eb',
-                borderRadius: '8px',
-                boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-              }}
+              contentStyle={tooltipStyle}
             />
           </PieChart>
         </ResponsiveContainer>
@@ -138,33 +125,33 @@ export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({ data })
           {data.map((protocol) => (
             <div 
               key={protocol.protocol}
-              className="bg-white rounded-xl shadow-lg p-6 border-l-4"
+              className="dark-card border-l-4"
               style={{ 
-                borderLeftColor: protocolColors[protocol.protocol as keyof typeof protocolColors] || '#3b82f6' 
+                borderLeftColor: protocolColors[protocol.protocol] || '#3b82f6' 
               }}
             >
-              <h4 className="text-lg font-semibold text-gray-800 mb-3">{protocol.protocol}</h4>
+              <h4 className="text-lg font-semibold text-white mb-3">{protocol.protocol}</h4>
               <div className="space-y-2">
                 <div className="flex justify-between">
-                  <span className="text-sm text-gray-600">Data Points:</span>
-                  <span className="font-medium">{protocol.data_points}</span>
+                  <span className="text-sm text-gray-400">Data Points:</span>
+                  <span className="font-medium text-white">{protocol.data_points}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-sm text-gray-600">Avg Value:</span>
-                  <span className="font-medium">{formatCurrency(protocol.avg_value_usd)}</span>
+                  <span className="text-sm text-gray-400">Avg Value:</span>
+                  <span className="font-medium text-white">{formatCurrency(protocol.avg_value_usd)}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-sm text-gray-600">Max Value:</span>
-                  <span className="font-medium">{formatCurrency(protocol.max_value_usd)}</span>
+                  <span className="text-sm text-gray-400">Max Value:</span>
+                  <span className="font-medium text-white">{formatCurrency(protocol.max_value_usd)}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-sm text-gray-600">Supply Reduction:</span>
-                  <span className="font-medium">{protocol.avg_supply_reduction.toFixed(2)}%</span>
+                  <span className="text-sm text-gray-400">Supply Reduction:</span>
+                  <span className="font-medium text-white">{protocol.avg_supply_reduction.toFixed(2)}%</span>
                 </div>
-                <div className="pt-2 border-t">
+                <div className="pt-2 border-t border-line">
                   <div className="flex justify-between">
-                    <span className="text-sm text-gray-600">Market Share:</span>
-                    <span className="font-medium">
+                    <span className="text-sm text-gray-400">Market Share:</span>
+                    <span className="font-medium text-white">
                       {((protocol.avg_value_usd / totalValue) * 100).toFixed(1)}%
                     </span>
                   </div>
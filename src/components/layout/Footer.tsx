@@ -88,7 +88,7 @@ const Attribution = memo(() => (
         href="https://exagroup.xyz" 
         target="_blank" 
         rel="noopener noreferrer"
-        className="text-[#00ff87] hover:text-[#00ff87]/80 transition-colors duration-200"
+        className="text-accent hover:text-accent/80 transition-colors duration-200"
       >
         exagroup.xyz
       </a>
@@ -119,7 +119,7 @@ export const Footer = memo<FooterProps>(({
   return (
     <footer 
       className={`mt-auto ${className}`}
-      style={{ background: THEME_COLORS.BLACK }}
+      style={{ background: THEME_COLORS.BACKGROUND }}
     >
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         {/* Legal Disclaimer */}
@@ -3,9 +3,10 @@
  * Clean, performant header with proper branding and status indicators
  */
 
-import React, { memo } from 'react';
+import React, { memo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { BRANDING, THEME_COLORS, ANIMATION_DELAYS, ANIMATION_DURATIONS } from '../../constants';
+import { SettingsPanel } from '../SettingsPanel';
 
 interface HeaderProps {
   isOnline?: boolean;
@@ -16,10 +17,10 @@ interface HeaderProps {
  * Live status indicator component
  */
 const LiveStatusIndicator = memo(({ isOnline = true }: { isOnline?: boolean }) => (
-  <div className="flex items-center gap-2 px-4 py-2 bg-[#0a0a0a] rounded-lg">
+  <div className="flex items-center gap-2 px-4 py-2 bg-surface rounded-lg">
     <div 
       className={`w-2 h-2 rounded-full ${isOnline ? 'animate-pulse' : ''}`}
-      style={{ background: isOnline ? THEME_COLORS.PRIMARY_GREEN : THEME_COLORS.ERROR_RED }}
+      style={{ background: isOnline ? THEME_COLORS.ACCENT : THEME_COLORS.ERROR }}
     />
     <span className="text-sm text-gray-300 font-mono">
       {isOnline ? 'Live Data' : 'Offline'}
@@ -39,7 +40,7 @@ const BrandLogo = memo(() => (
       <div 
         className="w-12 h-12 rounded-xl flex items-center justify-center shadow-lg relative overflow-hidden" 
         style={{ 
-          background: `linear-gradient(135deg, ${THEME_COLORS.PRIMARY_GREEN}, ${THEME_COLORS.SECONDARY_GREEN})` 
+          background: `linear-gradient(135deg, ${THEME_COLORS.ACCENT}, ${THEME_COLORS.ACCENT_HOVER})` 
         }}
       >
         {/* Treasury/Vault icon */}
@@ -48,19 +49,19 @@ const BrandLogo = memo(() => (
           height="28" 
           viewBox="0 0 24 24" 
           fill="none" 
-          className="text-black"
+          className="text-accent-contrast"
         >
           {/* Building/Treasury structure */}
           <rect x="2" y="8" width="20" height="12" rx="1" fill="currentColor" opacity="0.9"/>
-          <rect x="4" y="10" width="2" height="6" fill={THEME_COLORS.BLACK} opacity="0.8"/>
-          <rect x="7" y="10" width="2" height="6" fill={THEME_COLORS.BLACK} opacity="0.8"/>
-          <rect x="10" y="10" width="2" height="6" fill={THEME_COLORS.BLACK} opacity="0.8"/>
-          <rect x="13" y="10" width="2" height="6" fill={THEME_COLORS.BLACK} opacity="0.8"/>
-          <rect x="16" y="10" width="2" height="6" fill={THEME_COLORS.BLACK} opacity="0.8"/>
+          <rect x="4" y="10" width="2" height="6" style={{ fill: THEME_COLORS.ON_ACCENT }} opacity="0.8"/>
+          <rect x="7" y="10" width="2" height="6" style={{ fill: THEME_COLORS.ON_ACCENT }} opacity="0.8"/>
+          <rect x="10" y="10" width="2" height="6" style={{ fill: THEME_COLORS.ON_ACCENT }} opacity="0.8"/>
+          <rect x="13" y="10" width="2" height="6" style={{ fill: THEME_COLORS.ON_ACCENT }} opacity="0.8"/>
+          <rect x="16" y="10" width="2" height="6" style={{ fill: THEME_COLORS.ON_ACCENT }} opacity="0.8"/>
           {/* Roof/Top */}
           <path d="M1 8L12 2L23 8H1Z" fill="currentColor"/>
           {/* Central vault door */}
-          <circle cx="12" cy="14" r="2" fill={THEME_COLORS.BLACK} opacity="0.9"/>
+          <circle cx="12" cy="14" r="2" style={{ fill: THEME_COLORS.ON_ACCENT }} opacity="0.9"/>
           <circle cx="12" cy="14" r="1" fill="currentColor" opacity="0.3"/>
         </svg>
         
@@ -68,7 +69,7 @@ const BrandLogo = memo(() => (
         <div 
           className="absolute inset-0 rounded-xl opacity-20 animate-pulse"
           style={{ 
-            background: `radial-gradient(circle at center, ${THEME_COLORS.PRIMARY_GREEN}, transparent)` 
+            background: `radial-gradient(circle at center, ${THEME_COLORS.ACCENT}, transparent)` 
           }} 
         />
       </div>
@@ -76,7 +77,7 @@ const BrandLogo = memo(() => (
       {/* Small indicator dot */}
       <div 
         className="absolute -top-1 -right-1 w-3 h-3 rounded-full animate-pulse"
-        style={{ background: THEME_COLORS.PRIMARY_GREEN }}
+        style={{ background: THEME_COLORS.ACCENT }}
       />
     </div>
     
@@ -89,54 +90,80 @@ const BrandLogo = memo(() => (
 
 BrandLogo.displayName = 'BrandLogo';
 
+/**
+ * Settings button opening the preferences panel
+ */
+const SettingsButton = memo(({ onClick }: { onClick: () => void }) => (
+  <button
+    onClick={onClick}
+    className="p-2 bg-surface rounded-lg text-gray-400 hover:text-white transition-colors"
+    title="Settings"
+    aria-label="Open settings"
+  >
+    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <circle cx="12" cy="12" r="3" />
+      <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09a1.65 1.65 0 0 0-1-1.51 1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09a1.65 1.65 0 0 0 1.51-1 1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06a1.65 1.65 0 0 0 1.82.33h0a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51h0a1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82v0a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z" />
+    </svg>
+  </button>
+));
+
+SettingsButton.displayName = 'SettingsButton';
+
 /**
  * Main Header Component
  */
 export const Header = memo<HeaderProps>(({ isOnline = true, className = '' }) => {
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
   return (
-    <motion.header
-      className={`sticky top-0 z-50 ${className}`}
-      style={{ 
-        background: THEME_COLORS.DARK_BLACK, 
-        borderBottom: `1px solid ${THEME_COLORS.LIGHT_BLACK}` 
-      }}
-      initial={{ opacity: 0, y: -20 }}
-      animate={{ opacity: 1, y: 0 }}
-      transition={{ 
-        duration: ANIMATION_DURATIONS.NORMAL,
-        delay: ANIMATION_DELAYS.NONE 
-      }}
-    >
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <div className="flex items-center justify-between h-16 w-full">
-          {/* Left: Brand Logo */}
-          <motion.div
-            className="flex-shrink-0"
-            initial={{ opacity: 0, x: -20 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ 
-              duration: ANIMATION_DURATIONS.NORMAL,
-              delay: ANIMATION_DELAYS.SHORT 
-            }}
-          >
-            <BrandLogo />
-          </motion.div>
+    <>
+      <motion.header
+        className={`sticky top-0 z-50 ${className}`}
+        style={{ 
+          background: THEME_COLORS.SURFACE, 
+          borderBottom: `1px solid ${THEME_COLORS.BORDER}` 
+        }}
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ 
+          duration: ANIMATION_DURATIONS.NORMAL,
+          delay: ANIMATION_DELAYS.NONE 
+        }}
+      >
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16 w-full">
+            {/* Left: Brand Logo */}
+            <motion.div
+              className="flex-shrink-0"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ 
+                duration: ANIMATION_DURATIONS.NORMAL,
+                delay: ANIMATION_DELAYS.SHORT 
+              }}
+            >
+              <BrandLogo />
+            </motion.div>
 
-          {/* Right: Status */}
-          <motion.div
-            className="flex items-center gap-4 flex-shrink-0"
-            initial={{ opacity: 0, x: 20 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ 
-              duration: ANIMATION_DURATIONS.NORMAL,
-              delay: ANIMATION_DELAYS.MEDIUM 
-            }}
-          >
-            <LiveStatusIndicator isOnline={isOnline} />
-          </motion.div>
+            {/* Right: Status and Settings */}
+            <motion.div
+              className="flex items-center gap-4 flex-shrink-0"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ 
+                duration: ANIMATION_DURATIONS.NORMAL,
+                delay: ANIMATION_DELAYS.MEDIUM 
+              }}
+            >
+              <LiveStatusIndicator isOnline={isOnline} />
+              <SettingsButton onClick={() => setIsSettingsOpen(true)} />
+            </motion.div>
+          </div>
         </div>
-      </div>
-    </motion.header>
+      </motion.header>
+
+      <SettingsPanel isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+    </>
   );
 });
 
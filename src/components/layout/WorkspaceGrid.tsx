@@ -0,0 +1,342 @@
+/**
+ * Workspace Grid Component
+ * Drag-and-drop, resizable widget board with named workspaces stored in user preferences
+ */
+
+import React, { useState, useCallback, useMemo, memo } from 'react';
+import { Responsive, WidthProvider } from 'react-grid-layout';
+import type { Layout, Layouts } from 'react-grid-layout';
+import 'react-grid-layout/css/styles.css';
+import 'react-resizable/css/styles.css';
+import {
+  DASHBOARD_WIDGETS,
+  DASHBOARD_WIDGET_TITLES,
+  DASHBOARD_VIEW_MODES,
+  DASHBOARD_VIEW_MODE_LABELS,
+  LAYOUT_BREAKPOINTS,
+  GRID_CONFIG,
+  THEME_COLORS
+} from '../../constants';
+import { useUserPreferences } from '../../context/UserPreferencesContext';
+import { withAlpha } from '../../utils/theme';
+import {
+  createWorkspace,
+  buildDefaultLayouts,
+  getDefaultWidgetLayout,
+  getViewModeWidgets
+} from '../../utils/workspaces';
+import type { WorkspaceState } from '../../utils/workspaces';
+import type {
+  DashboardViewMode,
+  DashboardWidgetId,
+  DashboardWorkspace,
+  LayoutBreakpoint,
+  WorkspaceLayouts
+} from '../../types';
+
+const ResponsiveGridLayout = WidthProvider(Responsive);
+
+const isBreakpoint = (value: string): value is LayoutBreakpoint => {
+  return (LAYOUT_BREAKPOINTS as readonly string[]).includes(value);
+};
+
+const toWorkspaceLayouts = (layouts: Layouts, widgets: DashboardWidgetId[]): WorkspaceLayouts => {
+  return Object.keys(layouts).filter(isBreakpoint).reduce((result, breakpoint) => {
+    result[breakpoint] = layouts[breakpoint]
+      .filter(item => widgets.includes(item.i as DashboardWidgetId))
+      .map(({ i, x, y, w, h, minW, minH }) => ({ i: i as DashboardWidgetId, x, y, w, h, minW, minH }));
+    return result;
+  }, {} as WorkspaceLayouts);
+};
+
+/**
+ * Widget frame with drag handle and remove control
+ */
+interface WidgetFrameProps {
+  widget: DashboardWidgetId;
+  isEditing: boolean;
+  onRemove: (widget: DashboardWidgetId) => void;
+  children: React.ReactNode;
+}
+
+const WidgetFrame = memo<WidgetFrameProps>(({ widget, isEditing, onRemove, children }) => (
+  <div
+    className="h-full flex flex-col rounded-xl overflow-hidden"
+    style={{
+      outline: isEditing ? `1px dashed ${withAlpha(THEME_COLORS.ACCENT, 0.4)}` : 'none',
+    }}
+  >
+    {isEditing && (
+      <div
+        className={`${GRID_CONFIG.DRAG_HANDLE_CLASS} flex items-center justify-between px-3 py-1.5 cursor-move text-xs font-mono text-gray-300`}
+        style={{ background: THEME_COLORS.SURFACE_STRONG }}
+      >
+        <span>⠿ {DASHBOARD_WIDGET_TITLES[widget]}</span>
+        <button
+          onClick={() => onRemove(widget)}
+          onMouseDown={(e) => e.stopPropagation()}
+          className="text-gray-400 hover:text-red-400 transition-colors"
+          title={`Remove ${DASHBOARD_WIDGET_TITLES[widget]}`}
+        >
+          ✕
+        </button>
+      </div>
+    )}
+    <div className="flex-1 min-h-0 overflow-auto">{children}</div>
+  </div>
+));
+
+WidgetFrame.displayName = 'WidgetFrame';
+
+/**
+ * Workspace toolbar: view modes, switch, create, delete, reset and edit
+ */
+interface WorkspaceToolbarProps {
+  state: WorkspaceState;
+  activeViewMode?: DashboardViewMode;
+  hiddenWidgets: DashboardWidgetId[];
+  isEditing: boolean;
+  onOpenViewMode: (viewMode: DashboardViewMode) => void;
+  onSelect: (name: string) => void;
+  onCreate: () => void;
+  onDelete: () => void;
+  onReset: () => void;
+  onAddWidget: (widget: DashboardWidgetId) => void;
+  onToggleEditing: () => void;
+}
+
+const toolbarButtonClass = 'px-3 py-1.5 text-xs font-mono rounded-lg border border-gray-700 text-gray-300 hover:text-white hover:border-gray-500 transition-colors';
+
+const WorkspaceToolbar = memo<WorkspaceToolbarProps>(({
+  state,
+  activeViewMode,
+  hiddenWidgets,
+  isEditing,
+  onOpenViewMode,
+  onSelect,
+  onCreate,
+  onDelete,
+  onReset,
+  onAddWidget,
+  onToggleEditing
+}) => (
+  <div className="flex flex-wrap items-center gap-2 mb-4">
+    <div className="flex gap-1 p-1 rounded-lg border border-gray-800" role="group" aria-label="View mode">
+      {DASHBOARD_VIEW_MODES.map(viewMode => (
+        <button
+          key={viewMode}
+          onClick={() => onOpenViewMode(viewMode)}
+          aria-pressed={activeViewMode === viewMode}
+          className={`px-3 py-1 text-xs font-mono rounded-md transition-colors ${
+            activeViewMode === viewMode ? 'text-accent-contrast' : 'text-gray-400 hover:text-white'
+          }`}
+          style={activeViewMode === viewMode ? { background: THEME_COLORS.ACCENT } : {}}
+        >
+          {DASHBOARD_VIEW_MODE_LABELS[viewMode]}
+        </button>
+      ))}
+    </div>
+
+    <label className="text-sm text-gray-400 font-mono">Workspace:</label>
+    <select
+      value={state.activeWorkspace}
+      onChange={(e) => onSelect(e.target.value)}
+      className="px-3 py-1.5 text-xs text-white border border-gray-700 rounded-lg font-mono focus:outline-none"
+      style={{ backgroundColor: THEME_COLORS.SURFACE_RAISED }}
+    >
+      {state.workspaces.map(workspace => (
+        <option key={workspace.name} value={workspace.name}>{workspace.name}</option>
+      ))}
+    </select>
+    <button onClick={onCreate} className={toolbarButtonClass}>New</button>
+    <button
+      onClick={onDelete}
+      disabled={state.workspaces.length <= 1}
+      className={`${toolbarButtonClass} disabled:opacity-40 disabled:cursor-not-allowed`}
+    >
+      Delete
+    </button>
+    <button onClick={onReset} className={toolbarButtonClass}>Reset to default</button>
+
+    {isEditing && hiddenWidgets.length > 0 && (
+      <select
+        value=""
+        onChange={(e) => onAddWidget(e.target.value as DashboardWidgetId)}
+        className="px-3 py-1.5 text-xs text-white border border-gray-700 rounded-lg font-mono focus:outline-none"
+        style={{ backgroundColor: THEME_COLORS.SURFACE_RAISED }}
+      >
+        <option value="" disabled>+ Add widget</option>
+        {hiddenWidgets.map(widget => (
+          <option key={widget} value={widget}>{DASHBOARD_WIDGET_TITLES[widget]}</option>
+        ))}
+      </select>
+    )}
+
+    <button
+      onClick={onToggleEditing}
+      className="ml-auto px-3 py-1.5 text-xs font-mono rounded-lg transition-colors"
+      style={isEditing
+        ? { background: THEME_COLORS.ACCENT, color: THEME_COLORS.ON_ACCENT }
+        : { border: `1px solid ${THEME_COLORS.ACCENT}`, color: THEME_COLORS.ACCENT }}
+    >
+      {isEditing ? 'Done' : 'Customize'}
+    </button>
+  </div>
+));
+
+WorkspaceToolbar.displayName = 'WorkspaceToolbar';
+
+/**
+ * Main Workspace Grid Component
+ */
+interface WorkspaceGridProps {
+  widgets: Record<DashboardWidgetId, React.ReactNode>;
+}
+
+export const WorkspaceGrid = memo<WorkspaceGridProps>(({ widgets }) => {
+  const { preferences, updatePreferences } = useUserPreferences();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const { workspaces, activeWorkspace } = preferences;
+  const state = useMemo((): WorkspaceState => ({ workspaces, activeWorkspace }), [workspaces, activeWorkspace]);
+  const setState = useCallback((update: (prev: WorkspaceState) => WorkspaceState) => {
+    updatePreferences(current => update(current));
+  }, [updatePreferences]);
+
+  const workspace = useMemo(
+    () => state.workspaces.find(item => item.name === state.activeWorkspace) || state.workspaces[0],
+    [state]
+  );
+  const hiddenWidgets = useMemo(
+    () => DASHBOARD_WIDGETS.filter(widget => !workspace.widgets.includes(widget)),
+    [workspace]
+  );
+
+  const updateWorkspace = useCallback((update: (current: DashboardWorkspace) => DashboardWorkspace) => {
+    setState(prev => ({
+      ...prev,
+      workspaces: prev.workspaces.map(item => item.name === prev.activeWorkspace ? update(item) : item),
+    }));
+  }, [setState]);
+
+  const handleLayoutChange = useCallback((_current: Layout[], allLayouts: Layouts) => {
+    updateWorkspace(current => ({ ...current, layouts: toWorkspaceLayouts(allLayouts, current.widgets) }));
+  }, [updateWorkspace]);
+
+  const handleRemoveWidget = useCallback((widget: DashboardWidgetId) => {
+    updateWorkspace(current => ({
+      ...current,
+      widgets: current.widgets.filter(item => item !== widget),
+      layouts: LAYOUT_BREAKPOINTS.reduce((layouts, bp) => {
+        layouts[bp] = (current.layouts[bp] || []).filter(item => item.i !== widget);
+        return layouts;
+      }, {} as WorkspaceLayouts),
+    }));
+  }, [updateWorkspace]);
+
+  const handleAddWidget = useCallback((widget: DashboardWidgetId) => {
+    updateWorkspace(current => ({
+      ...current,
+      widgets: [...current.widgets, widget],
+      layouts: LAYOUT_BREAKPOINTS.reduce((layouts, bp) => {
+        const existing = current.layouts[bp] || [];
+        layouts[bp] = [...existing, getDefaultWidgetLayout(widget, bp, existing)];
+        return layouts;
+      }, {} as WorkspaceLayouts),
+    }));
+  }, [updateWorkspace]);
+
+  // Each view mode has its own workspace, created from the preset the first time it is opened
+  const handleOpenViewMode = useCallback((viewMode: DashboardViewMode) => {
+    setState(prev => {
+      const existing = prev.workspaces.find(item => item.viewMode === viewMode);
+      if (existing) return { ...prev, activeWorkspace: existing.name };
+
+      const label = DASHBOARD_VIEW_MODE_LABELS[viewMode];
+      const name = prev.workspaces.some(item => item.name === label) ? `${label} view` : label;
+      return { workspaces: [...prev.workspaces, createWorkspace(name, viewMode)], activeWorkspace: name };
+    });
+  }, [setState]);
+
+  const handleSelect = useCallback((name: string) => {
+    setState(prev => ({ ...prev, activeWorkspace: name }));
+  }, [setState]);
+
+  const handleCreate = useCallback(() => {
+    const name = window.prompt('Name the new workspace')?.trim();
+    if (!name) return;
+    setState(prev => {
+      if (prev.workspaces.some(item => item.name === name)) {
+        return { ...prev, activeWorkspace: name };
+      }
+      return { workspaces: [...prev.workspaces, createWorkspace(name)], activeWorkspace: name };
+    });
+    setIsEditing(true);
+  }, [setState]);
+
+  const handleDelete = useCallback(() => {
+    setState(prev => {
+      if (prev.workspaces.length <= 1) return prev;
+      const workspaces = prev.workspaces.filter(item => item.name !== prev.activeWorkspace);
+      return { workspaces, activeWorkspace: workspaces[0].name };
+    });
+  }, [setState]);
+
+  const handleReset = useCallback(() => {
+    updateWorkspace(current => ({
+      ...current,
+      widgets: getViewModeWidgets(current.viewMode),
+      layouts: buildDefaultLayouts(current.viewMode),
+    }));
+  }, [updateWorkspace]);
+
+  return (
+    <div>
+      <WorkspaceToolbar
+        state={state}
+        activeViewMode={workspace.viewMode}
+        hiddenWidgets={hiddenWidgets}
+        isEditing={isEditing}
+        onOpenViewMode={handleOpenViewMode}
+        onSelect={handleSelect}
+        onCreate={handleCreate}
+        onDelete={handleDelete}
+        onReset={handleReset}
+        onAddWidget={handleAddWidget}
+        onToggleEditing={() => setIsEditing(editing => !editing)}
+      />
+
+      <ResponsiveGridLayout
+        key={workspace.name}
+        layouts={workspace.layouts as Layouts}
+        breakpoints={GRID_CONFIG.BREAKPOINTS}
+        cols={GRID_CONFIG.COLUMNS}
+        rowHeight={GRID_CONFIG.ROW_HEIGHT}
+        margin={GRID_CONFIG.MARGIN}
+        containerPadding={[0, 0]}
+        isDraggable={isEditing}
+        isResizable={isEditing}
+        draggableHandle={`.${GRID_CONFIG.DRAG_HANDLE_CLASS}`}
+        onLayoutChange={handleLayoutChange}
+      >
+        {workspace.widgets.map(widget => (
+          <div key={widget}>
+            <WidgetFrame widget={widget} isEditing={isEditing} onRemove={handleRemoveWidget}>
+              {widgets[widget]}
+            </WidgetFrame>
+          </div>
+        ))}
+      </ResponsiveGridLayout>
+
+      {workspace.widgets.length === 0 && (
+        <p className="text-center text-gray-400 text-sm font-mono py-12">
+          This workspace is empty. Choose Customize to add widgets, or reset it to the default layout.
+        </p>
+      )}
+    </div>
+  );
+});
+
+WorkspaceGrid.displayName = 'WorkspaceGrid';
+
+export default WorkspaceGrid;
@@ -0,0 +1,84 @@
+/**
+ * Change Metrics Section
+ * 24h, 7d, 30d and YTD changes in one protocol's buyback value, tokens bought and price, from stored history
+ */
+
+import React, { useMemo, memo } from 'react';
+import {
+  CHANGE_HISTORY_DAYS,
+  CHANGE_METRICS,
+  CHANGE_METRIC_LABELS,
+  CHANGE_PERIODS,
+  CHANGE_PERIOD_LABELS,
+  PROTOCOL_BY_TOKEN
+} from '../../constants';
+import { calculateProtocolChanges } from '../../utils/changeMetrics';
+import { formatChange } from '../../utils/formatters';
+import { useBuybackTrends, usePriceHistory } from '../../hooks/useBuybackQueries';
+import type { ProtocolToken } from '../../types';
+
+const getChangeClass = (change: number | null): string => {
+  if (change === null) return 'text-gray-500';
+  if (change > 0) return 'text-green-400';
+  if (change < 0) return 'text-red-400';
+  return 'text-gray-300';
+};
+
+interface ChangeMetricsProps {
+  token: ProtocolToken | undefined;
+}
+
+export const ChangeMetrics = memo<ChangeMetricsProps>(({ token }) => {
+  const trendsQuery = useBuybackTrends(token, CHANGE_HISTORY_DAYS);
+  const priceQuery = usePriceHistory(token, CHANGE_HISTORY_DAYS);
+
+  const changes = useMemo(
+    () => calculateProtocolChanges(trendsQuery.data || [], priceQuery.data || []),
+    [trendsQuery.data, priceQuery.data]
+  );
+
+  return (
+    <div className="dark-card h-full">
+      <h3 className="text-lg font-semibold text-white font-mono mb-1">
+        {token ? `${PROTOCOL_BY_TOKEN[token].name} Change` : 'Change'}
+      </h3>
+      <p className="text-xs text-gray-500 mb-4">
+        Measured against the last stored point before each period; n/a means history does not reach back that far
+      </p>
+
+      {!token ? (
+        <p className="text-gray-400 text-sm font-mono">Select a protocol to see its changes.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm font-mono">
+            <thead>
+              <tr className="text-gray-400 text-xs">
+                <th className="text-left font-normal pb-2">Metric</th>
+                {CHANGE_PERIODS.map(period => (
+                  <th key={period} className="text-right font-normal pb-2">{CHANGE_PERIOD_LABELS[period]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {CHANGE_METRICS.map(metric => (
+                <tr key={metric} className="border-t border-line">
+                  <td className="py-2 text-gray-300">{CHANGE_METRIC_LABELS[metric]}</td>
+                  {CHANGE_PERIODS.map(period => {
+                    const change = changes[metric][period];
+                    return (
+                      <td key={period} className={`py-2 text-right ${getChangeClass(change)}`}>
+                        {trendsQuery.isLoading ? '…' : formatChange(change)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+});
+
+ChangeMetrics.displayName = 'ChangeMetrics';
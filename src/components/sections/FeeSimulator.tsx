@@ -0,0 +1,312 @@
+/**
+ * Fee Allocation Simulator Section
+ * What-if fee allocation, revenue growth and price path for one protocol against today's baseline,
+ * with named scenarios saved to preferences, compared side by side and exported as CSV or JSON
+ */
+
+import React, { useState, useEffect, useMemo, memo } from 'react';
+import { FEE_SIMULATOR_CONFIG, FEE_SIMULATOR_RANGES, PROTOCOL_BY_TOKEN, PROTOCOL_TOKENS } from '../../constants';
+import {
+  exportFeeScenariosCsv,
+  exportFeeScenariosJson,
+  getBaselineInputs,
+  simulateFeeScenario,
+  upsertFeeScenario
+} from '../../utils/feeSimulator';
+import type { FeeScenarioExportRow } from '../../utils/feeSimulator';
+import {
+  formatChange,
+  formatCurrency,
+  formatOptionalCurrency,
+  formatPercentage,
+  formatPrice,
+  formatTokenAmount
+} from '../../utils/formatters';
+import { calculatePercentageChange, downloadTextFile } from '../../utils/helpers';
+import { useUserPreferences } from '../../context/UserPreferencesContext';
+import { useBuybackData, useMarketData, useProtocolRevenue, useTokenPrices } from '../../hooks/useBuybackQueries';
+import type {
+  FeeScenario,
+  FeeScenarioInputs,
+  FeeSimulationBaseline,
+  FeeSimulationResult,
+  ProtocolToken
+} from '../../types';
+
+const DAYS_PER_YEAR = 365;
+
+const INPUT_CLASS = 'px-2 py-1 bg-surface-strong border border-gray-700 rounded text-sm text-white font-mono focus:ring-2 focus:ring-accent focus:border-accent';
+
+const SLIDERS: Array<{ key: keyof FeeScenarioInputs; label: string; range: { min: number; max: number; step: number } }> = [
+  { key: 'feeAllocationPercent', label: 'Fee allocation to buybacks', range: FEE_SIMULATOR_RANGES.FEE_ALLOCATION },
+  { key: 'revenueGrowthPercent', label: `Revenue growth over ${FEE_SIMULATOR_CONFIG.MONTHS}M`, range: FEE_SIMULATOR_RANGES.REVENUE_GROWTH },
+  { key: 'priceChangePercent', label: `Price change over ${FEE_SIMULATOR_CONFIG.MONTHS}M`, range: FEE_SIMULATOR_RANGES.PRICE_CHANGE },
+];
+
+const formatOptionalPercentage = (value: number | null, decimals?: number): string => {
+  return value === null ? 'n/a' : formatPercentage(value, decimals);
+};
+
+// Rows of the comparison table; `delta` results are compared against the baseline column
+const ROWS: Array<{
+  label: string;
+  input?: (inputs: FeeScenarioInputs) => string;
+  result?: (result: FeeSimulationResult) => string;
+  delta?: (result: FeeSimulationResult) => number | null;
+}> = [
+  { label: 'Fee allocation', input: inputs => formatPercentage(inputs.feeAllocationPercent, 0) },
+  { label: 'Revenue growth', input: inputs => formatPercentage(inputs.revenueGrowthPercent, 0, true) },
+  { label: 'Price change', input: inputs => formatPercentage(inputs.priceChangePercent, 0, true) },
+  { label: 'Annual buyback', result: result => formatCurrency(result.annualBuyback), delta: result => result.annualBuyback },
+  { label: 'Tokens bought', result: result => formatTokenAmount(result.tokensBought), delta: result => result.tokensBought },
+  { label: 'Average price', result: result => formatPrice(result.averagePrice) },
+  { label: 'Supply reduction', result: result => formatOptionalPercentage(result.supplyReduction), delta: result => result.supplyReduction },
+  { label: 'Buyback yield', result: result => formatOptionalPercentage(result.buybackYield), delta: result => result.buybackYield },
+];
+
+interface Column {
+  key: string;
+  label: string;
+  inputs: FeeScenarioInputs;
+  result: FeeSimulationResult;
+  saved?: FeeScenario;
+}
+
+interface FeeSimulatorProps {
+  token: ProtocolToken | undefined;
+}
+
+export const FeeSimulator = memo<FeeSimulatorProps>(({ token }) => {
+  const { preferences, updatePreferences } = useUserPreferences();
+  const [simToken, setSimToken] = useState<ProtocolToken | undefined>(token);
+  // null follows the baseline until the user moves a slider
+  const [inputs, setInputs] = useState<FeeScenarioInputs | null>(null);
+  const [scenarioName, setScenarioName] = useState('');
+
+  // Follow the dashboard's protocol; the select can still pick another one
+  useEffect(() => {
+    setSimToken(token);
+  }, [token]);
+
+  useEffect(() => {
+    setInputs(null);
+  }, [simToken]);
+
+  const name = simToken ? PROTOCOL_BY_TOKEN[simToken].name : '';
+  const buybackData = useBuybackData().data?.find(data => data.token === simToken);
+  const market = useMarketData().data?.find(item => item.token === simToken);
+  const revenue = useProtocolRevenue().data?.[name];
+  const prices = useTokenPrices().data;
+  const price = (simToken && prices?.[simToken]) || market?.price || null;
+
+  const baseline = useMemo((): FeeSimulationBaseline | null => {
+    if (!buybackData || !revenue || revenue.feeGeneration24h <= 0 || price === null || price <= 0) return null;
+    return {
+      annualRevenue: revenue.feeGeneration24h * DAYS_PER_YEAR,
+      feeAllocationPercent: buybackData.feeAllocationPercent,
+      price,
+      circulatingSupply: market?.circulatingSupply ?? null,
+    };
+  }, [buybackData, revenue, price, market]);
+
+  const saved = useMemo(
+    () => preferences.feeScenarios.filter(scenario => scenario.token === simToken),
+    [preferences.feeScenarios, simToken]
+  );
+
+  const columns = useMemo((): Column[] => {
+    if (!baseline) return [];
+    const baselineInputs = getBaselineInputs(baseline);
+    const current = inputs || baselineInputs;
+    return [
+      { key: 'baseline', label: 'Baseline', inputs: baselineInputs, result: simulateFeeScenario(baseline, baselineInputs) },
+      { key: 'current', label: 'Current', inputs: current, result: simulateFeeScenario(baseline, current) },
+      ...saved.map(scenario => ({
+        key: `saved-${scenario.name}`,
+        label: scenario.name,
+        inputs: scenario,
+        result: simulateFeeScenario(baseline, scenario),
+        saved: scenario,
+      })),
+    ];
+  }, [baseline, inputs, saved]);
+
+  const current = columns.length > 1 ? columns[1].inputs : null;
+
+  const saveScenario = () => {
+    const trimmed = scenarioName.trim();
+    if (!simToken || !current || !trimmed) return;
+    const scenario: FeeScenario = { ...current, name: trimmed, token: simToken, savedAt: new Date().toISOString() };
+    updatePreferences(prev => ({ feeScenarios: upsertFeeScenario(prev.feeScenarios, scenario) }));
+    setScenarioName('');
+  };
+
+  const deleteScenario = (scenario: FeeScenario) => {
+    updatePreferences(prev => ({
+      feeScenarios: prev.feeScenarios.filter(item => !(item.token === scenario.token && item.name === scenario.name)),
+    }));
+  };
+
+  const exportScenarios = (format: 'csv' | 'json') => {
+    if (!simToken) return;
+    const exportedAt = new Date().toISOString();
+    const rows: FeeScenarioExportRow[] = columns.map(column => ({
+      scenario: column.saved || { ...column.inputs, name: column.label, token: simToken, savedAt: exportedAt },
+      result: column.result,
+    }));
+    const filename = `${simToken.toLowerCase()}-fee-scenarios.${format}`;
+    if (format === 'csv') {
+      downloadTextFile(filename, exportFeeScenariosCsv(rows), 'text/csv');
+    } else {
+      downloadTextFile(filename, exportFeeScenariosJson(rows), 'application/json');
+    }
+  };
+
+  const baselineResult = columns.length > 0 ? columns[0].result : null;
+
+  return (
+    <div className="dark-card h-full">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white font-mono">Fee Allocation Simulator</h3>
+          <p className="text-xs text-gray-500 font-mono">
+            {baseline
+              ? `Baseline: ${formatCurrency(baseline.annualRevenue)}/yr fees (24h × 365), ${baseline.feeAllocationPercent}% to buybacks, ${formatPrice(baseline.price)}`
+              : `${FEE_SIMULATOR_CONFIG.MONTHS}-month projection from today's fees, allocation and price`}
+          </p>
+        </div>
+        <select
+          value={simToken || ''}
+          onChange={(e) => setSimToken(e.target.value ? e.target.value as ProtocolToken : undefined)}
+          className="px-2 py-1 text-xs text-white border border-gray-600 rounded font-mono focus:outline-none bg-surface-raised"
+          aria-label="Protocol"
+        >
+          <option value="">Select protocol</option>
+          {PROTOCOL_TOKENS.map(option => (
+            <option key={option} value={option}>{PROTOCOL_BY_TOKEN[option].name}</option>
+          ))}
+        </select>
+      </div>
+
+      {!simToken ? (
+        <p className="text-gray-400 text-sm font-mono">Select a protocol to simulate its fee allocation.</p>
+      ) : !baseline || !current || !baselineResult ? (
+        <p className="text-gray-400 text-sm font-mono">
+          {!buybackData || !revenue
+            ? `No current fee revenue reported for ${name}, so scenarios are n/a`
+            : price === null
+              ? `No current ${simToken} price to convert buybacks into tokens`
+              : `${name} reports no fee revenue in the last 24h, so scenarios are n/a`}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {/* Inputs */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs font-mono">
+            {SLIDERS.map(({ key, label, range }) => (
+              <label key={key} className="space-y-1">
+                <span className="flex justify-between text-gray-400">
+                  {label}
+                  <span className="text-white">
+                    {formatPercentage(current[key], 0, key !== 'feeAllocationPercent')}
+                  </span>
+                </span>
+                <input
+                  type="range"
+                  min={range.min}
+                  max={range.max}
+                  step={range.step}
+                  value={current[key]}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    setInputs({ ...current, [key]: value });
+                  }}
+                  className="w-full accent-accent"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs font-mono">
+            <input
+              type="text"
+              value={scenarioName}
+              placeholder="Scenario name"
+              onChange={(e) => setScenarioName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && saveScenario()}
+              className={`${INPUT_CLASS} w-40`}
+            />
+            <button
+              onClick={saveScenario}
+              disabled={!scenarioName.trim()}
+              className="px-2 py-1 rounded bg-accent text-accent-contrast disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button onClick={() => setInputs(null)} className="px-2 py-1 rounded text-gray-400 hover:text-white hover:bg-surface-hover">
+              Reset to baseline
+            </button>
+            <span className="flex-1" />
+            <button onClick={() => exportScenarios('csv')} className="text-accent hover:underline">Export CSV</button>
+            <button onClick={() => exportScenarios('json')} className="text-accent hover:underline">Export JSON</button>
+          </div>
+
+          {/* Side-by-side comparison */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm font-mono">
+              <thead>
+                <tr className="text-gray-400 text-xs">
+                  <th className="text-left font-normal pb-2" />
+                  {columns.map(column => (
+                    <th key={column.key} className="text-right font-normal pb-2 whitespace-nowrap">
+                      <span className={column.saved ? 'text-white' : undefined}>{column.label}</span>
+                      {column.saved && (
+                        <span className="ml-2">
+                          <button onClick={() => setInputs(column.inputs)} className="text-accent hover:underline">Load</button>
+                          <button
+                            onClick={() => column.saved && deleteScenario(column.saved)}
+                            className="ml-1 text-gray-400 hover:text-white"
+                            aria-label={`Delete ${column.label}`}
+                          >
+                            ✕
+                          </button>
+                        </span>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {ROWS.map(row => (
+                  <tr key={row.label} className="border-t border-line">
+                    <td className="py-2 text-gray-300 whitespace-nowrap">{row.label}</td>
+                    {columns.map((column, index) => {
+                      const delta = row.delta && index > 0 ? row.delta(column.result) : null;
+                      const base = row.delta ? row.delta(baselineResult) : null;
+                      return (
+                        <td key={column.key} className="py-2 text-right text-white whitespace-nowrap">
+                          {row.input ? row.input(column.inputs) : row.result ? row.result(column.result) : ''}
+                          {delta !== null && base !== null && (
+                            <span className="block text-xs text-gray-500">{formatChange(calculatePercentageChange(delta, base))}</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-gray-500 font-mono">
+            Revenue and price compound monthly to reach their {FEE_SIMULATOR_CONFIG.MONTHS}-month change; each month's
+            buyback buys at that month's price. Saved scenarios are recomputed against today's baseline.
+            {baseline.circulatingSupply === null && ' No circulating supply is reported, so supply reduction and yield are n/a.'}
+            {' '}Reported estimate for comparison: {formatOptionalCurrency(buybackData ? buybackData.estimatedAnnualBuyback : null)}/yr.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+});
+
+FeeSimulator.displayName = 'FeeSimulator';
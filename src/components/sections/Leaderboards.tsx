@@ -1,6 +1,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { LineChart, Line, ResponsiveContainer, AreaChart, Area } from 'recharts';
+import { createSeededRandom } from '../../utils/random';
 
 interface LeaderboardsProps {
   performanceMetrics: any[];
@@ -9,9 +10,10 @@ interface LeaderboardsProps {
 
 export const Leaderboards: React.FC<LeaderboardsProps> = () => {
 
+  const random = createSeededRandom('leaderboards');
   const mockChartData = Array.from({ length: 30 }, (_, i) => ({
     day: i,
-    value: Math.random() * 100 + 50 + Math.sin(i * 0.2) * 20
+    value: random.next() * 100 + 50 + Math.sin(i * 0.2) * 20
   }));
 
   const leaderboardSections = [
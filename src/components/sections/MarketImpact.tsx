@@ -0,0 +1,160 @@
+/**
+ * Market Impact Section
+ * One protocol's daily buyback as a share of trading volume, its rolling average and the price return
+ * over the same days, with days above the chosen share flagged
+ */
+
+import React, { useState, useMemo, memo } from 'react';
+import {
+  ComposedChart,
+  Bar,
+  Cell,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import {
+  CHART_HEIGHTS,
+  DEFAULT_MARKET_IMPACT_THRESHOLD,
+  MARKET_IMPACT_CONFIG,
+  MARKET_IMPACT_THRESHOLDS,
+  PROTOCOL_BY_TOKEN,
+  THEME_COLORS
+} from '../../constants';
+import { buildMarketImpactSeries, summarizeMarketImpact } from '../../utils/marketImpact';
+import { formatChange, formatChartDate, formatPercentage } from '../../utils/formatters';
+import { getProtocolColor } from '../../utils/helpers';
+import { useChartColors } from '../../hooks/useChartColors';
+import { useBuybackTrends } from '../../hooks/useBuybackQueries';
+import type { MarketImpactThreshold, ProtocolToken } from '../../types';
+
+const SERIES_LABELS: Record<string, string> = {
+  shareOfVolume: 'Share of volume',
+  rollingShare: `${MARKET_IMPACT_CONFIG.ROLLING_DAYS}d average`,
+  priceReturn: 'Price return',
+};
+
+const formatShare = (share: number | null): string => {
+  return share === null ? 'n/a' : formatPercentage(share, 2);
+};
+
+interface MarketImpactProps {
+  token: ProtocolToken | undefined;
+  days: number;
+  height?: number;
+}
+
+export const MarketImpact = memo<MarketImpactProps>(({ token, days, height = CHART_HEIGHTS.MEDIUM }) => {
+  const [threshold, setThreshold] = useState<MarketImpactThreshold>(DEFAULT_MARKET_IMPACT_THRESHOLD);
+  const chartColors = useChartColors();
+  const trendsQuery = useBuybackTrends(token, days);
+
+  const points = useMemo(
+    () => buildMarketImpactSeries(trendsQuery.data || [], threshold),
+    [trendsQuery.data, threshold]
+  );
+  const summary = useMemo(() => summarizeMarketImpact(points), [points]);
+
+  const name = token ? PROTOCOL_BY_TOKEN[token].name : '';
+  const color = getProtocolColor(name);
+
+  return (
+    <div className="dark-card h-full">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white font-mono">{token ? `${name} Market Impact` : 'Market Impact'}</h3>
+          <p className="text-xs text-gray-500 font-mono">
+            Latest {formatShare(summary.latestShare)} of volume · {MARKET_IMPACT_CONFIG.ROLLING_DAYS}d avg{' '}
+            {formatShare(summary.rollingShare)} · {summary.flaggedDays} of {summary.observedDays} days above {threshold}%
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-gray-400 font-mono">Flag above:</label>
+          <select
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value) as MarketImpactThreshold)}
+            className="px-2 py-1 text-xs text-white border border-gray-600 rounded font-mono focus:outline-none bg-surface-raised"
+          >
+            {MARKET_IMPACT_THRESHOLDS.map(option => (
+              <option key={option} value={option}>{option}% of volume</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!token ? (
+        <p className="text-gray-400 text-sm font-mono">Select a protocol to see its market impact.</p>
+      ) : summary.observedDays === 0 ? (
+        <p className="text-gray-400 text-sm font-mono">
+          {trendsQuery.isLoading ? 'Loading…' : 'Needs at least two stored days with trading volume'}
+        </p>
+      ) : (
+        <div style={{ height }} className="w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={points} margin={{ top: 10, right: 20, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="1 3" stroke={chartColors.GRID} strokeWidth={0.5} vertical={false} />
+              <XAxis
+                dataKey="timestamp"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: chartColors.TEXT_SECONDARY, fontSize: 11, fontFamily: 'JetBrains Mono, monospace' }}
+                tickFormatter={formatChartDate}
+                interval="preserveStartEnd"
+              />
+              <YAxis
+                yAxisId="share"
+                orientation="left"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: chartColors.TEXT_SECONDARY, fontSize: 11, fontFamily: 'JetBrains Mono, monospace' }}
+                tickFormatter={(value: number) => formatPercentage(value, 1)}
+                width={60}
+              />
+              <YAxis
+                yAxisId="return"
+                orientation="right"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: chartColors.TEXT_SECONDARY, fontSize: 11, fontFamily: 'JetBrains Mono, monospace' }}
+                tickFormatter={(value: number) => formatChange(value, 0)}
+                width={60}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: THEME_COLORS.SURFACE, border: `1px solid ${color}`, borderRadius: '8px' }}
+                labelStyle={{ color: THEME_COLORS.TEXT_SECONDARY }}
+                labelFormatter={(label: string) => formatChartDate(label)}
+                formatter={(value: number, key: string) => [
+                  key === 'priceReturn' ? formatChange(value) : formatShare(value),
+                  SERIES_LABELS[key] || key,
+                ]}
+              />
+              <ReferenceLine yAxisId="share" y={threshold} stroke={chartColors.ERROR} strokeDasharray="4 4" />
+              <Bar yAxisId="share" dataKey="shareOfVolume" opacity={0.6} radius={[2, 2, 0, 0]}>
+                {points.map(point => (
+                  <Cell key={point.timestamp} fill={point.flagged ? chartColors.ERROR : color} />
+                ))}
+              </Bar>
+              <Line yAxisId="share" type="monotone" dataKey="rollingShare" stroke={color} strokeWidth={2} dot={false} connectNulls />
+              <Line
+                yAxisId="return"
+                type="monotone"
+                dataKey="priceReturn"
+                stroke={chartColors.TEXT_SECONDARY}
+                strokeWidth={1}
+                strokeDasharray="4 4"
+                dot={false}
+                connectNulls
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+});
+
+MarketImpact.displayName = 'MarketImpact';
@@ -1,196 +1,150 @@
-import React from 'react';
-import { BuybackData } from '../../types';
-import { BubbleChart } from '../charts/BubbleChart';
+/**
+ * Market Overview Section
+ * Tabbed ranking of every tracked protocol by one buyback metric, with a summary card per protocol
+ */
+
+import React, { useState, useMemo, memo } from 'react';
 import { motion } from 'framer-motion';
+import { ANIMATION_DURATIONS, THEME_COLORS } from '../../constants';
+import { formatCurrency, formatPercentage } from '../../utils/formatters';
+import { getProtocolColor, sortArray } from '../../utils/helpers';
+import { withAlpha } from '../../utils/theme';
+import { ProtocolLogoImage } from '../ProtocolLogo';
+import type { BuybackData } from '../../types';
+
+interface MarketOverviewTab {
+  id: string;
+  label: string;
+  value: (protocol: BuybackData) => number;
+  format: (value: number) => string;
+}
+
+const formatShare = (value: number): string => formatPercentage(value, 2);
+
+const MARKET_OVERVIEW_TABS: MarketOverviewTab[] = [
+  { id: 'value', label: 'Buyback value', value: protocol => protocol.totalValueUSD, format: formatCurrency },
+  { id: 'annual', label: 'Est. annual buybacks', value: protocol => protocol.estimatedAnnualBuyback, format: formatCurrency },
+  { id: 'supply', label: 'Supply reduced', value: protocol => protocol.circulatingSupplyPercent, format: formatShare },
+  { id: 'fees', label: 'Fee allocation', value: protocol => protocol.feeAllocationPercent, format: formatShare },
+];
 
 interface MarketOverviewProps {
-  buybackData: BuybackData[];
-  activeTab: string;
-  onTabChange: (tab: string) => void;
+  protocols: BuybackData[];
+  selectedProtocol: string;
+  onProtocolSelect: (protocol: string) => void;
 }
 
-export const MarketOverview: React.FC<MarketOverviewProps> = ({
-  buybackData,
-  activeTab,
-  onTabChange
+export const MarketOverview = memo<MarketOverviewProps>(({
+  protocols,
+  selectedProtocol,
+  onProtocolSelect
 }) => {
-  const tabs = ['Fees', 'Total value locked', 'Active users (daily)'];
-
-  const formatCurrency = (num: number) => {
-    if (num >= 1000000000) return `$${(num / 1000000000).toFixed(2)}B`;
-    if (num >= 1000000) return `$${(num / 1000000).toFixed(2)}M`;
-    if (num >= 1000) return `$${(num / 1000).toFixed(2)}K`;
-    return `$${num.toLocaleString()}`;
-  };
+  const [activeTabId, setActiveTabId] = useState(MARKET_OVERVIEW_TABS[0].id);
+  const activeTab = MARKET_OVERVIEW_TABS.find(tab => tab.id === activeTabId) || MARKET_OVERVIEW_TABS[0];
 
-  // Removed unused getTabData function
+  const ranked = useMemo(
+    () => sortArray(protocols, activeTab.value, 'desc'),
+    [protocols, activeTab]
+  );
+  const maxValue = ranked.length > 0 ? Math.max(activeTab.value(ranked[0]), 0) : 0;
 
   return (
-    <motion.div 
-      className="p-6"
-      initial={{ opacity: 0, y: 20 }}
-      animate={{ opacity: 1, y: 0 }}
-      transition={{ delay: 0.2, duration: 0.6 }}
-    >
-      <div className="flex items-center justify-between mb-6">
-        <h2 className="text-2xl font-bold text-gray-100">Market overview</h2>
-        <motion.button 
-          className="text-blue-400 hover:text-blue-300 text-sm font-medium"
-          whileHover={{ x: 5 }}
-        >
-          View full overview →
-        </motion.button>
-      </div>
-
-      {/* Tabs */}
-      <div className="flex gap-1 mb-6 bg-gray-800 p-1 rounded-lg w-fit">
-        {tabs.map((tab) => (
-          <button
-            key={tab}
-            onClick={() => onTabChange(tab)}
-            className={activeTab === tab ? 'nav-pill-active' : 'nav-pill-inactive'}
-          >
-            {tab}
-          </button>
-        ))}
+    <div className="dark-card h-full">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-white font-mono">Market Overview</h3>
+        <div className="flex gap-1 p-1 rounded-lg" style={{ background: THEME_COLORS.SURFACE_STRONG }} role="tablist">
+          {MARKET_OVERVIEW_TABS.map(tab => (
+            <button
+              key={tab.id}
+              role="tab"
+              aria-selected={tab.id === activeTab.id}
+              onClick={() => setActiveTabId(tab.id)}
+              className={`px-3 py-1 text-xs font-mono rounded-md transition-colors ${
+                tab.id === activeTab.id ? 'text-accent-contrast' : 'text-gray-400 hover:text-white'
+              }`}
+              style={tab.id === activeTab.id ? { background: THEME_COLORS.ACCENT } : {}}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
       </div>
 
-      {/* Protocol Cards Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        {/* Stablecoin Issuers */}
-        <motion.div 
-          className="dark-card bg-gradient-to-br from-emerald-900/50 to-emerald-800/30 border-emerald-700/50 h-64"
-          whileHover={{ scale: 1.02 }}
-          transition={{ duration: 0.2 }}
-        >
-          <div className="flex items-center justify-between mb-4">
-            <span className="text-emerald-400 text-sm font-medium">💰 Stablecoin issuers</span>
-            <span className="text-gray-400 text-xs">Values shown are 30 day sums</span>
-          </div>
-          <BubbleChart 
-            data={[
-              { name: 'Circle', value: 163800000000, color: '#10b981', change: 8.4 },
-              { name: 'Tether', value: 447700000000, color: '#059669', change: 22.5 }
-            ]}
-            height={180}
-          />
-        </motion.div>
-
-        {/* Blockchains */}
-        <motion.div 
-          className="dark-card bg-gradient-to-br from-blue-900/50 to-blue-800/30 border-blue-700/50 h-64"
-          whileHover={{ scale: 1.02 }}
-          transition={{ duration: 0.2 }}
-        >
-          <div className="flex items-center justify-between mb-4">
-            <span className="text-blue-400 text-sm font-medium">⛓️ Blockchains (L1)</span>
-          </div>
-          <BubbleChart 
-            data={[
-              { name: 'Tron', value: 352100000, color: '#ef4444', change: 20.2 }
-            ]}
-            height={180}
-          />
-        </motion.div>
-
-        {/* Exchanges */}
-        <motion.div 
-          className="dark-card bg-gradient-to-br from-purple-900/50 to-purple-800/30 border-purple-700/50 h-64"
-          whileHover={{ scale: 1.02 }}
-          transition={{ duration: 0.2 }}
-        >
-          <div className="flex items-center justify-between mb-4">
-            <span className="text-purple-400 text-sm font-medium">🏪 Exchanges (DEX)</span>
-          </div>
-          <BubbleChart 
-            data={[
-              { name: 'PancakeSwap', value: 103300000, color: '#8b5cf6', change: 5.6 },
-              { name: 'Uniswap', value: 833300000, color: '#a855f7', change: 4.3 }
-            ]}
-            height={180}
-          />
-        </motion.div>
-
-        {/* Liquid Staking */}
-        <motion.div 
-          className="dark-card bg-gradient-to-br from-indigo-900/50 to-indigo-800/30 border-indigo-700/50 h-64"
-          whileHover={{ scale: 1.02 }}
-          transition={{ duration: 0.2 }}
-        >
-          <div className="flex items-center justify-between mb-4">
-            <span className="text-indigo-400 text-sm font-medium">🔒 Liquid staking</span>
-          </div>
-          <BubbleChart 
-            data={[
-              { name: 'Aave', value: 757000000, color: '#6366f1', change: 3.9 },
-              { name: 'Lending', value: 0, color: '#818cf8', change: 0 },
-              { name: 'Infrastructure', value: 0, color: '#a5b4fc', change: 0 },
-              { name: 'Other', value: 0, color: '#c7d2fe', change: 0 }
-            ]}
-            height={180}
-          />
-        </motion.div>
+      {/* Ranking for the active metric */}
+      <div className="space-y-2 mb-6">
+        {ranked.map(protocol => {
+          const value = activeTab.value(protocol);
+          const color = getProtocolColor(protocol.protocol);
+          return (
+            <button
+              key={protocol.token}
+              onClick={() => onProtocolSelect(protocol.protocol)}
+              className="w-full flex items-center gap-3 text-left group"
+            >
+              <span className="w-28 shrink-0 text-sm text-gray-300 font-mono truncate group-hover:text-white">
+                {protocol.protocol}
+              </span>
+              <div className="flex-1 h-3 rounded-full overflow-hidden" style={{ background: THEME_COLORS.SURFACE_STRONG }}>
+                <motion.div
+                  className="h-full rounded-full"
+                  style={{ background: color }}
+                  initial={{ width: 0 }}
+                  animate={{ width: `${maxValue > 0 ? (value / maxValue) * 100 : 0}%` }}
+                  transition={{ duration: ANIMATION_DURATIONS.NORMAL }}
+                />
+              </div>
+              <span className="w-24 shrink-0 text-right text-sm text-white font-mono">{activeTab.format(value)}</span>
+            </button>
+          );
+        })}
       </div>
 
-      {/* DAO Buyback Section */}
-      <motion.div 
-        className="mt-6 grid grid-cols-1 lg:grid-cols-3 gap-4"
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 0.4, duration: 0.6 }}
-      >
-        {buybackData.map((protocol, index) => {
-          const colors = {
-            'Hyperliquid': { bg: 'from-cyan-900/50 to-cyan-800/30', border: 'border-cyan-700/50', text: 'text-cyan-400' },
-            'Jupiter': { bg: 'from-orange-900/50 to-orange-800/30', border: 'border-orange-700/50', text: 'text-orange-400' },
-            'Aave': { bg: 'from-pink-900/50 to-pink-800/30', border: 'border-pink-700/50', text: 'text-pink-400' }
-          };
-          
-          const color = colors[protocol.protocol as keyof typeof colors] || colors['Aave'];
-          
+      {/* Per-protocol buyback summaries */}
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+        {ranked.map(protocol => {
+          const color = getProtocolColor(protocol.protocol);
+          const isSelected = protocol.protocol === selectedProtocol;
           return (
-            <motion.div 
+            <button
               key={protocol.token}
-              className={`dark-card bg-gradient-to-br ${color.bg} ${color.border} h-48`}
-              whileHover={{ scale: 1.02 }}
-              transition={{ duration: 0.2 }}
+              onClick={() => onProtocolSelect(protocol.protocol)}
+              className="text-left rounded-lg p-4 border transition-colors hover:bg-surface-hover"
+              style={{
+                borderColor: isSelected ? color : THEME_COLORS.BORDER,
+                borderLeftColor: color,
+                borderLeftWidth: 4,
+                background: isSelected ? withAlpha(color, 0.08) : undefined,
+              }}
             >
-              <div className="flex items-center justify-between mb-4">
-                <span className={`${color.text} text-sm font-medium`}>
-                  {protocol.protocol === 'Hyperliquid' ? '🚀' : protocol.protocol === 'Jupiter' ? '🪐' : '👻'} {protocol.protocol} Buybacks
-                </span>
-              </div>
-              <div className="space-y-3">
+              <div className="flex items-center gap-3 mb-3">
+                <ProtocolLogoImage protocol={protocol.protocol} size="sm" />
                 <div>
-                  <div className="text-2xl font-bold text-gray-100">
-                    {formatCurrency(protocol.totalValueUSD)}
-                  </div>
-                  <div className="text-sm text-gray-400">Total repurchased</div>
-                </div>
-                <div className="flex items-center gap-4">
-                  <div>
-                    <div className="text-lg font-semibold text-gray-200">
-                      {protocol.circulatingSupplyPercent}%
-                    </div>
-                    <div className="text-xs text-gray-500">Supply reduced</div>
-                  </div>
-                  <div>
-                    <div className="text-lg font-semibold text-gray-200">
-                      {protocol.feeAllocationPercent}%
-                    </div>
-                    <div className="text-xs text-gray-500">Fee allocation</div>
-                  </div>
-                </div>
-                <div className="pt-2 border-t border-gray-700">
-                  <div className="text-sm text-gray-400">
-                    Est. annual: {formatCurrency(protocol.estimatedAnnualBuyback)}
-                  </div>
+                  <div className="text-sm font-medium text-white">{protocol.protocol}</div>
+                  <div className="text-xs text-gray-400">{protocol.token}</div>
                 </div>
               </div>
-            </motion.div>
+              <div className="text-xl font-bold text-white font-mono">{formatCurrency(protocol.totalValueUSD)}</div>
+              <div className="text-xs text-gray-500 mb-3">Total repurchased</div>
+              <div className="flex justify-between text-xs font-mono">
+                <span className="text-gray-400">Supply reduced</span>
+                <span style={{ color: THEME_COLORS.ACCENT }}>{formatShare(protocol.circulatingSupplyPercent)}</span>
+              </div>
+              <div className="flex justify-between text-xs font-mono">
+                <span className="text-gray-400">Fee allocation</span>
+                <span className="text-gray-200">{formatShare(protocol.feeAllocationPercent)}</span>
+              </div>
+              <div className="flex justify-between text-xs font-mono">
+                <span className="text-gray-400">Est. annual</span>
+                <span className="text-gray-200">{formatCurrency(protocol.estimatedAnnualBuyback)}</span>
+              </div>
+            </button>
           );
         })}
-      </motion.div>
-    </motion.div>
+      </div>
+    </div>
   );
-};
\ No newline at end of file
+});
+
+MarketOverview.displayName = 'MarketOverview';
+
+export default MarketOverview;
@@ -0,0 +1,137 @@
+/**
+ * Net Token Flow Section
+ * Tokens one protocol repurchased against tokens its published schedule unlocked over the same periods
+ */
+
+import React, { useMemo, memo } from 'react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { CHART_HEIGHTS, DAY_MS, PROTOCOL_BY_TOKEN, SCHEDULE_CONFIG, THEME_COLORS } from '../../constants';
+import { buildNetFlowSeries, tokensUnlockedBetween } from '../../utils/emissionsSchedule';
+import { formatChartDate, formatPercentage, formatTokenAmount } from '../../utils/formatters';
+import { getProtocolColor } from '../../utils/helpers';
+import { useChartColors } from '../../hooks/useChartColors';
+import { useEmissionsSchedule, useHistoricalData } from '../../hooks/useBuybackQueries';
+import type { ProtocolToken } from '../../types';
+
+const SERIES_LABELS: Record<string, string> = {
+  bought: 'Bought back',
+  released: 'Unlocked',
+  cumulativeNetFlow: 'Cumulative net flow',
+};
+
+// Signed token amounts; formatTokenAmount only handles magnitudes
+const formatSignedTokens = (value: number): string => {
+  return `${value < 0 ? '-' : ''}${formatTokenAmount(Math.abs(value))}`;
+};
+
+interface NetFlowProps {
+  token: ProtocolToken | undefined;
+  days: number;
+  height?: number;
+}
+
+export const NetFlow = memo<NetFlowProps>(({ token, days, height = CHART_HEIGHTS.SMALL }) => {
+  const chartColors = useChartColors();
+  const name = token ? PROTOCOL_BY_TOKEN[token].name : '';
+  const color = getProtocolColor(name);
+
+  const scheduleQuery = useEmissionsSchedule(token);
+  const historyQuery = useHistoricalData(token ? name : undefined, days, { enabled: token !== undefined });
+  const schedule = scheduleQuery.data || null;
+
+  const points = useMemo(
+    () => schedule ? buildNetFlowSeries(historyQuery.data || [], schedule) : [],
+    [historyQuery.data, schedule]
+  );
+  // Unlocks drawn below the axis
+  const chartData = useMemo(() => points.map(point => ({ ...point, released: -point.unlocked })), [points]);
+
+  const upcoming = useMemo(() => {
+    if (!schedule) return null;
+    const now = new Date();
+    return tokensUnlockedBetween(schedule, now, new Date(now.getTime() + SCHEDULE_CONFIG.UPCOMING_DAYS * DAY_MS));
+  }, [schedule]);
+
+  const totals = points.reduce(
+    (sum, point) => ({ bought: sum.bought + point.bought, unlocked: sum.unlocked + point.unlocked }),
+    { bought: 0, unlocked: 0 }
+  );
+
+  return (
+    <div className="dark-card h-full">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-white font-mono">{token ? `${name} Net Token Flow` : 'Net Token Flow'}</h3>
+        {schedule && (
+          <p className="text-xs text-gray-500 font-mono">
+            Bought {formatTokenAmount(totals.bought)} vs unlocked {formatTokenAmount(totals.unlocked)} {token}
+            {totals.unlocked > 0 && ` (buybacks offset ${formatPercentage((totals.bought / totals.unlocked) * 100, 0)})`}
+            {upcoming !== null && ` · next ${SCHEDULE_CONFIG.UPCOMING_DAYS}d unlocks ${formatTokenAmount(upcoming)}`}
+          </p>
+        )}
+      </div>
+
+      {!token ? (
+        <p className="text-gray-400 text-sm font-mono">Select a protocol to compare its buybacks with unlocks.</p>
+      ) : scheduleQuery.error ? (
+        <p className="text-red-400 text-sm font-mono">{scheduleQuery.error.message}</p>
+      ) : !schedule ? (
+        <p className="text-gray-400 text-sm font-mono">
+          {scheduleQuery.isLoading ? 'Loading…' : `No emissions schedule is listed for ${name}, so net flow is unknown`}
+        </p>
+      ) : points.length === 0 ? (
+        <p className="text-gray-400 text-sm font-mono">
+          {historyQuery.isLoading ? 'Loading…' : 'No stored buyback history in this window'}
+        </p>
+      ) : (
+        <>
+          <div style={{ height }} className="w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} stackOffset="sign" margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="1 3" stroke={chartColors.GRID} strokeWidth={0.5} vertical={false} />
+                <XAxis
+                  dataKey="timestamp"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: chartColors.TEXT_SECONDARY, fontSize: 11, fontFamily: 'JetBrains Mono, monospace' }}
+                  tickFormatter={formatChartDate}
+                  interval="preserveStartEnd"
+                />
+                <YAxis
+                  orientation="right"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: chartColors.TEXT_SECONDARY, fontSize: 11, fontFamily: 'JetBrains Mono, monospace' }}
+                  tickFormatter={formatSignedTokens}
+                  width={70}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: THEME_COLORS.SURFACE, border: `1px solid ${color}`, borderRadius: '8px' }}
+                  labelStyle={{ color: THEME_COLORS.TEXT_SECONDARY }}
+                  labelFormatter={(label: string) => formatChartDate(label)}
+                  formatter={(value: number, key: string) => [`${formatSignedTokens(value)} ${token}`, SERIES_LABELS[key] || key]}
+                />
+                <ReferenceLine y={0} stroke={chartColors.TEXT_SECONDARY} />
+                <Bar dataKey="bought" stackId="flow" fill={color} opacity={0.6} />
+                <Bar dataKey="released" stackId="flow" fill={chartColors.ERROR} opacity={0.6} />
+                <Line type="monotone" dataKey="cumulativeNetFlow" stroke={chartColors.TEXT_PRIMARY} strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          {schedule.source && <p className="text-xs text-gray-500 font-mono mt-2">Schedule: {schedule.source}</p>}
+        </>
+      )}
+    </div>
+  );
+});
+
+NetFlow.displayName = 'NetFlow';
@@ -0,0 +1,192 @@
+/**
+ * Protocol Hero Section
+ * Single-protocol spotlight: headline purchase totals, cumulative activity, buyback strategy and disclosures
+ */
+
+import React, { useMemo, memo } from 'react';
+import { THEME_COLORS } from '../../constants';
+import { formatCurrency, formatPercentage, formatTokenAmount } from '../../utils/formatters';
+import { getImpliedCirculatingSupply, getProtocolColor, getTokenFromProtocol } from '../../utils/helpers';
+import { ROUTE_PATHS, handleLinkClick } from '../../utils/router';
+import { withAlpha } from '../../utils/theme';
+import { OptimizedDataService } from '../../services/optimizedDataService';
+import { CumulativeChart } from '../charts/CumulativeChart';
+import { ProtocolLogoImage } from '../ProtocolLogo';
+import type { BuybackData, HistoricalDataPoint } from '../../types';
+
+/**
+ * Headline figure with a caption
+ */
+const HeroFigure = memo(({ label, value, caption, highlight }: {
+  label: string;
+  value: string;
+  caption: string;
+  highlight?: boolean;
+}) => (
+  <div className="rounded-lg p-4" style={{ background: THEME_COLORS.SURFACE_STRONG }}>
+    <p className="text-xs text-gray-400 font-mono mb-2">{label}</p>
+    <p className="text-xl font-bold font-mono mb-1" style={{ color: highlight ? THEME_COLORS.ACCENT : THEME_COLORS.TEXT_PRIMARY }}>
+      {value}
+    </p>
+    <p className="text-xs text-gray-500">{caption}</p>
+  </div>
+));
+
+HeroFigure.displayName = 'HeroFigure';
+
+interface ProtocolHeroProps {
+  protocols: BuybackData[];
+  selectedProtocol: string;
+  historicalData: HistoricalDataPoint[];
+  timeframeLabel: string;
+  onProtocolSelect: (protocol: string) => void;
+}
+
+export const ProtocolHero = memo<ProtocolHeroProps>(({
+  protocols,
+  selectedProtocol,
+  historicalData,
+  timeframeLabel,
+  onProtocolSelect
+}) => {
+  const current = protocols.find(protocol => protocol.protocol === selectedProtocol);
+  const token = getTokenFromProtocol(selectedProtocol);
+  const mechanism = useMemo(
+    () => token ? OptimizedDataService.getInstance().getBuybackMechanism(token) : null,
+    [token]
+  );
+  const history = useMemo(
+    () => historicalData.filter(item => item.protocol === selectedProtocol),
+    [historicalData, selectedProtocol]
+  );
+
+  const color = getProtocolColor(selectedProtocol);
+  const impliedSupply = current ? getImpliedCirculatingSupply(current) : null;
+
+  return (
+    <div className="dark-card h-full space-y-6">
+      {/* Protocol switcher */}
+      <div className="flex flex-wrap gap-2">
+        {protocols.map(protocol => {
+          const isSelected = protocol.protocol === selectedProtocol;
+          const protocolColor = getProtocolColor(protocol.protocol);
+          return (
+            <button
+              key={protocol.token}
+              onClick={() => onProtocolSelect(protocol.protocol)}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-mono border transition-colors ${
+                isSelected ? 'text-white' : 'text-gray-400 border-transparent hover:text-white hover:bg-surface-hover'
+              }`}
+              style={isSelected ? { borderColor: protocolColor, background: withAlpha(protocolColor, 0.12) } : {}}
+            >
+              <ProtocolLogoImage protocol={protocol.protocol} size="sm" />
+              {protocol.protocol}
+            </button>
+          );
+        })}
+      </div>
+
+      {!current ? (
+        <p className="text-gray-400 text-sm font-mono">No buyback data available for {selectedProtocol}.</p>
+      ) : (
+        <>
+          {/* Title */}
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <ProtocolLogoImage protocol={current.protocol} size="lg" />
+              <div>
+                <h2 className="text-2xl font-bold text-white font-mono">{current.protocol} Token</h2>
+                <p className="text-gray-400 text-sm">
+                  Historical {current.protocol} revenue and ${current.token} purchases since token launch
+                </p>
+              </div>
+            </div>
+            <a
+              href={ROUTE_PATHS.protocol(current.token)}
+              onClick={(e) => handleLinkClick(e, ROUTE_PATHS.protocol(current.token))}
+              className="text-sm font-mono hover:underline"
+              style={{ color: THEME_COLORS.ACCENT }}
+            >
+              Full protocol page →
+            </a>
+          </div>
+
+          {/* Key figures */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <HeroFigure
+              label={`Total $${current.token} purchased`}
+              value={`${formatTokenAmount(current.totalRepurchased)} ${current.token}`}
+              caption="Tokens repurchased"
+            />
+            <HeroFigure
+              label={`Total $${current.token} purchases (USD)`}
+              value={formatCurrency(current.totalValueUSD)}
+              caption="Since token launch"
+            />
+            <HeroFigure
+              label="Circulating supply"
+              value={impliedSupply === null ? 'n/a' : `${formatTokenAmount(impliedSupply)} ${current.token}`}
+              caption="Implied by repurchases"
+            />
+            <HeroFigure
+              label="Supply offset"
+              value={formatPercentage(current.circulatingSupplyPercent)}
+              caption="Reduced through buybacks"
+              highlight
+            />
+          </div>
+
+          {/* Cumulative activity */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-semibold text-white font-mono">Historical {current.protocol} Buyback Activity</h3>
+              <span className="text-xs text-gray-400 font-mono">{timeframeLabel}</span>
+            </div>
+            <CumulativeChart data={history} color={color} />
+          </div>
+
+          {/* Strategy */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-white font-mono">Buyback Strategy</h3>
+            <p className="text-gray-300 text-sm">
+              {mechanism?.summary} {current.protocol} currently routes{' '}
+              <span className="font-semibold text-white">{current.feeAllocationPercent}%</span> of protocol fees
+              to buybacks and may modify or discontinue that at any time.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <HeroFigure label="Fee allocation" value={`${current.feeAllocationPercent}%`} caption="Of protocol fees" />
+              <HeroFigure
+                label="Est. annual buyback"
+                value={formatCurrency(current.estimatedAnnualBuyback)}
+                caption="Based on current rates"
+              />
+            </div>
+          </div>
+
+          {/* Disclosures */}
+          <details className="text-xs text-gray-400 leading-relaxed">
+            <summary className="cursor-pointer text-sm text-gray-300 font-mono">Legal disclaimer</summary>
+            <div className="space-y-2 mt-3">
+              <p>
+                References to token purchases are for informational purposes only and describe historical activity.
+                They are not a commitment to future token purchases for any reason.
+              </p>
+              <p>
+                Purchases may prevent or slow a decline in the market price of tokens and may stabilise, maintain or
+                otherwise affect that price, so the market price may be higher than it would otherwise be.
+              </p>
+              <p>
+                The ${current.token} token does not represent a right to revenues or any other distribution. No token
+                purchaser, holder or seller should rely on past purchases as an indication of future purchases.
+              </p>
+            </div>
+          </details>
+        </>
+      )}
+    </div>
+  );
+});
+
+ProtocolHero.displayName = 'ProtocolHero';
+
+export default ProtocolHero;
@@ -0,0 +1,322 @@
+/**
+ * Supply Projection Section
+ * Net circulating supply 12–36 months out for one protocol under bear, base and bull buyback scenarios,
+ * with monthly emissions prefilled from the published unlock schedule and the month buybacks overtake emissions
+ */
+
+import React, { useState, useEffect, useMemo, memo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import {
+  CHART_HEIGHTS,
+  DEFAULT_RUN_RATE_WINDOW,
+  DEFAULT_SUPPLY_PROJECTION_HORIZON,
+  PROTOCOL_BY_TOKEN,
+  RUN_RATE_METHOD_LABELS,
+  RUN_RATE_WINDOWS,
+  SUPPLY_PROJECTION_HORIZONS,
+  SUPPLY_SCENARIOS,
+  SUPPLY_SCENARIO_BUYBACK_MULTIPLIERS,
+  SUPPLY_SCENARIO_LABELS,
+  THEME_COLORS
+} from '../../constants';
+import { getMonthlyEmissions, projectSupply } from '../../utils/supplyProjection';
+import { estimateRunRate } from '../../utils/runRate';
+import { formatChange, formatCurrency, formatTokenAmount } from '../../utils/formatters';
+import { calculatePercentageChange, getProtocolColor } from '../../utils/helpers';
+import { useChartColors } from '../../hooks/useChartColors';
+import {
+  useBuybackData,
+  useEmissionsSchedule,
+  useHistoricalData,
+  useMarketData,
+  useTokenPrices
+} from '../../hooks/useBuybackQueries';
+import type {
+  ChartColors,
+  ProtocolToken,
+  RunRateWindow,
+  SupplyProjectionHorizon,
+  SupplyScenario
+} from '../../types';
+
+// Theme chart colours for the alternative scenarios; the base line uses the protocol colour
+const SCENARIO_COLORS: Record<Exclude<SupplyScenario, 'base'>, keyof ChartColors> = {
+  bear: 'ERROR',
+  bull: 'SUCCESS',
+};
+
+const MAX_HORIZON = Math.max(...SUPPLY_PROJECTION_HORIZONS);
+
+const INPUT_CLASS = 'px-2 py-1 bg-surface-strong border border-gray-700 rounded text-sm text-white font-mono focus:ring-2 focus:ring-accent focus:border-accent';
+
+const SCENARIO_NOTE = SUPPLY_SCENARIOS
+  .filter(scenario => scenario !== 'base')
+  .map(scenario => `${SUPPLY_SCENARIO_LABELS[scenario].toLowerCase()} ×${SUPPLY_SCENARIO_BUYBACK_MULTIPLIERS[scenario]}`)
+  .join(', ');
+
+const formatMonth = (timestamp: string): string => {
+  return new Date(timestamp).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+};
+
+const parseAmount = (value: string): number => {
+  const amount = Number(value);
+  return isFinite(amount) && amount > 0 ? amount : 0;
+};
+
+interface SupplyProjectionProps {
+  token: ProtocolToken | undefined;
+  runRateWindow?: RunRateWindow;
+  height?: number;
+}
+
+export const SupplyProjection = memo<SupplyProjectionProps>(({
+  token,
+  runRateWindow = DEFAULT_RUN_RATE_WINDOW,
+  height = CHART_HEIGHTS.MEDIUM
+}) => {
+  const [horizon, setHorizon] = useState<SupplyProjectionHorizon>(DEFAULT_SUPPLY_PROJECTION_HORIZON);
+  // Month (1-based) -> tokens entered by the user in place of the scheduled amount
+  const [emissionEdits, setEmissionEdits] = useState<Record<number, number>>({});
+  const [supplyOverride, setSupplyOverride] = useState<number | null>(null);
+  const [start] = useState(() => new Date());
+  const chartColors = useChartColors();
+
+  // Same rows as the rankings run-rate, so both share one cached request
+  const historyQuery = useHistoricalData(undefined, Math.max(...RUN_RATE_WINDOWS));
+  const buybackData = useBuybackData().data?.find(data => data.token === token);
+  const market = useMarketData().data?.find(item => item.token === token);
+  const prices = useTokenPrices().data;
+  const price = (token && prices?.[token]) || market?.price || null;
+  const scheduleQuery = useEmissionsSchedule(token);
+  const schedule = scheduleQuery.data || null;
+
+  // Edits belong to the protocol they were made for
+  useEffect(() => {
+    setEmissionEdits({});
+    setSupplyOverride(null);
+  }, [token]);
+
+  const name = token ? PROTOCOL_BY_TOKEN[token].name : '';
+  const color = getProtocolColor(name);
+  const circulatingSupply = supplyOverride ?? market?.circulatingSupply ?? null;
+
+  const runRate = useMemo(() => {
+    if (!buybackData) return null;
+    const rows = (historyQuery.data || []).filter(row => row.protocol === buybackData.protocol);
+    return estimateRunRate(rows, runRateWindow, buybackData.estimatedAnnualBuyback);
+  }, [buybackData, historyQuery.data, runRateWindow]);
+
+  // Computed for the longest horizon so edits survive switching between horizons
+  const scheduledEmissions = useMemo(
+    () => schedule ? getMonthlyEmissions(schedule, MAX_HORIZON, start) : new Array<number>(MAX_HORIZON).fill(0),
+    [schedule, start]
+  );
+
+  const emissions = useMemo(
+    () => scheduledEmissions.slice(0, horizon).map((tokens, index) => emissionEdits[index + 1] ?? tokens),
+    [scheduledEmissions, emissionEdits, horizon]
+  );
+
+  const projection = useMemo(() => {
+    if (!runRate || circulatingSupply === null || circulatingSupply <= 0 || price === null || price <= 0) return null;
+    return projectSupply(circulatingSupply, runRate.annualized, price, emissions, start);
+  }, [runRate, circulatingSupply, price, emissions, start]);
+
+  const monthTimestamp = (month: number): string => {
+    const date = new Date(start.getTime());
+    date.setUTCMonth(date.getUTCMonth() + month);
+    return date.toISOString();
+  };
+
+  const hasEdits = Object.keys(emissionEdits).length > 0;
+
+  const last = projection ? projection.points[projection.points.length - 1] : null;
+  const baseCrossover = projection ? projection.crossoverMonth.base : null;
+
+  return (
+    <div className="dark-card h-full">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white font-mono">{token ? `${name} Supply Projection` : 'Supply Projection'}</h3>
+          <p className="text-xs text-gray-500 font-mono">
+            {runRate
+              ? `${RUN_RATE_METHOD_LABELS[runRate.method]} ${formatCurrency(runRate.annualized)}/yr at today's price; ${SCENARIO_NOTE}`
+              : 'Trailing buyback run-rate at today\'s price'}
+          </p>
+        </div>
+        <div className="flex gap-1">
+          {SUPPLY_PROJECTION_HORIZONS.map(option => (
+            <button
+              key={option}
+              onClick={() => setHorizon(option)}
+              className={`px-2 py-1 text-xs font-mono rounded transition-colors ${
+                horizon === option ? 'bg-accent text-accent-contrast' : 'text-gray-400 hover:text-white hover:bg-surface-hover'
+              }`}
+            >
+              {option}M
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!token ? (
+        <p className="text-gray-400 text-sm font-mono">Select a protocol to project its supply.</p>
+      ) : (
+        <div className="space-y-4">
+          {/* Inputs */}
+          <div className="space-y-4 text-xs font-mono">
+            <label className="block space-y-1 md:w-1/3">
+              <span className="text-gray-400">Circulating supply ({token})</span>
+              <input
+                type="number"
+                min={0}
+                value={circulatingSupply ?? ''}
+                placeholder="Not reported; enter it"
+                onChange={(e) => setSupplyOverride(e.target.value === '' ? null : parseAmount(e.target.value))}
+                className={`${INPUT_CLASS} w-full`}
+              />
+            </label>
+            <div className="space-y-1">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-gray-400">
+                  Emissions per month ({token}):{' '}
+                  {scheduleQuery.isLoading
+                    ? 'loading schedule…'
+                    : schedule
+                      ? `prefilled from ${schedule.source || 'the published schedule'}`
+                      : 'no published schedule; enter any emissions'}
+                </span>
+                {hasEdits && (
+                  <button onClick={() => setEmissionEdits({})} className="text-accent hover:underline">
+                    Reset to schedule
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+                {emissions.map((tokens, index) => (
+                  <label key={index} className="space-y-1">
+                    <span className="text-gray-500">M{index + 1} · {formatMonth(monthTimestamp(index + 1))}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={Math.round(tokens)}
+                      onChange={(e) => {
+                        const amount = parseAmount(e.target.value);
+                        setEmissionEdits(prev => ({ ...prev, [index + 1]: amount }));
+                      }}
+                      className={`${INPUT_CLASS} w-full`}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {!projection || !last ? (
+            <p className="text-gray-400 text-sm font-mono">
+              {historyQuery.isLoading
+                ? 'Loading…'
+                : price === null
+                  ? 'No current price to convert buybacks into tokens'
+                  : 'Enter the circulating supply to project it'}
+            </p>
+          ) : (
+            <>
+              <div style={{ height }} className="w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={projection.points} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="1 3" stroke={chartColors.GRID} strokeWidth={0.5} vertical={false} />
+                    <XAxis
+                      dataKey="timestamp"
+                      axisLine={false}
+                      tickLine={false}
+                      tick={{ fill: chartColors.TEXT_SECONDARY, fontSize: 11, fontFamily: 'JetBrains Mono, monospace' }}
+                      tickFormatter={formatMonth}
+                      interval="preserveStartEnd"
+                    />
+                    <YAxis
+                      orientation="right"
+                      axisLine={false}
+                      tickLine={false}
+                      tick={{ fill: chartColors.TEXT_SECONDARY, fontSize: 11, fontFamily: 'JetBrains Mono, monospace' }}
+                      tickFormatter={(value: number) => formatTokenAmount(value)}
+                      domain={['auto', 'auto']}
+                      width={70}
+                    />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: THEME_COLORS.SURFACE, border: `1px solid ${color}`, borderRadius: '8px' }}
+                      labelStyle={{ color: THEME_COLORS.TEXT_SECONDARY }}
+                      labelFormatter={(label: string) => formatMonth(label)}
+                      formatter={(value: number, scenario: string) => [
+                        `${formatTokenAmount(value)} ${token}`,
+                        SUPPLY_SCENARIO_LABELS[scenario as SupplyScenario] || scenario,
+                      ]}
+                    />
+                    <ReferenceLine y={projection.points[0].base} stroke={chartColors.TEXT_SECONDARY} strokeDasharray="2 2" />
+                    {baseCrossover !== null && (
+                      <ReferenceLine
+                        x={projection.points[baseCrossover].timestamp}
+                        stroke={color}
+                        strokeDasharray="4 4"
+                        label={{ value: 'Base crossover', fill: color, fontSize: 10, position: 'insideTopLeft' }}
+                      />
+                    )}
+                    {SUPPLY_SCENARIOS.map(scenario => (
+                      <Line
+                        key={scenario}
+                        type="monotone"
+                        dataKey={scenario}
+                        stroke={scenario === 'base' ? color : chartColors[SCENARIO_COLORS[scenario]]}
+                        strokeWidth={scenario === 'base' ? 2 : 1}
+                        strokeDasharray={scenario === 'base' ? undefined : '4 4'}
+                        dot={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm font-mono">
+                  <thead>
+                    <tr className="text-gray-400 text-xs">
+                      <th className="text-left font-normal pb-2">Scenario</th>
+                      <th className="text-right font-normal pb-2">Bought / month</th>
+                      <th className="text-right font-normal pb-2">Supply in {horizon}M</th>
+                      <th className="text-right font-normal pb-2">Change</th>
+                      <th className="text-right font-normal pb-2">Buybacks overtake emissions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {SUPPLY_SCENARIOS.map(scenario => {
+                      const crossover = projection.crossoverMonth[scenario];
+                      return (
+                        <tr key={scenario} className="border-t border-line">
+                          <td className="py-2 text-gray-300">{SUPPLY_SCENARIO_LABELS[scenario]}</td>
+                          <td className="py-2 text-right text-white">{formatTokenAmount(projection.monthlyBuybackTokens[scenario])}</td>
+                          <td className="py-2 text-right text-white">{formatTokenAmount(last[scenario])}</td>
+                          <td className="py-2 text-right text-white">
+                            {formatChange(calculatePercentageChange(last[scenario], projection.points[0][scenario]))}
+                          </td>
+                          <td className="py-2 text-right text-white">
+                            {last.emitted === 0
+                              ? 'No emissions schedule'
+                              : crossover === null
+                                ? `Not within ${horizon}M`
+                                : `${formatMonth(projection.points[crossover].timestamp)} (M${crossover})`}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+SupplyProjection.displayName = 'SupplyProjection';
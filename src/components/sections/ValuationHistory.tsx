@@ -0,0 +1,112 @@
+/**
+ * Valuation History Section
+ * Buyback yield, price-to-buyback and revenue returned for one protocol at each stored snapshot
+ */
+
+import React, { useState, useMemo, memo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import {
+  CHART_HEIGHTS,
+  PROTOCOL_BY_TOKEN,
+  THEME_COLORS,
+  VALUATION_METRICS,
+  VALUATION_METRIC_LABELS
+} from '../../constants';
+import { buildValuationHistory } from '../../utils/valuationMetrics';
+import { formatChartDate, formatValuationMetric } from '../../utils/formatters';
+import { getProtocolColor } from '../../utils/helpers';
+import { useChartColors } from '../../hooks/useChartColors';
+import { useBuybackTrends, usePriceHistory } from '../../hooks/useBuybackQueries';
+import type { ProtocolToken, ValuationMetric } from '../../types';
+
+interface ValuationHistoryProps {
+  token: ProtocolToken | undefined;
+  days: number;
+  height?: number;
+}
+
+export const ValuationHistory = memo<ValuationHistoryProps>(({ token, days, height = CHART_HEIGHTS.SMALL }) => {
+  const [metric, setMetric] = useState<ValuationMetric>('buybackYield');
+  const chartColors = useChartColors();
+  const trendsQuery = useBuybackTrends(token, days);
+  const priceQuery = usePriceHistory(token, days);
+
+  const history = useMemo(
+    () => buildValuationHistory(trendsQuery.data || [], priceQuery.data || []),
+    [trendsQuery.data, priceQuery.data]
+  );
+  const points = history.filter(point => point[metric] !== null);
+
+  const name = token ? PROTOCOL_BY_TOKEN[token].name : '';
+  const color = getProtocolColor(name);
+  const latest = points[points.length - 1];
+
+  return (
+    <div className="dark-card h-full">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white font-mono">{token ? `${name} Valuation` : 'Valuation'}</h3>
+          <p className="text-xs text-gray-500 font-mono">
+            {VALUATION_METRIC_LABELS[metric]}: {latest ? formatValuationMetric(metric, latest[metric]) : 'n/a'}
+          </p>
+        </div>
+        <div className="flex gap-1">
+          {VALUATION_METRICS.map(option => (
+            <button
+              key={option}
+              onClick={() => setMetric(option)}
+              className={`px-2 py-1 text-xs font-mono rounded transition-colors ${
+                metric === option ? 'bg-accent text-accent-contrast' : 'text-gray-400 hover:text-white hover:bg-surface-hover'
+              }`}
+            >
+              {VALUATION_METRIC_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!token ? (
+        <p className="text-gray-400 text-sm font-mono">Select a protocol to see its valuation history.</p>
+      ) : points.length === 0 ? (
+        <p className="text-gray-400 text-sm font-mono">
+          {trendsQuery.isLoading || priceQuery.isLoading
+            ? 'Loading…'
+            : 'Not enough stored market and buyback history to chart this metric yet'}
+        </p>
+      ) : (
+        <div style={{ height }} className="w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="1 3" stroke={chartColors.GRID} strokeWidth={0.5} vertical={false} />
+              <XAxis
+                dataKey="timestamp"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: chartColors.TEXT_SECONDARY, fontSize: 11, fontFamily: 'JetBrains Mono, monospace' }}
+                tickFormatter={formatChartDate}
+                interval="preserveStartEnd"
+              />
+              <YAxis
+                orientation="right"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: chartColors.TEXT_SECONDARY, fontSize: 11, fontFamily: 'JetBrains Mono, monospace' }}
+                tickFormatter={(value: number) => formatValuationMetric(metric, value)}
+                width={70}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: THEME_COLORS.SURFACE, border: `1px solid ${color}`, borderRadius: '8px' }}
+                labelStyle={{ color: THEME_COLORS.TEXT_SECONDARY }}
+                labelFormatter={(label: string) => formatChartDate(label)}
+                formatter={(value: number) => [formatValuationMetric(metric, value), VALUATION_METRIC_LABELS[metric]]}
+              />
+              <Line type="monotone" dataKey={metric} stroke={color} strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+});
+
+ValuationHistory.displayName = 'ValuationHistory';
@@ -1,57 +1,3 @@
-import { ProtocolConfig } from '../types';
-
-export const PROTOCOLS: ProtocolConfig[] = [
-  {
-    name: 'Hyperliquid',
-    token: 'HYPE',
-    color: '#00D4AA',
-    icon: '🚀',
-    coingeckoId: 'hyperliquid'
-  },
-  {
-    name: 'Jupiter',
-    token: 'JUP',
-    color: '#FFA500',
-    icon: '🪐',
-    coingeckoId: 'jupiter-exchange-solana'
-  },
-  {
-    name: 'Aave',
-    token: 'AAVE',
-    color: '#B6509E',
-    icon: '👻',
-    coingeckoId: 'aave'
-  },
-  {
-    name: 'Jito',
-    token: 'JTO',
-    color: '#FF6B35',
-    icon: '⚡',
-    coingeckoId: 'jito-governance-token'
-  },
-  {
-    name: 'Pump.fun',
-    token: 'PUMP',
-    color: '#FF1493',
-    icon: '💎',
-    coingeckoId: 'pump-fun-token'
-  },
-  {
-    name: 'DeBridge',
-    token: 'DBR',
-    color: '#4A90E2',
-    icon: '🌉',
-    coingeckoId: 'debridge'
-  },
-  {
-    name: 'Fluid',
-    token: 'FLUID',
-    color: '#00BFFF',
-    icon: '💧',
-    coingeckoId: 'fluid-tokens'
-  }
-];
-
 export const MOCK_BUYBACK_DATA = {
   'HYPE': {
     protocol: 'Hyperliquid',
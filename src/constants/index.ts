@@ -3,77 +3,83 @@
  * Centralized configuration for maintainable and consistent values across the application
  */
 
+import { PROTOCOL_REGISTRY } from './protocolRegistry';
+
 // ===========================
 // PROTOCOL CONFIGURATION
 // ===========================
 
-export const PROTOCOL_TOKENS = [
-  'HYPE', 'JUP', 'AAVE', 'JTO', 'PUMP', 'DBR', 'FLUID'
-] as const;
+// Every protocol map below derives from PROTOCOL_REGISTRY; add protocols there
+export { PROTOCOL_REGISTRY };
 
-export type ProtocolToken = typeof PROTOCOL_TOKENS[number];
+export type ProtocolDefinition = typeof PROTOCOL_REGISTRY[number];
+export type ProtocolToken = ProtocolDefinition['token'];
+export type ProtocolName = ProtocolDefinition['name'];
 
-export const PROTOCOL_COLORS = {
-  Hyperliquid: '#00D4AA',
-  Jupiter: '#FFA500', 
-  Aave: '#B6509E',
-  Jito: '#FF6B35',
-  'Pump.fun': '#FF1493',
-  DeBridge: '#4A90E2',
-  Fluid: '#00BFFF',
-} as const;
+const mapRegistry = <K extends string, V>(
+  getKey: (protocol: ProtocolDefinition) => K,
+  getValue: (protocol: ProtocolDefinition) => V
+): Record<K, V> => {
+  return PROTOCOL_REGISTRY.reduce((result, protocol) => {
+    result[getKey(protocol)] = getValue(protocol);
+    return result;
+  }, {} as Record<K, V>);
+};
 
-export const COINGECKO_IDS = {
-  HYPE: 'hyperliquid',
-  JUP: 'jupiter-exchange-solana',
-  AAVE: 'aave',
-  JTO: 'jito-governance-token',
-  PUMP: 'pump-fun-token',
-  DBR: 'debridge',
-  FLUID: 'fluid-tokens',
-} as const;
+export const PROTOCOL_TOKENS: readonly ProtocolToken[] = PROTOCOL_REGISTRY.map(protocol => protocol.token);
+
+export const PROTOCOL_BY_TOKEN = mapRegistry(protocol => protocol.token, protocol => protocol);
+
+export const PROTOCOL_COLORS = mapRegistry(protocol => protocol.name, protocol => protocol.color as string);
+
+export const COINGECKO_IDS = mapRegistry(protocol => protocol.token, protocol => protocol.coingeckoId as string);
 
 // ===========================
 // MOCK DATA CONFIGURATION
 // ===========================
 
-export const MOCK_PRICES = {
-  hyperliquid: 19.3,
-  'jupiter-exchange-solana': 0.6,
-  aave: 192.0,
-  'jito-governance-token': 5.0,
-  'pump-fun-token': 0.165,
-  debridge: 6.0,
-  'fluid-tokens': 6.0,
-} as const;
+export const MOCK_PRICES = mapRegistry(protocol => protocol.coingeckoId as string, protocol => protocol.mockPrice as number);
 
-export const BASE_VOLUMES = {
-  HYPE: 1200000000,
-  JUP: 850000000,
-  AAVE: 45000000,
-  JTO: 320000000,
-  PUMP: 180000000,
-  DBR: 125000000,
-  FLUID: 240000000,
-} as const;
+export const BASE_VOLUMES = mapRegistry(protocol => protocol.token, protocol => protocol.baseVolume as number);
 
-export const DAILY_ACTIVE_USERS = {
-  HYPE: 2400000,
-  JUP: 850000,
-  AAVE: 180000,
-  JTO: 425000,
-  PUMP: 320000,
-  DBR: 185000,
-  FLUID: 275000,
-} as const;
+export const DAILY_ACTIVE_USERS = mapRegistry(protocol => protocol.token, protocol => protocol.dailyActiveUsers as number);
 
 // ===========================
 // UI CONFIGURATION
 // ===========================
 
-export const SORT_OPTIONS = ['marketCap', 'volume', 'change'] as const;
+// Normalised against valuation and revenue; see utils/valuationMetrics
+export const VALUATION_METRICS = ['buybackYield', 'buybackMultiple', 'revenueReturned'] as const;
+export type ValuationMetric = typeof VALUATION_METRICS[number];
+
+export const VALUATION_METRIC_LABELS: Record<ValuationMetric, string> = {
+  buybackYield: 'Buyback Yield',
+  buybackMultiple: 'Price / Buyback',
+  revenueReturned: 'Revenue Returned',
+};
+
+// Ids appear in shared URLs and stored preferences, so existing ones keep their meaning
+export const SORT_OPTIONS = [
+  'marketCap',
+  'volume',
+  'change',
+  'tokensBought',
+  'buybackYield',
+  'buybackMultiple',
+  'revenueReturned',
+  'unrealizedPnl',
+] as const;
 export type SortOption = typeof SORT_OPTIONS[number];
 
+export const SORT_OPTION_LABELS: Record<SortOption, string> = {
+  marketCap: 'Buyback Value',
+  volume: 'Est. Annual Buyback',
+  change: 'Supply Reduced',
+  tokensBought: 'Tokens Bought',
+  ...VALUATION_METRIC_LABELS,
+  unrealizedPnl: 'Unrealised PnL',
+};
+
 export const SORT_ORDERS = ['asc', 'desc'] as const;
 export type SortOrder = typeof SORT_ORDERS[number];
 
@@ -103,6 +109,17 @@ export const API_TIMEOUTS = {
   SHORT: 3000,
 } as const;
 
+export const RATE_LIMITS = {
+  COINGECKO_REQUESTS_PER_MINUTE: 10, // Stays under the free-tier limit
+  COINGECKO_BURST: 3,
+} as const;
+
+export const HISTORY_CONFIG = {
+  MAX_RANGE_DAYS: 90,        // CoinGecko returns hourly points for ranges up to 90 days
+  CHUNK_DELAY_MS: 1500,      // Spacing between chunk requests on the public API
+  STALE_AFTER_MS: 60 * 60 * 1000, // Refetch when the newest stored point is older than this
+} as const;
+
 // ===========================
 // CACHE CONFIGURATION
 // ===========================
@@ -114,6 +131,10 @@ export const CACHE_DURATIONS = {
   VERY_LONG: 60 * 60 * 1000, // 1 hour
 } as const;
 
+export const QUERY_CONFIG = {
+  STALE_TIME: CACHE_DURATIONS.SHORT, // Cached query results younger than this are used without refetching on mount
+} as const;
+
 // ===========================
 // DATABASE CONFIGURATION
 // ===========================
@@ -124,7 +145,18 @@ export const LOCAL_STORAGE_KEYS = {
   USER_PREFERENCES: 'dao_user_preferences',
 } as const;
 
-export const EXPECTED_PROTOCOL_COUNT = 7;
+export const EXPECTED_PROTOCOL_COUNT = PROTOCOL_REGISTRY.length;
+
+export const SCENARIO_DEFAULTS = {
+  PRESET: 'baseline',
+  SEED: 'daogecko',
+} as const;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SNAPSHOT_CONFIG = {
+  BUCKET_MS: DAY_MS,         // One stored snapshot per protocol per UTC day
+} as const;
 
 // ===========================
 // ANIMATION CONFIGURATION
@@ -148,14 +180,40 @@ export const ANIMATION_DELAYS = {
 // CHART CONFIGURATION
 // ===========================
 
-export const CHART_COLORS = {
-  PRIMARY: '#00ff87',
-  SECONDARY: '#00e67a',
-  GRID: '#2a2a2a',
-  BACKGROUND: '#0f0f0f',
-  TEXT_PRIMARY: '#ffffff',
-  TEXT_SECONDARY: '#6b7280',
-} as const;
+export const TIMEFRAME_OPTIONS = ['1D', '7D', '30D', '90D', '1Y'] as const;
+export type TimeframeOption = typeof TIMEFRAME_OPTIONS[number];
+
+// Window length and point spacing for each chart timeframe
+export const TIMEFRAME_CONFIG: Record<TimeframeOption, { days: number; bucketMs: number }> = {
+  '1D': { days: 1, bucketMs: 60 * 60 * 1000 },           // Hourly
+  '7D': { days: 7, bucketMs: 4 * 60 * 60 * 1000 },       // 4-hourly
+  '30D': { days: 30, bucketMs: DAY_MS },                 // Daily
+  '90D': { days: 90, bucketMs: DAY_MS },                 // Daily
+  '1Y': { days: 365, bucketMs: 7 * DAY_MS },             // Weekly
+};
+
+export const DEFAULT_TIMEFRAME: TimeframeOption = '30D';
+
+// Timeframes bucketed finer than one snapshot; their points come from stored market price history
+export const INTRADAY_TIMEFRAMES: readonly TimeframeOption[] = TIMEFRAME_OPTIONS.filter(
+  timeframe => TIMEFRAME_CONFIG[timeframe].bucketMs < SNAPSHOT_CONFIG.BUCKET_MS
+);
+
+// A window with fewer points than this (e.g. two daily snapshots in 1D) is not offered
+export const MIN_TIMEFRAME_POINTS = 3;
+
+// Normalization applied to every series on the multi-protocol comparison chart
+export const COMPARISON_MODES = ['usd', 'indexed', 'supplyPercent', 'log'] as const;
+export type ComparisonMode = typeof COMPARISON_MODES[number];
+
+export const COMPARISON_MODE_LABELS: Record<ComparisonMode, string> = {
+  usd: 'USD',
+  indexed: 'Indexed = 100',
+  supplyPercent: '% of Supply',
+  log: 'Log Scale',
+};
+
+export const DEFAULT_COMPARISON_MODE: ComparisonMode = 'usd';
 
 export const CHART_HEIGHTS = {
   SMALL: 200,
@@ -164,23 +222,253 @@ export const CHART_HEIGHTS = {
   EXTRA_LARGE: 500,
 } as const;
 
+// ===========================
+// CHANGE METRICS
+// ===========================
+
+export const CHANGE_PERIODS = ['24h', '7d', '30d', 'ytd'] as const;
+export type ChangePeriod = typeof CHANGE_PERIODS[number];
+
+export const CHANGE_PERIOD_LABELS: Record<ChangePeriod, string> = {
+  '24h': '24h',
+  '7d': '7d',
+  '30d': '30d',
+  ytd: 'YTD',
+};
+
+// Fixed lookbacks; YTD is measured from 1 January (UTC) of the latest point's year
+export const CHANGE_PERIOD_DAYS: Record<Exclude<ChangePeriod, 'ytd'>, number> = {
+  '24h': 1,
+  '7d': 7,
+  '30d': 30,
+};
+
+export const CHANGE_METRICS = ['buybackValue', 'tokensBought', 'price'] as const;
+export type ChangeMetric = typeof CHANGE_METRICS[number];
+
+export const CHANGE_METRIC_LABELS: Record<ChangeMetric, string> = {
+  buybackValue: 'Buyback Value',
+  tokensBought: 'Tokens Bought',
+  price: 'Price',
+};
+
+// History loaded for change figures: enough to reach 1 January from any day of the year
+export const CHANGE_HISTORY_DAYS = 366;
+
+// ===========================
+// RUN-RATE MODEL
+// ===========================
+
+// Trailing windows, in days, that annualised buyback can be derived from
+export const RUN_RATE_WINDOWS = [7, 30, 90] as const;
+export type RunRateWindow = typeof RUN_RATE_WINDOWS[number];
+
+export const DEFAULT_RUN_RATE_WINDOW: RunRateWindow = 30;
+
+// How an annual buyback figure was obtained
+export const RUN_RATE_METHODS = ['trailing', 'partial', 'reported'] as const;
+export type RunRateMethod = typeof RUN_RATE_METHODS[number];
+
+export const RUN_RATE_METHOD_LABELS: Record<RunRateMethod, string> = {
+  trailing: 'Trailing run-rate',
+  partial: 'Partial-window run-rate',
+  reported: 'Reported estimate',
+};
+
+export const RUN_RATE_CONFIG = {
+  CONFIDENCE_Z: 1.96,        // Two-sided 95% band on the mean daily buyback
+  MIN_OBSERVED_DAYS: 3,      // Fewer stored days than this falls back to the reported estimate
+} as const;
+
+// ===========================
+// MARKET IMPACT
+// ===========================
+
+// Share of 24h trading volume, in percent, above which a day's buyback is flagged
+export const MARKET_IMPACT_THRESHOLDS = [0.5, 1, 2, 5] as const;
+export type MarketImpactThreshold = typeof MARKET_IMPACT_THRESHOLDS[number];
+
+export const DEFAULT_MARKET_IMPACT_THRESHOLD: MarketImpactThreshold = 1;
+
+export const MARKET_IMPACT_CONFIG = {
+  ROLLING_DAYS: 30,          // Trailing window for the average share of volume
+} as const;
+
+// ===========================
+// SUPPLY PROJECTION
+// ===========================
+
+// Months ahead that net circulating supply can be forecast
+export const SUPPLY_PROJECTION_HORIZONS = [12, 24, 36] as const;
+export type SupplyProjectionHorizon = typeof SUPPLY_PROJECTION_HORIZONS[number];
+
+export const DEFAULT_SUPPLY_PROJECTION_HORIZON: SupplyProjectionHorizon = 24;
+
+export const SUPPLY_SCENARIOS = ['bear', 'base', 'bull'] as const;
+export type SupplyScenario = typeof SUPPLY_SCENARIOS[number];
+
+export const SUPPLY_SCENARIO_LABELS: Record<SupplyScenario, string> = {
+  bear: 'Bear',
+  base: 'Base',
+  bull: 'Bull',
+};
+
+// Applied to the trailing buyback run-rate; emissions are the same in every scenario
+export const SUPPLY_SCENARIO_BUYBACK_MULTIPLIERS: Record<SupplyScenario, number> = {
+  bear: 0.5,
+  base: 1,
+  bull: 1.5,
+};
+
+// ===========================
+// EMISSIONS SCHEDULES
+// ===========================
+
+// Schedule files live under public/ and are referenced by path from PROTOCOL_REGISTRY
+export const SCHEDULE_EVENT_TYPES = ['cliff', 'linear', 'recurring'] as const;
+export type ScheduleEventType = typeof SCHEDULE_EVENT_TYPES[number];
+
+export const SCHEDULE_EVENT_LABELS: Record<ScheduleEventType, string> = {
+  cliff: 'Cliff',
+  linear: 'Linear vest',
+  recurring: 'Recurring emission',
+};
+
+export const SCHEDULE_INTERVAL_UNITS = ['day', 'week', 'month'] as const;
+export type ScheduleIntervalUnit = typeof SCHEDULE_INTERVAL_UNITS[number];
+
+export const SCHEDULE_CONFIG = {
+  UPCOMING_DAYS: 30,         // Look-ahead for the "next unlocks" figure
+  MAX_RELEASES: 10000,       // Guards recurring events against runaway release counts
+} as const;
+
+// ===========================
+// FEE ALLOCATION SIMULATOR
+// ===========================
+
+// Slider bounds, in percent; growth and price change are over the simulated year
+export const FEE_SIMULATOR_RANGES = {
+  FEE_ALLOCATION: { min: 0, max: 100, step: 1 },
+  REVENUE_GROWTH: { min: -90, max: 300, step: 5 },
+  PRICE_CHANGE: { min: -90, max: 300, step: 5 },
+} as const;
+
+export const FEE_SIMULATOR_CONFIG = {
+  MONTHS: 12,                // Simulated horizon; growth and price paths compound monthly across it
+  MAX_SAVED_SCENARIOS: 50,   // Oldest saved scenarios are dropped beyond this
+} as const;
+
+// ===========================
+// URL STATE CONFIGURATION
+// ===========================
+
+// Query parameters that mirror the dashboard view; anything else in the URL is left untouched
+export const URL_PARAMS = {
+  PROTOCOL: 'protocol',
+  TIMEFRAME: 'range',
+  SORT_BY: 'sort',
+  SORT_ORDER: 'order',
+  RUN_RATE_WINDOW: 'runrate',
+} as const;
+
+// ===========================
+// LAYOUT CONFIGURATION
+// ===========================
+
+// Widgets an analyst can place on a dashboard workspace
+export const DASHBOARD_WIDGETS = [
+  'globalStats',
+  'chart',
+  'protocolSelector',
+  'comparison',
+  'protocolTable',
+  'bubbleChart',
+  'performanceMetrics',
+  'leaderboards',
+  'marketOverview',
+  'protocolHero',
+  'changes',
+  'valuation',
+  'marketImpact',
+  'supplyProjection',
+  'netFlow',
+  'feeSimulator',
+] as const;
+export type DashboardWidgetId = typeof DASHBOARD_WIDGETS[number];
+
+export const DASHBOARD_WIDGET_TITLES: Record<DashboardWidgetId, string> = {
+  globalStats: 'Global Stats',
+  chart: 'Buyback Chart',
+  protocolSelector: 'Protocol Selector',
+  comparison: 'Protocol Comparison',
+  protocolTable: 'Protocol Rankings',
+  bubbleChart: 'Market Size',
+  performanceMetrics: 'Performance Metrics',
+  leaderboards: 'Leaderboards',
+  marketOverview: 'Market Overview',
+  protocolHero: 'Protocol Spotlight',
+  changes: 'Change Metrics',
+  valuation: 'Valuation Metrics',
+  marketImpact: 'Market Impact',
+  supplyProjection: 'Supply Projection',
+  netFlow: 'Net Token Flow',
+  feeSimulator: 'Fee Allocation Simulator',
+};
+
+// Preset workspaces; each view mode opens its own workspace built from a preset layout
+export const DASHBOARD_VIEW_MODES = ['overview', 'market', 'protocol', 'leaderboards'] as const;
+export type DashboardViewMode = typeof DASHBOARD_VIEW_MODES[number];
+
+export const DASHBOARD_VIEW_MODE_LABELS: Record<DashboardViewMode, string> = {
+  overview: 'Overview',
+  market: 'Market',
+  protocol: 'Protocol Focus',
+  leaderboards: 'Leaderboards',
+};
+
+export const DEFAULT_DASHBOARD_VIEW_MODE: DashboardViewMode = 'overview';
+
+export const LAYOUT_BREAKPOINTS = ['lg', 'md', 'sm', 'xs'] as const;
+export type LayoutBreakpoint = typeof LAYOUT_BREAKPOINTS[number];
+
+export const GRID_CONFIG = {
+  BREAKPOINTS: { lg: 1200, md: 996, sm: 768, xs: 0 } as Record<LayoutBreakpoint, number>,
+  COLUMNS: { lg: 12, md: 10, sm: 6, xs: 2 } as Record<LayoutBreakpoint, number>,
+  ROW_HEIGHT: 40,
+  MARGIN: [16, 16] as [number, number],
+  DRAG_HANDLE_CLASS: 'widget-drag-handle',
+} as const;
+
+export const DEFAULT_WORKSPACE_NAME = 'Default';
+
 // ===========================
 // THEME CONFIGURATION
 // ===========================
 
+// Theme palettes live in ./themes; add brand themes to THEME_REGISTRY there
+export { THEME_REGISTRY, DARK_THEME, LIGHT_THEME } from './themes';
+
+export const SYSTEM_THEME = 'system';
+
+// Semantic colours backed by the active theme's CSS variables (see context/ThemeContext).
+// Use in style props; Recharts SVG props need the resolved values from useChartColors
 export const THEME_COLORS = {
-  BLACK: '#000000',
-  DARK_BLACK: '#0a0a0a',
-  MEDIUM_BLACK: '#0f0f0f',
-  LIGHT_BLACK: '#1a1a1a',
-  ACCENT_BLACK: '#151515',
-  PRIMARY_GREEN: '#00ff87',
-  SECONDARY_GREEN: '#00e67a',
-  WARNING_YELLOW: '#fbbf24',
-  ERROR_RED: '#ef4444',
-  TEXT_PRIMARY: '#ffffff',
-  TEXT_SECONDARY: '#d1d5db',
-  TEXT_MUTED: '#6b7280',
+  BACKGROUND: 'rgb(var(--color-background))',
+  SURFACE: 'rgb(var(--color-surface))',
+  SURFACE_RAISED: 'rgb(var(--color-surface-raised))',
+  SURFACE_HOVER: 'rgb(var(--color-surface-hover))',
+  SURFACE_STRONG: 'rgb(var(--color-surface-strong))',
+  BORDER: 'rgb(var(--color-border))',
+  BORDER_STRONG: 'rgb(var(--color-border-strong))',
+  ACCENT: 'rgb(var(--color-accent))',
+  ACCENT_HOVER: 'rgb(var(--color-accent-hover))',
+  ON_ACCENT: 'rgb(var(--color-on-accent))',
+  WARNING: 'rgb(var(--color-warning))',
+  ERROR: 'rgb(var(--color-error))',
+  SUCCESS: 'rgb(var(--color-success))',
+  TEXT_PRIMARY: 'rgb(var(--color-text-primary))',
+  TEXT_SECONDARY: 'rgb(var(--color-text-secondary))',
+  TEXT_MUTED: 'rgb(var(--color-text-muted))',
 } as const;
 
 // ===========================
@@ -222,4 +510,21 @@ export const NUMBER_FORMATS = {
 // LEGAL DISCLAIMER
 // ===========================
 
-export const LEGAL_DISCLAIMER = `Any references to token purchases are for informational purposes only, and only describe historical activity. This information should not be understood as a commitment to future token purchases for any reason. Any purchases may have the effect of preventing or retarding a decline in the market price of tokens and may stabilize, maintain or otherwise affect the market price of the tokens. As a result, the market price of the tokens may be higher than the price that otherwise might exist. Entities affiliated with the pump platform may purchase or sell tokens from time to time, but are not under no obligation to do so. If any purchases occur in the future, any such activity may be initiated, suspended, modified, or discontinued at any time, with or without notice. No token purchaser, holder or seller should rely on past purchases as an indication of future token purchases.` as const;
\ No newline at end of file
+export const LEGAL_DISCLAIMER = `Any references to token purchases are for informational purposes only, and only describe historical activity. This information should not be understood as a commitment to future token purchases for any reason. Any purchases may have the effect of preventing or retarding a decline in the market price of tokens and may stabilize, maintain or otherwise affect the market price of the tokens. As a result, the market price of the tokens may be higher than the price that otherwise might exist. Entities affiliated with the pump platform may purchase or sell tokens from time to time, but are not under no obligation to do so. If any purchases occur in the future, any such activity may be initiated, suspended, modified, or discontinued at any time, with or without notice. No token purchaser, holder or seller should rely on past purchases as an indication of future token purchases.` as const;
+
+// ===========================
+// USER PREFERENCES
+// ===========================
+
+// Bump when the stored UserPreferences shape changes and add a migration in utils/preferences
+export const PREFERENCES_VERSION = 3;
+
+export const REFRESH_INTERVAL_OPTIONS = [
+  1 * 60 * 1000,   // 1 minute
+  2 * 60 * 1000,   // 2 minutes
+  5 * 60 * 1000,   // 5 minutes
+  15 * 60 * 1000,  // 15 minutes
+  30 * 60 * 1000,  // 30 minutes
+] as const;
+
+export const DEFAULT_REFRESH_INTERVAL = 5 * 60 * 1000;
@@ -0,0 +1,142 @@
+/**
+ * Protocol Registry
+ * Single source of truth for protocol identity; every protocol map in the app derives from this list
+ */
+
+import type { ProtocolRegistryEntry } from '../types';
+
+/**
+ * Keeps literal types for tokens and names while checking each entry's shape
+ */
+const defineRegistry = <T extends readonly ProtocolRegistryEntry[]>(entries: T): T => entries;
+
+export const PROTOCOL_REGISTRY = defineRegistry([
+  {
+    name: 'Hyperliquid',
+    token: 'HYPE',
+    color: '#00D4AA',
+    icon: '🚀',
+    coingeckoId: 'hyperliquid',
+    logoUrls: [
+      'https://s2.coinmarketcap.com/static/img/coins/64x64/29615.png',
+      'https://assets.coingecko.com/coins/images/38481/standard/hyperliquid.png',
+    ],
+    logoGradient: 'from-cyan-400 to-cyan-600',
+    mockPrice: 19.3,
+    baseVolume: 1200000000,
+    dailyActiveUsers: 2400000,
+    treasuryWallets: [
+      {
+        label: 'Assistance Fund',
+        chain: 'Hyperliquid L1',
+        address: '0xfefefefefefefefefefefefefefefefefefefefe',
+        explorerUrl: 'https://app.hyperliquid.xyz/explorer/address/0xfefefefefefefefefefefefefefefefefefefefe',
+      },
+    ],
+    emissionsSchedule: 'schedules/hype.json',
+  },
+  {
+    name: 'Jupiter',
+    token: 'JUP',
+    color: '#FFA500',
+    icon: '🪐',
+    coingeckoId: 'jupiter-exchange-solana',
+    logoUrls: [
+      'https://s2.coinmarketcap.com/static/img/coins/64x64/28932.png',
+      'https://assets.coingecko.com/coins/images/33547/standard/jupiter.png',
+    ],
+    logoGradient: 'from-orange-400 to-orange-600',
+    mockPrice: 0.6,
+    baseVolume: 850000000,
+    dailyActiveUsers: 850000,
+    treasuryWallets: [],
+  },
+  {
+    name: 'Aave',
+    token: 'AAVE',
+    color: '#B6509E',
+    icon: '👻',
+    coingeckoId: 'aave',
+    logoUrls: [
+      'https://s2.coinmarketcap.com/static/img/coins/64x64/7278.png',
+      'https://assets.coingecko.com/coins/images/12645/standard/AAVE.png',
+    ],
+    logoGradient: 'from-purple-400 to-purple-600',
+    mockPrice: 192.0,
+    baseVolume: 45000000,
+    dailyActiveUsers: 180000,
+    treasuryWallets: [
+      {
+        label: 'Aave Collector',
+        chain: 'Ethereum',
+        address: '0x464C71f6c2F760DdA6093dCB91C24c39e5d6e18c',
+        explorerUrl: 'https://etherscan.io/address/0x464C71f6c2F760DdA6093dCB91C24c39e5d6e18c',
+      },
+    ],
+  },
+  {
+    name: 'Jito',
+    token: 'JTO',
+    color: '#FF6B35',
+    icon: '⚡',
+    coingeckoId: 'jito-governance-token',
+    logoUrls: [
+      'https://s2.coinmarketcap.com/static/img/coins/64x64/28541.png',
+      'https://assets.coingecko.com/coins/images/32592/standard/jto.png',
+    ],
+    logoGradient: 'from-orange-500 to-red-500',
+    mockPrice: 5.0,
+    baseVolume: 320000000,
+    dailyActiveUsers: 425000,
+    treasuryWallets: [],
+    emissionsSchedule: 'schedules/jto.csv',
+  },
+  {
+    name: 'Pump.fun',
+    token: 'PUMP',
+    color: '#FF1493',
+    icon: '💎',
+    coingeckoId: 'pump-fun-token',
+    logoUrls: [
+      'https://assets.coingecko.com/coins/images/47629/large/pump.png?1714039066',
+      'https://dd.dexscreener.com/ds-data/tokens/solana/pump.png',
+    ],
+    logoGradient: 'from-pink-500 to-purple-600',
+    mockPrice: 0.165,
+    baseVolume: 180000000,
+    dailyActiveUsers: 320000,
+    treasuryWallets: [],
+  },
+  {
+    name: 'DeBridge',
+    token: 'DBR',
+    color: '#4A90E2',
+    icon: '🌉',
+    coingeckoId: 'debridge',
+    logoUrls: [
+      'https://s2.coinmarketcap.com/static/img/coins/64x64/27804.png',
+      'https://assets.coingecko.com/coins/images/27840/standard/debridge.png',
+    ],
+    logoGradient: 'from-blue-500 to-blue-700',
+    mockPrice: 6.0,
+    baseVolume: 125000000,
+    dailyActiveUsers: 185000,
+    treasuryWallets: [],
+  },
+  {
+    name: 'Fluid',
+    token: 'FLUID',
+    color: '#00BFFF',
+    icon: '💧',
+    coingeckoId: 'fluid-tokens',
+    logoUrls: [
+      'https://s2.coinmarketcap.com/static/img/coins/64x64/3604.png',
+      'https://assets.coingecko.com/coins/images/10393/standard/INST.png',
+    ],
+    logoGradient: 'from-cyan-400 to-blue-500',
+    mockPrice: 6.0,
+    baseVolume: 240000000,
+    dailyActiveUsers: 275000,
+    treasuryWallets: [],
+  },
+] as const);
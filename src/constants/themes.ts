@@ -0,0 +1,122 @@
+/**
+ * Theme Registry
+ * Colour palettes for every theme; components only see the CSS variables these produce
+ */
+
+import type { ThemeColors, ThemeDefinition } from '../types';
+
+const TAILWIND_GRAYS: ThemeColors['gray'] = {
+  50: '#f9fafb',
+  100: '#f3f4f6',
+  200: '#e5e7eb',
+  300: '#d1d5db',
+  400: '#9ca3af',
+  500: '#6b7280',
+  600: '#4b5563',
+  700: '#374151',
+  800: '#1f2937',
+  900: '#111827',
+  950: '#030712',
+};
+
+export const DARK_THEME: ThemeDefinition = {
+  id: 'dark',
+  label: 'Dark',
+  mode: 'dark',
+  colors: {
+    background: '#000000',
+    surface: '#0a0a0a',
+    surfaceRaised: '#0f0f0f',
+    surfaceHover: '#151515',
+    surfaceStrong: '#1a1a1a',
+    border: '#1a1a1a',
+    borderStrong: '#2a2a2a',
+    accent: '#00ff87',
+    accentHover: '#00e67a',
+    onAccent: '#000000',
+    warning: '#fbbf24',
+    error: '#ef4444',
+    success: '#22c55e',
+    textPrimary: '#ffffff',
+    textSecondary: '#d1d5db',
+    textMuted: '#6b7280',
+    chartGrid: '#2a2a2a',
+    chartAxis: '#6b7280',
+    gray: TAILWIND_GRAYS,
+  },
+};
+
+// Components are written against the dark palette, so the gray ramp is mirrored:
+// text-gray-400 stays a secondary text colour and bg-gray-800 stays a subtle fill
+export const LIGHT_THEME: ThemeDefinition = {
+  id: 'light',
+  label: 'Light',
+  mode: 'light',
+  colors: {
+    background: '#f5f6f8',
+    surface: '#ffffff',
+    surfaceRaised: '#ffffff',
+    surfaceHover: '#f3f4f6',
+    surfaceStrong: '#eceef1',
+    border: '#e5e7eb',
+    borderStrong: '#d1d5db',
+    accent: '#059669',
+    accentHover: '#047857',
+    onAccent: '#ffffff',
+    warning: '#d97706',
+    error: '#dc2626',
+    success: '#16a34a',
+    textPrimary: '#111827',
+    textSecondary: '#374151',
+    textMuted: '#6b7280',
+    chartGrid: '#e5e7eb',
+    chartAxis: '#6b7280',
+    gray: {
+      50: TAILWIND_GRAYS[950],
+      100: TAILWIND_GRAYS[900],
+      200: TAILWIND_GRAYS[800],
+      300: TAILWIND_GRAYS[700],
+      400: TAILWIND_GRAYS[600],
+      500: TAILWIND_GRAYS[500],
+      600: TAILWIND_GRAYS[400],
+      700: TAILWIND_GRAYS[300],
+      800: TAILWIND_GRAYS[200],
+      900: TAILWIND_GRAYS[100],
+      950: TAILWIND_GRAYS[50],
+    },
+  },
+};
+
+/**
+ * Derive a brand theme from a built-in one, overriding only the tokens it changes
+ */
+const extendTheme = (
+  base: ThemeDefinition,
+  theme: Pick<ThemeDefinition, 'id' | 'label'> & { colors: Partial<ThemeColors> }
+): ThemeDefinition => ({
+  ...base,
+  ...theme,
+  colors: { ...base.colors, ...theme.colors },
+});
+
+// Add brand themes here, e.g. extendTheme(DARK_THEME, { id: 'acme', label: 'Acme', colors: { accent: '#ff5a1f' } })
+export const THEME_REGISTRY: readonly ThemeDefinition[] = [
+  DARK_THEME,
+  LIGHT_THEME,
+  extendTheme(DARK_THEME, {
+    id: 'midnight',
+    label: 'Midnight',
+    colors: {
+      background: '#05070d',
+      surface: '#0a0f1a',
+      surfaceRaised: '#0e1422',
+      surfaceHover: '#131b2d',
+      surfaceStrong: '#1a2336',
+      border: '#1a2336',
+      borderStrong: '#26324a',
+      accent: '#60a5fa',
+      accentHover: '#3b82f6',
+      chartGrid: '#26324a',
+    },
+  }),
+];
@@ -0,0 +1,66 @@
+/**
+ * Theme Context
+ * Applies the preferred theme as CSS variables and follows prefers-color-scheme until the user picks one
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import { THEME_REGISTRY } from '../constants';
+import { useUserPreferences } from './UserPreferencesContext';
+import { PREFERS_LIGHT_QUERY, applyTheme, resolveTheme } from '../utils/theme';
+import { createError } from '../utils/helpers';
+import type { ThemeDefinition, ThemePreference } from '../types';
+
+interface ThemeContextValue {
+  theme: ThemeDefinition;
+  preference: ThemePreference;
+  themes: readonly ThemeDefinition[];
+  setTheme: (preference: ThemePreference) => void;
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+const getPrefersLight = (): boolean => {
+  return typeof window.matchMedia === 'function' && window.matchMedia(PREFERS_LIGHT_QUERY).matches;
+};
+
+export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { preferences, updatePreferences } = useUserPreferences();
+  const [prefersLight, setPrefersLight] = useState(getPrefersLight);
+
+  useEffect(() => {
+    if (typeof window.matchMedia !== 'function') return;
+    const query = window.matchMedia(PREFERS_LIGHT_QUERY);
+    const handleChange = (event: MediaQueryListEvent) => setPrefersLight(event.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  const theme = useMemo(
+    () => resolveTheme(preferences.theme, prefersLight),
+    [preferences.theme, prefersLight]
+  );
+
+  // Before paint, so switching themes never flashes the previous palette
+  useLayoutEffect(() => {
+    applyTheme(theme);
+  }, [theme]);
+
+  const setTheme = useCallback((preference: ThemePreference) => {
+    updatePreferences({ theme: preference });
+  }, [updatePreferences]);
+
+  const value = useMemo(
+    () => ({ theme, preference: preferences.theme, themes: THEME_REGISTRY, setTheme }),
+    [theme, preferences.theme, setTheme]
+  );
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
+
+export const useTheme = (): ThemeContextValue => {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw createError('useTheme must be used within a ThemeProvider', 'VALIDATION_ERROR');
+  }
+  return context;
+};
@@ -0,0 +1,60 @@
+/**
+ * User Preferences Context
+ * Loads stored preferences once, shares them across the app and persists every change
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  DEFAULT_USER_PREFERENCES,
+  loadUserPreferences,
+  saveUserPreferences
+} from '../utils/preferences';
+import { createError } from '../utils/helpers';
+import type { UserPreferences } from '../types';
+
+type PreferencesUpdate = Partial<UserPreferences> | ((current: UserPreferences) => Partial<UserPreferences>);
+
+interface UserPreferencesContextValue {
+  preferences: UserPreferences;
+  updatePreferences: (update: PreferencesUpdate) => void;
+  resetPreferences: () => void;
+}
+
+const UserPreferencesContext = createContext<UserPreferencesContextValue | null>(null);
+
+export const UserPreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [preferences, setPreferences] = useState<UserPreferences>(loadUserPreferences);
+
+  useEffect(() => {
+    saveUserPreferences(preferences);
+  }, [preferences]);
+
+  const updatePreferences = useCallback((update: PreferencesUpdate) => {
+    setPreferences(prev => ({ ...prev, ...(typeof update === 'function' ? update(prev) : update) }));
+  }, []);
+
+  // Workspaces and saved fee scenarios are user-made content rather than settings, so a reset keeps them
+  const resetPreferences = useCallback(() => {
+    setPreferences(prev => ({
+      ...DEFAULT_USER_PREFERENCES,
+      workspaces: prev.workspaces,
+      activeWorkspace: prev.activeWorkspace,
+      feeScenarios: prev.feeScenarios,
+    }));
+  }, []);
+
+  const value = useMemo(
+    () => ({ preferences, updatePreferences, resetPreferences }),
+    [preferences, updatePreferences, resetPreferences]
+  );
+
+  return <UserPreferencesContext.Provider value={value}>{children}</UserPreferencesContext.Provider>;
+};
+
+export const useUserPreferences = (): UserPreferencesContextValue => {
+  const context = useContext(UserPreferencesContext);
+  if (!context) {
+    throw createError('useUserPreferences must be used within a UserPreferencesProvider', 'VALIDATION_ERROR');
+  }
+  return context;
+};
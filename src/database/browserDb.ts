@@ -1,6 +1,22 @@
-// Browser-compatible database service using localStorage
+// Browser-compatible database service backed by IndexedDB
 // This replaces better-sqlite3 for client-side storage
 
+import { generateScenario } from '../scenarios';
+import type { ScenarioOptions } from '../scenarios';
+import { EXPECTED_PROTOCOL_COUNT } from '../constants';
+import type { BuybackTrendPoint, HistoricalDataPoint, ProtocolPerformance, SnapshotSource } from '../types';
+import {
+  openDatabase,
+  getAllInRange,
+  putAll,
+  deleteInRange,
+  deleteWhere,
+  getUniqueKeys,
+  getLastInRange
+} from './indexedDb';
+import { STORES, INDEXES, LEGACY_STORAGE_KEYS } from './schema';
+import type { StoreName } from './schema';
+
 export interface BuybackRecord {
   id?: number;
   protocol: string;
@@ -14,6 +30,7 @@ export interface BuybackRecord {
   price_per_token: number;
   trading_volume_24h?: number;
   fee_generation_24h?: number;
+  source?: SnapshotSource;
 }
 
 export interface HistoricalChart {
@@ -24,12 +41,21 @@ export interface HistoricalChart {
   tokens_amount: number;
   cumulative_value: number;
   cumulative_tokens: number;
+  source?: SnapshotSource;
 }
 
+// Highest timestamp string for a protocol; ISO timestamps sort lexically
+const TIMESTAMP_MAX = '\uffff';
+
+const getCutoffTimestamp = (days: number): string => {
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - days);
+  return cutoffDate.toISOString();
+};
+
 export class DatabaseService {
   private static instance: DatabaseService;
-  private readonly BUYBACK_KEY = 'buyback_records';
-  private readonly HISTORICAL_KEY = 'historical_charts';
+  private ready: Promise<IDBDatabase>;
 
   public static getInstance(): DatabaseService {
     if (!DatabaseService.instance) {
@@ -39,232 +65,207 @@ export class DatabaseService {
   }
 
   constructor() {
-    this.initializeWithSampleData();
+    this.ready = openDatabase().then(async db => {
+      await this.importLegacyData(db);
+      await this.initializeWithSampleData(db);
+      return db;
+    });
+    this.ready.catch(error => console.error('Failed to initialise database:', error));
+  }
+
+  /**
+   * Replace generated sample rows with a fresh default dataset; live snapshots are kept
+   */
+  public async regenerateSampleData(): Promise<void> {
+    const db = await this.ready;
+    await this.deleteSampleRows(db);
+    await this.generateSampleData(db);
   }
 
-  public forceRefresh(): void {
-    // Clear existing data and regenerate
-    localStorage.removeItem(this.BUYBACK_KEY);
-    localStorage.removeItem(this.HISTORICAL_KEY);
-    this.generateSampleData();
+  private async deleteSampleRows(db: IDBDatabase): Promise<void> {
+    const isSample = (row: { source?: SnapshotSource }) => row.source === 'sample';
+    await Promise.all([
+      deleteWhere<BuybackRecord>(db, STORES.BUYBACK_RECORDS, isSample),
+      deleteWhere<HistoricalChart>(db, STORES.HISTORICAL_CHARTS, isSample),
+      deleteWhere<HistoricalDataPoint>(db, STORES.PRICE_HISTORY, isSample)
+    ]);
   }
 
-  private initializeWithSampleData(): void {
-    // Check if data already exists
-    const existingBuyback = localStorage.getItem(this.BUYBACK_KEY);
-    const existingHistorical = localStorage.getItem(this.HISTORICAL_KEY);
-    
-    // Check if we have the correct number of protocols (should be 7)
-    let needsRefresh = false;
-    if (existingBuyback) {
+  /**
+   * One-time import of the JSON arrays the localStorage backend used to keep
+   */
+  private async importLegacyData(db: IDBDatabase): Promise<void> {
+    const storeNames = Object.keys(LEGACY_STORAGE_KEYS) as StoreName[];
+
+    for (const storeName of storeNames) {
+      const key = LEGACY_STORAGE_KEYS[storeName];
+      const legacy = localStorage.getItem(key);
+      if (!legacy) continue;
+
+      // The legacy copy is only removed once its rows are in IndexedDB; a failed import retries next load
       try {
-        const data = JSON.parse(existingBuyback);
-        const uniqueProtocols = new Set(data.map((item: any) => item.protocol));
-        if (uniqueProtocols.size < 7) {
-          needsRefresh = true;
+        const records = JSON.parse(legacy);
+        if (!Array.isArray(records)) {
+          console.warn(`Skipping unreadable legacy ${storeName} data: expected an array`);
+          continue;
+        }
+        if (records.length > 0) {
+          await putAll(db, storeName, records);
+          console.log(`📦 Imported ${records.length} ${storeName} rows from localStorage`);
         }
+        localStorage.removeItem(key);
       } catch (e) {
-        needsRefresh = true;
+        console.warn(`Keeping legacy ${storeName} data after a failed import:`, e);
       }
     }
-    
-    if (!existingBuyback || !existingHistorical || needsRefresh) {
-      this.generateSampleData();
-    }
   }
 
-  private generateSampleData(): void {
-    const protocols = [
-      { name: 'Hyperliquid', token: 'HYPE', basePrice: 19.3, baseVolume: 1200000000 },
-      { name: 'Jupiter', token: 'JUP', basePrice: 0.6, baseVolume: 850000000 },
-      { name: 'Aave', token: 'AAVE', basePrice: 192, baseVolume: 45000000 },
-      { name: 'Jito', token: 'JTO', basePrice: 5.0, baseVolume: 320000000 },
-      { name: 'Pump.fun', token: 'PUMP', basePrice: 0.165, baseVolume: 180000000 },
-      { name: 'DeBridge', token: 'DBR', basePrice: 6.0, baseVolume: 125000000 },
-      { name: 'Fluid', token: 'FLUID', basePrice: 6.0, baseVolume: 240000000 }
-    ];
-
-    const buybackRecords: BuybackRecord[] = [];
-    const historicalCharts: HistoricalChart[] = [];
-    
-    const now = new Date();
-    let cumulativeData: { [key: string]: { value: number; tokens: number } } = {
-      'Hyperliquid': { value: 350000000, tokens: 18000000 },
-      'Jupiter': { value: 24000000, tokens: 42000000 },
-      'Aave': { value: 20000000, tokens: 115000 },
-      'Jito': { value: 35000000, tokens: 7500000 },
-      'Pump.fun': { value: 20000000, tokens: 125000000 },
-      'DeBridge': { value: 12000000, tokens: 2200000 },
-      'Fluid': { value: 28000000, tokens: 4800000 }
-    };
-
-    for (let i = 30; i >= 0; i--) {
-      const date = new Date(now);
-      date.setDate(date.getDate() - i);
-      const timestamp = date.toISOString();
-
-      protocols.forEach(protocol => {
-        // Generate realistic variance
-        const priceVariance = 0.9 + Math.random() * 0.2;
-        const volumeVariance = 0.8 + Math.random() * 0.4;
-        const price = protocol.basePrice * priceVariance;
-        const volume = protocol.baseVolume * volumeVariance;
-        
-        // Calculate buyback amounts
-        let feePercent, dailyBuybackUSD, dailyTokens;
-        
-        if (protocol.name === 'Hyperliquid') {
-          feePercent = 97;
-          dailyBuybackUSD = (volume * 0.0002 * 0.97);
-          dailyTokens = dailyBuybackUSD / price;
-        } else if (protocol.name === 'Jupiter') {
-          feePercent = 50;
-          dailyBuybackUSD = (volume * 0.0001 * 0.5);
-          dailyTokens = dailyBuybackUSD / price;
-        } else if (protocol.name === 'Jito') {
-          feePercent = 75;
-          dailyBuybackUSD = (volume * 0.00015 * 0.75);
-          dailyTokens = dailyBuybackUSD / price;
-        } else if (protocol.name === 'Pump.fun') {
-          feePercent = 95;
-          dailyBuybackUSD = (volume * 0.0003 * 0.95);
-          dailyTokens = dailyBuybackUSD / price;
-        } else if (protocol.name === 'DeBridge') {
-          feePercent = 60;
-          dailyBuybackUSD = (volume * 0.0001 * 0.6);
-          dailyTokens = dailyBuybackUSD / price;
-        } else if (protocol.name === 'Fluid') {
-          feePercent = 80;
-          dailyBuybackUSD = (volume * 0.00012 * 0.8);
-          dailyTokens = dailyBuybackUSD / price;
-        } else { // Aave
-          feePercent = 100;
-          dailyBuybackUSD = Math.min(1000000 / 7, volume * 0.0004);
-          dailyTokens = dailyBuybackUSD / price;
-        }
+  private async initializeWithSampleData(db: IDBDatabase): Promise<void> {
+    // Check if we have every protocol in the registry
+    const [buybackProtocols, historicalProtocols] = await Promise.all([
+      getUniqueKeys(db, STORES.BUYBACK_RECORDS, INDEXES.PROTOCOL),
+      getUniqueKeys(db, STORES.HISTORICAL_CHARTS, INDEXES.PROTOCOL)
+    ]);
 
-        // Update cumulative data
-        cumulativeData[protocol.name].value += dailyBuybackUSD;
-        cumulativeData[protocol.name].tokens += dailyTokens;
-
-        // Add buyback record
-        buybackRecords.push({
-          id: buybackRecords.length + 1,
-          protocol: protocol.name,
-          token: protocol.token,
-          timestamp,
-          total_repurchased: cumulativeData[protocol.name].tokens,
-          total_value_usd: cumulativeData[protocol.name].value,
-          circulating_supply_percent: protocol.name === 'Hyperliquid' ? 6.2 : protocol.name === 'Jupiter' ? 3.6 : protocol.name === 'Jito' ? 2.1 : protocol.name === 'Pump.fun' ? 0.445 : protocol.name === 'DeBridge' ? 1.5 : protocol.name === 'Fluid' ? 3.2 : 0.8,
-          estimated_annual_buyback: protocol.name === 'Hyperliquid' ? 600000000 : protocol.name === 'Jupiter' ? 250000000 : protocol.name === 'Jito' ? 180000000 : protocol.name === 'Pump.fun' ? 75000000 : protocol.name === 'DeBridge' ? 45000000 : protocol.name === 'Fluid' ? 95000000 : 52000000,
-          fee_allocation_percent: feePercent,
-          price_per_token: price,
-          trading_volume_24h: volume,
-          fee_generation_24h: volume * 0.0002
-        });
-
-        // Add historical chart data
-        historicalCharts.push({
-          id: historicalCharts.length + 1,
-          protocol: protocol.name,
-          timestamp,
-          value_usd: dailyBuybackUSD,
-          tokens_amount: dailyTokens,
-          cumulative_value: cumulativeData[protocol.name].value,
-          cumulative_tokens: cumulativeData[protocol.name].tokens
-        });
-      });
+    if (buybackProtocols.length < EXPECTED_PROTOCOL_COUNT || historicalProtocols.length === 0) {
+      await this.generateSampleData(db);
     }
+  }
+
+  private async generateSampleData(db: IDBDatabase, options?: ScenarioOptions): Promise<void> {
+    const dataset = generateScenario(options);
 
-    localStorage.setItem(this.BUYBACK_KEY, JSON.stringify(buybackRecords));
-    localStorage.setItem(this.HISTORICAL_KEY, JSON.stringify(historicalCharts));
+    await Promise.all([
+      putAll(db, STORES.BUYBACK_RECORDS, dataset.buybackRecords),
+      putAll(db, STORES.HISTORICAL_CHARTS, dataset.historicalCharts),
+      putAll(db, STORES.PRICE_HISTORY, dataset.prices)
+    ]);
+  }
+
+  /**
+   * Replace stored sample history with a seeded scenario; queued ahead of any pending reads
+   */
+  public loadScenario(options: ScenarioOptions): Promise<void> {
+    this.ready = this.ready.then(async db => {
+      await this.deleteSampleRows(db);
+      await this.generateSampleData(db, options);
+      return db;
+    });
+    return this.ready.then(() => undefined);
   }
 
-  // Insert buyback record
-  insertBuybackRecord(record: BuybackRecord): number {
-    const records = this.getBuybackRecords();
-    const newId = Math.max(...records.map(r => r.id || 0), 0) + 1;
-    record.id = newId;
-    records.push(record);
-    localStorage.setItem(this.BUYBACK_KEY, JSON.stringify(records));
-    return newId;
+  // Insert buyback record; a record with an existing id replaces it
+  async insertBuybackRecord(record: BuybackRecord): Promise<number> {
+    const db = await this.ready;
+    const [id] = await putAll(db, STORES.BUYBACK_RECORDS, [record]);
+    record.id = id as number;
+    return record.id;
   }
 
-  // Insert historical chart data
-  insertHistoricalData(data: HistoricalChart): number {
-    const records = this.getHistoricalRecords();
-    const newId = Math.max(...records.map(r => r.id || 0), 0) + 1;
-    data.id = newId;
-    records.push(data);
-    localStorage.setItem(this.HISTORICAL_KEY, JSON.stringify(records));
-    return newId;
+  // Insert historical chart data; a row with an existing id replaces it
+  async insertHistoricalData(data: HistoricalChart): Promise<number> {
+    const db = await this.ready;
+    const [id] = await putAll(db, STORES.HISTORICAL_CHARTS, [data]);
+    data.id = id as number;
+    return data.id;
   }
 
-  private getBuybackRecords(): BuybackRecord[] {
-    const data = localStorage.getItem(this.BUYBACK_KEY);
-    return data ? JSON.parse(data) : [];
+  // Insert or replace market history points, keyed by protocol and timestamp
+  async upsertPriceHistory(points: HistoricalDataPoint[]): Promise<number> {
+    const db = await this.ready;
+    await putAll(db, STORES.PRICE_HISTORY, points);
+    return points.length;
   }
 
-  private getHistoricalRecords(): HistoricalChart[] {
-    const data = localStorage.getItem(this.HISTORICAL_KEY);
-    return data ? JSON.parse(data) : [];
+  // Records for one protocol (or all protocols) newer than a cutoff, oldest first
+  private async getRecordsSince<T>(storeName: StoreName, protocol: string | undefined, days: number): Promise<T[]> {
+    const db = await this.ready;
+    const cutoff = getCutoffTimestamp(days);
+
+    if (protocol) {
+      const range = IDBKeyRange.bound([protocol, cutoff], [protocol, TIMESTAMP_MAX]);
+      return getAllInRange<T>(db, storeName, INDEXES.PROTOCOL_TIMESTAMP, range);
+    }
+    return getAllInRange<T>(db, storeName, INDEXES.TIMESTAMP, IDBKeyRange.lowerBound(cutoff));
   }
 
   // Get latest buyback data for all protocols
-  getLatestBuybackData(): BuybackRecord[] {
-    const records = this.getBuybackRecords();
-    const latestByProtocol: { [protocol: string]: BuybackRecord } = {};
-    
-    records.forEach(record => {
-      if (!latestByProtocol[record.protocol] || 
-          new Date(record.timestamp) > new Date(latestByProtocol[record.protocol].timestamp)) {
-        latestByProtocol[record.protocol] = record;
-      }
-    });
+  async getLatestBuybackData(): Promise<BuybackRecord[]> {
+    const db = await this.ready;
+    const protocols = await getUniqueKeys(db, STORES.BUYBACK_RECORDS, INDEXES.PROTOCOL);
 
-    return Object.values(latestByProtocol);
+    const latest = await Promise.all(protocols.map(protocol =>
+      getLastInRange<BuybackRecord>(
+        db,
+        STORES.BUYBACK_RECORDS,
+        INDEXES.PROTOCOL_TIMESTAMP,
+        IDBKeyRange.bound([protocol, ''], [protocol, TIMESTAMP_MAX])
+      )
+    ));
+
+    return latest.filter((record): record is BuybackRecord => record !== undefined);
+  }
+
+  // Most recent record for a protocol, optionally strictly before a timestamp
+  private async getLatestRecord<T>(storeName: StoreName, protocol: string, before?: string): Promise<T | undefined> {
+    const db = await this.ready;
+    const range = before
+      ? IDBKeyRange.bound([protocol, ''], [protocol, before], false, true)
+      : IDBKeyRange.bound([protocol, ''], [protocol, TIMESTAMP_MAX]);
+    return getLastInRange<T>(db, storeName, INDEXES.PROTOCOL_TIMESTAMP, range);
+  }
+
+  getLatestBuybackRecord(protocol: string, before?: string): Promise<BuybackRecord | undefined> {
+    return this.getLatestRecord<BuybackRecord>(STORES.BUYBACK_RECORDS, protocol, before);
+  }
+
+  getLatestHistoricalRecord(protocol: string, before?: string): Promise<HistoricalChart | undefined> {
+    return this.getLatestRecord<HistoricalChart>(STORES.HISTORICAL_CHARTS, protocol, before);
+  }
+
+  // Newest live snapshot for a protocol at or before a timestamp (by default, the newest overall)
+  async getLatestLiveHistoricalRecord(protocol: string, atOrBefore: string = TIMESTAMP_MAX): Promise<HistoricalChart | undefined> {
+    const db = await this.ready;
+    return getLastInRange<HistoricalChart>(
+      db,
+      STORES.HISTORICAL_CHARTS,
+      INDEXES.PROTOCOL_TIMESTAMP,
+      IDBKeyRange.bound([protocol, ''], [protocol, atOrBefore]),
+      row => row.source === 'live'
+    );
   }
 
   // Get historical data for charts
-  getHistoricalData(protocol?: string, days: number = 30): HistoricalChart[] {
-    const records = this.getHistoricalRecords();
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - days);
-    
-    return records.filter(record => {
-      const recordDate = new Date(record.timestamp);
-      const matchesProtocol = !protocol || record.protocol === protocol;
-      const withinTimeframe = recordDate >= cutoffDate;
-      return matchesProtocol && withinTimeframe;
-    }).sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  getHistoricalData(protocol?: string, days: number = 30): Promise<HistoricalChart[]> {
+    return this.getRecordsSince<HistoricalChart>(STORES.HISTORICAL_CHARTS, protocol, days);
+  }
+
+  // Get stored market history (price, volume, market cap)
+  getPriceHistory(protocol?: string, days: number = 30): Promise<HistoricalDataPoint[]> {
+    return this.getRecordsSince<HistoricalDataPoint>(STORES.PRICE_HISTORY, protocol, days);
   }
 
   // Get buyback trends
-  getBuybackTrends(protocol: string, days: number = 30): any[] {
-    const records = this.getBuybackRecords();
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - days);
-    
-    return records
-      .filter(record => {
-        const recordDate = new Date(record.timestamp);
-        return record.protocol === protocol && recordDate >= cutoffDate;
-      })
-      .map(record => ({
-        timestamp: record.timestamp,
-        total_value_usd: record.total_value_usd,
-        total_repurchased: record.total_repurchased,
-        price_per_token: record.price_per_token,
-        trading_volume_24h: record.trading_volume_24h
-      }))
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  async getBuybackTrends(protocol: string, days: number = 30): Promise<BuybackTrendPoint[]> {
+    const records = await this.getRecordsSince<BuybackRecord>(STORES.BUYBACK_RECORDS, protocol, days);
+
+    return records.map(record => ({
+      timestamp: record.timestamp,
+      total_value_usd: record.total_value_usd,
+      total_repurchased: record.total_repurchased,
+      price_per_token: record.price_per_token,
+      trading_volume_24h: record.trading_volume_24h,
+      estimated_annual_buyback: record.estimated_annual_buyback,
+      fee_generation_24h: record.fee_generation_24h
+    }));
   }
 
   // Get performance metrics
-  getPerformanceMetrics(): any[] {
-    const records = this.getBuybackRecords();
+  async getPerformanceMetrics(): Promise<ProtocolPerformance[]> {
+    const db = await this.ready;
+    const records = await getAllInRange<BuybackRecord>(db, STORES.BUYBACK_RECORDS, null);
     const metricsByProtocol: { [protocol: string]: any } = {};
-    
+
     records.forEach(record => {
       if (!metricsByProtocol[record.protocol]) {
         metricsByProtocol[record.protocol] = {
@@ -275,7 +276,7 @@ export class DatabaseService {
           supply_reductions: []
         };
       }
-      
+
       const metrics = metricsByProtocol[record.protocol];
       metrics.data_points++;
       metrics.total_value += record.total_value_usd;
@@ -294,29 +295,22 @@ export class DatabaseService {
   }
 
   // Clean old data (keep last 90 days)
-  cleanOldData(): number {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - 90);
-    
-    const buybackRecords = this.getBuybackRecords();
-    const historicalRecords = this.getHistoricalRecords();
-    
-    const filteredBuyback = buybackRecords.filter(record => 
-      new Date(record.timestamp) >= cutoffDate
-    );
-    const filteredHistorical = historicalRecords.filter(record => 
-      new Date(record.timestamp) >= cutoffDate
-    );
-    
-    localStorage.setItem(this.BUYBACK_KEY, JSON.stringify(filteredBuyback));
-    localStorage.setItem(this.HISTORICAL_KEY, JSON.stringify(filteredHistorical));
-    
-    return (buybackRecords.length - filteredBuyback.length) + 
-           (historicalRecords.length - filteredHistorical.length);
+  async cleanOldData(): Promise<number> {
+    const db = await this.ready;
+    const expired = IDBKeyRange.upperBound(getCutoffTimestamp(90), true);
+
+    const removed = await Promise.all([
+      deleteInRange(db, STORES.BUYBACK_RECORDS, INDEXES.TIMESTAMP, expired),
+      deleteInRange(db, STORES.HISTORICAL_CHARTS, INDEXES.TIMESTAMP, expired),
+      deleteInRange(db, STORES.PRICE_HISTORY, INDEXES.TIMESTAMP, expired)
+    ]);
+
+    return removed.reduce((sum, count) => sum + count, 0);
   }
 
-  // Close database connection (no-op for localStorage)
-  close(): void {
-    // No-op for localStorage implementation
+  // Close database connection
+  async close(): Promise<void> {
+    const db = await this.ready;
+    db.close();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,188 @@
+/**
+ * IndexedDB Helpers
+ * Promise wrappers around the raw IndexedDB API used by DatabaseService
+ */
+
+import { createError } from '../utils/helpers';
+import { DB_NAME, DB_VERSION, MIGRATIONS } from './schema';
+import type { StoreName } from './schema';
+
+const toDatabaseError = (message: string, error?: DOMException | null): Error => {
+  return createError(`${message}${error ? `: ${error.message}` : ''}`, 'DATABASE_ERROR');
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toDatabaseError('IndexedDB request failed', request.error));
+  });
+};
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(toDatabaseError('IndexedDB transaction failed', transaction.error));
+    transaction.onabort = () => reject(toDatabaseError('IndexedDB transaction aborted', transaction.error));
+  });
+};
+
+/**
+ * Open the dashboard database, running every migration between the stored and current version
+ */
+export const openDatabase = (
+  name: string = DB_NAME,
+  version: number = DB_VERSION
+): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(createError('IndexedDB is not available in this environment', 'DATABASE_ERROR'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction as IDBTransaction;
+      for (let v = event.oldVersion; v < version; v++) {
+        console.log(`🗄️ Migrating database to v${v + 1}`);
+        MIGRATIONS[v](db, transaction);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let another tab's upgrade go ahead instead of blocking it; this tab's connection ends
+      db.onversionchange = () => {
+        db.close();
+        console.warn('🗄️ Database closed for an upgrade in another tab; reload to reconnect');
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(toDatabaseError('Failed to open database', request.error));
+    // Another tab still holds the old version; the open completes once it closes its connection
+    request.onblocked = () => console.warn('🗄️ Database upgrade waiting for other open tabs to close');
+  });
+};
+
+/**
+ * Collect every value from an index (or store) within a key range
+ */
+export const getAllInRange = <T>(
+  db: IDBDatabase,
+  storeName: StoreName,
+  indexName: string | null,
+  range?: IDBKeyRange
+): Promise<T[]> => {
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  const source = indexName ? store.index(indexName) : store;
+  return requestToPromise(source.getAll(range)) as Promise<T[]>;
+};
+
+/**
+ * Write records in one transaction; put replaces records with the same key
+ */
+export const putAll = async <T>(db: IDBDatabase, storeName: StoreName, records: T[]): Promise<IDBValidKey[]> => {
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  const keys = records.map(record => requestToPromise(store.put(record)));
+  const [written] = await Promise.all([Promise.all(keys), transactionDone(transaction)]);
+  return written;
+};
+
+/**
+ * Delete every record whose indexed key falls within a range; returns the number removed
+ */
+export const deleteInRange = (
+  db: IDBDatabase,
+  storeName: StoreName,
+  indexName: string,
+  range: IDBKeyRange
+): Promise<number> => {
+  const transaction = db.transaction(storeName, 'readwrite');
+  const cursorRequest = transaction.objectStore(storeName).index(indexName).openCursor(range);
+  let deleted = 0;
+
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      cursor.delete();
+      deleted++;
+      cursor.continue();
+    }
+  };
+
+  return transactionDone(transaction).then(() => deleted);
+};
+
+/**
+ * Delete every record in a store that matches a predicate; returns the number removed
+ */
+export const deleteWhere = <T>(
+  db: IDBDatabase,
+  storeName: StoreName,
+  predicate: (record: T) => boolean
+): Promise<number> => {
+  const transaction = db.transaction(storeName, 'readwrite');
+  const cursorRequest = transaction.objectStore(storeName).openCursor();
+  let deleted = 0;
+
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      if (predicate(cursor.value as T)) {
+        cursor.delete();
+        deleted++;
+      }
+      cursor.continue();
+    }
+  };
+
+  return transactionDone(transaction).then(() => deleted);
+};
+
+/**
+ * Distinct keys of an index, e.g. every protocol with at least one record
+ */
+export const getUniqueKeys = (db: IDBDatabase, storeName: StoreName, indexName: string): Promise<IDBValidKey[]> => {
+  const transaction = db.transaction(storeName, 'readonly');
+  const cursorRequest = transaction.objectStore(storeName).index(indexName).openKeyCursor(null, 'nextunique');
+  const keys: IDBValidKey[] = [];
+
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      keys.push(cursor.key);
+      cursor.continue();
+    }
+  };
+
+  return transactionDone(transaction).then(() => keys);
+};
+
+/**
+ * Last record in index order within a range, e.g. the newest snapshot for one protocol.
+ * With a predicate, the last record that matches it.
+ */
+export const getLastInRange = <T>(
+  db: IDBDatabase,
+  storeName: StoreName,
+  indexName: string,
+  range: IDBKeyRange,
+  predicate?: (record: T) => boolean
+): Promise<T | undefined> => {
+  const transaction = db.transaction(storeName, 'readonly');
+  const cursorRequest = transaction.objectStore(storeName).index(indexName).openCursor(range, 'prev');
+  let last: T | undefined;
+
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    if (!predicate || predicate(cursor.value as T)) {
+      last = cursor.value as T;
+      return;
+    }
+    cursor.continue();
+  };
+
+  return transactionDone(transaction).then(() => last);
+};
@@ -0,0 +1,54 @@
+/**
+ * Database Schema
+ * IndexedDB store definitions and the migrations that build each schema version
+ */
+
+export const DB_NAME = 'dao_buyback_dashboard';
+
+export const STORES = {
+  BUYBACK_RECORDS: 'buyback_records',
+  HISTORICAL_CHARTS: 'historical_charts',
+  PRICE_HISTORY: 'price_history',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+export const INDEXES = {
+  PROTOCOL: 'protocol',
+  TIMESTAMP: 'timestamp',
+  PROTOCOL_TIMESTAMP: 'protocol_timestamp',
+} as const;
+
+/**
+ * Legacy localStorage keys imported once into IndexedDB
+ */
+export const LEGACY_STORAGE_KEYS: Record<StoreName, string> = {
+  [STORES.BUYBACK_RECORDS]: 'buyback_records',
+  [STORES.HISTORICAL_CHARTS]: 'historical_charts',
+  [STORES.PRICE_HISTORY]: 'price_history',
+};
+
+export type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+const createTimeSeriesIndexes = (store: IDBObjectStore): void => {
+  store.createIndex(INDEXES.PROTOCOL, 'protocol', { unique: false });
+  store.createIndex(INDEXES.TIMESTAMP, 'timestamp', { unique: false });
+  store.createIndex(INDEXES.PROTOCOL_TIMESTAMP, ['protocol', 'timestamp'], { unique: false });
+};
+
+/**
+ * Migration for each schema version; index N upgrades a database from version N to N + 1
+ */
+export const MIGRATIONS: Migration[] = [
+  // v1: buyback snapshots and per-day chart rows
+  (db) => {
+    createTimeSeriesIndexes(db.createObjectStore(STORES.BUYBACK_RECORDS, { keyPath: 'id', autoIncrement: true }));
+    createTimeSeriesIndexes(db.createObjectStore(STORES.HISTORICAL_CHARTS, { keyPath: 'id', autoIncrement: true }));
+  },
+  // v2: CoinGecko market history, one row per protocol and timestamp
+  (db) => {
+    createTimeSeriesIndexes(db.createObjectStore(STORES.PRICE_HISTORY, { keyPath: ['protocol', 'timestamp'] }));
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
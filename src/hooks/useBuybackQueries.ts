@@ -0,0 +1,118 @@
+/**
+ * Buyback Queries
+ * OptimizedDataService reads exposed as shared, cached and polled queries
+ */
+
+import { OptimizedDataService } from '../services/optimizedDataService';
+import { PROTOCOL_TOKENS } from '../constants';
+import { createCacheKey } from '../utils/helpers';
+import { useQuery } from './useQuery';
+import type { UseQueryOptions, UseQueryResult } from './useQuery';
+import type {
+  BuybackData,
+  BuybackTrendPoint,
+  HistoricalDataPoint,
+  ProtocolPerformance,
+  ProtocolRevenue,
+  ProtocolToken,
+  TokenMarketData,
+  TokenSchedule
+} from '../types';
+
+const ALL_PROTOCOLS = 'all';
+
+const getService = (): OptimizedDataService => OptimizedDataService.getInstance();
+
+export const useBuybackData = (): UseQueryResult<BuybackData[]> => {
+  return useQuery(createCacheKey('buybackData', ALL_PROTOCOLS), () => getService().getAllBuybackData());
+};
+
+export const useProtocolBuybackData = (token: ProtocolToken): UseQueryResult<BuybackData> => {
+  return useQuery(createCacheKey('buybackData', token), () => getService().getBuybackData(token));
+};
+
+/**
+ * Cumulative buyback history; without a protocol every protocol's rows are returned in long format
+ */
+export const useHistoricalData = (
+  protocol: string | undefined,
+  days: number,
+  options?: UseQueryOptions
+): UseQueryResult<HistoricalDataPoint[]> => {
+  return useQuery(
+    createCacheKey('historical', protocol || ALL_PROTOCOLS, days),
+    (): Promise<HistoricalDataPoint[]> => getService().getHistoricalChartData(protocol, days),
+    options
+  );
+};
+
+/**
+ * Current price of every protocol token, keyed by token
+ */
+export const useTokenPrices = (): UseQueryResult<Record<string, number>> => {
+  return useQuery(createCacheKey('prices', ALL_PROTOCOLS), () => getService().getTokenPrices([...PROTOCOL_TOKENS]));
+};
+
+export const usePerformanceMetrics = (): UseQueryResult<ProtocolPerformance[]> => {
+  return useQuery(createCacheKey('performance', ALL_PROTOCOLS), () => getService().getPerformanceMetrics());
+};
+
+/**
+ * Cumulative buyback snapshots for one protocol; idle until a token is known
+ */
+export const useBuybackTrends = (
+  token: ProtocolToken | undefined,
+  days: number
+): UseQueryResult<BuybackTrendPoint[]> => {
+  return useQuery(
+    createCacheKey('trends', token || 'none', days),
+    () => token ? getService().getBuybackTrends(token, days) : Promise.resolve([]),
+    { enabled: token !== undefined }
+  );
+};
+
+/**
+ * Market price history; idle until a token is known
+ */
+export const usePriceHistory = (
+  token: ProtocolToken | undefined,
+  days: number
+): UseQueryResult<HistoricalDataPoint[]> => {
+  return useQuery(
+    createCacheKey('priceHistory', token || 'none', days),
+    () => token ? getService().getPriceHistory(token, days) : Promise.resolve([]),
+    { enabled: token !== undefined }
+  );
+};
+
+/**
+ * Current market cap, FDV, circulating supply and volume for every protocol token
+ */
+export const useMarketData = (): UseQueryResult<TokenMarketData[]> => {
+  return useQuery(createCacheKey('marketData', ALL_PROTOCOLS), () => getService().getMarketData());
+};
+
+/**
+ * USD repurchased per protocol over the last `days`, from stored snapshots
+ */
+export const useRecentBuybackValue = (days: number): UseQueryResult<Record<string, number | null>> => {
+  return useQuery(createCacheKey('recentBuybacks', days), () => getService().getRecentBuybackValue(days));
+};
+
+/**
+ * Current trading volume and fee generation, keyed by protocol name
+ */
+export const useProtocolRevenue = (): UseQueryResult<Record<string, ProtocolRevenue>> => {
+  return useQuery(createCacheKey('revenue', ALL_PROTOCOLS), () => getService().getProtocolRevenue());
+};
+
+/**
+ * Published unlock and emissions schedule; null when the protocol has none, idle until a token is known
+ */
+export const useEmissionsSchedule = (token: ProtocolToken | undefined): UseQueryResult<TokenSchedule | null> => {
+  return useQuery(
+    createCacheKey('schedule', token || 'none'),
+    () => token ? getService().getEmissionsSchedule(token) : Promise.resolve(null),
+    { enabled: token !== undefined }
+  );
+};
@@ -0,0 +1,23 @@
+/**
+ * useChartColors
+ * The active theme's chart palette as plain colour values for Recharts props
+ */
+
+import { useMemo } from 'react';
+import { useTheme } from '../context/ThemeContext';
+import type { ChartColors } from '../types';
+
+export const useChartColors = (): ChartColors => {
+  const { theme: { colors } } = useTheme();
+
+  return useMemo(() => ({
+    PRIMARY: colors.accent,
+    SECONDARY: colors.accentHover,
+    GRID: colors.chartGrid,
+    BACKGROUND: colors.surfaceRaised,
+    TEXT_PRIMARY: colors.textPrimary,
+    TEXT_SECONDARY: colors.chartAxis,
+    ERROR: colors.error,
+    SUCCESS: colors.success,
+  }), [colors]);
+};
@@ -0,0 +1,70 @@
+/**
+ * useQuery
+ * Subscribes a component to a keyed QueryClient entry; components reading the same key share one request and one poll
+ */
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { QUERY_CONFIG } from '../constants';
+import { QueryClient } from '../services/queryClient';
+import { useUserPreferences } from '../context/UserPreferencesContext';
+import type { QueryState } from '../types';
+
+export interface UseQueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+  keepPreviousData?: boolean;   // Show the last key's data while a new key loads (e.g. a timeframe change)
+}
+
+export interface UseQueryResult<T> extends QueryState<T> {
+  isLoading: boolean;           // No data to show yet
+  refetch: () => Promise<T | undefined>;
+}
+
+export const useQuery = <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  { enabled = true, staleTime = QUERY_CONFIG.STALE_TIME, keepPreviousData = false }: UseQueryOptions = {}
+): UseQueryResult<T> => {
+  const client = QueryClient.getInstance();
+  const { preferences: { autoRefresh, refreshInterval } } = useUserPreferences();
+  const refetchInterval = enabled && autoRefresh ? refreshInterval : null;
+
+  // Always call the latest fetcher without resubscribing on every render
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  }, [fetcher]);
+
+  const subscribe = useCallback((onChange: () => void) => {
+    if (!enabled) return () => undefined;
+    return client.subscribe(key, () => fetcherRef.current(), { onChange, refetchInterval });
+  }, [client, key, enabled, refetchInterval]);
+
+  const state = useSyncExternalStore(subscribe, () => client.getState<T>(key));
+
+  // Serve cached data straight away and revalidate it in the background once stale
+  useEffect(() => {
+    if (enabled && client.isStale(key, staleTime)) {
+      client.fetch(key, () => fetcherRef.current()).catch(() => undefined);
+    }
+  }, [client, key, enabled, staleTime]);
+
+  const previousData = useRef<T | undefined>(undefined);
+  useEffect(() => {
+    if (state.data !== undefined) previousData.current = state.data;
+  }, [state.data]);
+
+  const refetch = useCallback(
+    () => client.fetch(key, () => fetcherRef.current()).catch(() => undefined),
+    [client, key]
+  );
+
+  const data = state.data !== undefined || !keepPreviousData ? state.data : previousData.current;
+
+  return {
+    ...state,
+    data,
+    isLoading: enabled && data === undefined && state.error === null,
+    refetch,
+  };
+};
@@ -0,0 +1,20 @@
+/**
+ * useRoute
+ * Current route, kept in sync with pushState navigation and the browser's back/forward buttons
+ */
+
+import { useEffect, useState } from 'react';
+import { matchRoute } from '../utils/router';
+import type { AppRoute } from '../types';
+
+export const useRoute = (): AppRoute => {
+  const [route, setRoute] = useState<AppRoute>(() => matchRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(matchRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return route;
+};
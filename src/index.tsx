@@ -1,6 +1,19 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { PROTOCOL_REGISTRY } from './constants';
+import { validateProtocolRegistry, parseQueryString } from './utils/helpers';
+import { DatabaseService } from './database/browserDb';
+import { isScenarioPresetName } from './scenarios';
+
+// Fail fast on a malformed registry before any component reads from it
+validateProtocolRegistry(PROTOCOL_REGISTRY);
+
+// ?scenario=bull&seed=42 loads a reproducible sample dataset for demos and screenshots
+const { scenario, seed } = parseQueryString(window.location.search);
+if (scenario && isScenarioPresetName(scenario)) {
+  DatabaseService.getInstance().loadScenario({ preset: scenario, seed });
+}
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
@@ -0,0 +1,226 @@
+/**
+ * Scenario Generator
+ * Builds a full, reproducible dataset (records, charts, prices, monthly totals) from a preset and a seed
+ */
+
+import { getProtocolAdapters } from '../adapters';
+import { DAY_MS, SCENARIO_DEFAULTS, SNAPSHOT_CONFIG } from '../constants';
+import { getTimeBucketStart } from '../utils/helpers';
+import { createSeededRandom } from '../utils/random';
+import { SCENARIO_PRESETS } from './presets';
+import type { BuybackRecord, HistoricalChart } from '../database/browserDb';
+import type {
+  BuybackData,
+  HistoricalDataPoint,
+  MonthlyBuyback,
+  ProtocolAdapter,
+  ProtocolSeed,
+  ScenarioPreset,
+  ScenarioPresetName
+} from '../types';
+
+export interface ScenarioOptions {
+  preset?: ScenarioPresetName | ScenarioPreset;
+  seed?: string | number;
+  endDate?: Date;                 // Defaults to the start of the current UTC day
+  adapters?: ProtocolAdapter[];
+}
+
+export interface ScenarioDataset {
+  preset: ScenarioPreset;
+  seed: string | number;
+  buybackRecords: BuybackRecord[];
+  historicalCharts: HistoricalChart[];
+  prices: HistoricalDataPoint[];
+  buybackData: BuybackData[];
+}
+
+const TRAILING_DAYS = 30;
+
+interface SimulatedDay {
+  timestamp: string;
+  price: number;
+  volume: number;
+  paused: boolean;
+  buybackUSD: number;
+}
+
+/**
+ * Scale and offset so the series ends exactly at the adapter's reported totals. Flows are only
+ * scaled down when the window alone bought more than the reported totals, which keeps the
+ * opening position non-negative.
+ */
+const anchorToReported = (days: SimulatedDay[], seed: ProtocolSeed) => {
+  const totalValue = days.reduce((sum, day) => sum + day.buybackUSD, 0);
+  const totalTokens = days.reduce((sum, day) => sum + day.buybackUSD / day.price, 0);
+  const scale = Math.min(
+    1,
+    totalValue > 0 ? seed.reportedValueUSD / totalValue : 1,
+    totalTokens > 0 ? seed.reportedTokens / totalTokens : 1
+  );
+
+  return {
+    scale,
+    openingValue: seed.reportedValueUSD - totalValue * scale,
+    openingTokens: seed.reportedTokens - totalTokens * scale,
+  };
+};
+
+/**
+ * Generate one protocol's series; each protocol draws from its own stream so adding
+ * a protocol never changes the others. The series ends at the totals the adapter reports, so live
+ * snapshots continue it; a protocol the preset launches mid-window starts from zero instead.
+ */
+const generateProtocolSeries = (
+  adapter: ProtocolAdapter,
+  preset: ScenarioPreset,
+  seed: string | number,
+  endTime: number
+): Omit<ScenarioDataset, 'preset' | 'seed'> => {
+  const random = createSeededRandom(`${seed}:${adapter.token}`);
+  const { seed: protocolSeed } = adapter;
+  const mechanism = adapter.describeMechanism();
+
+  const isLaunching = (preset.launchTokens || []).includes(adapter.token);
+  const isPausing = (preset.pausedTokens || []).includes(adapter.token);
+  const circulatingSupply = protocolSeed.circulatingSupplyPercent > 0
+    ? protocolSeed.reportedTokens / (protocolSeed.circulatingSupplyPercent / 100)
+    : 0;
+
+  // Start the walk so the expected final price lands on today's base price
+  let price = protocolSeed.basePrice * Math.exp(-preset.priceDrift * preset.days);
+  const days: SimulatedDay[] = [];
+
+  for (let day = 0; day <= preset.days; day++) {
+    const timestamp = new Date(endTime - (preset.days - day) * DAY_MS).toISOString();
+    price *= Math.exp(preset.priceDrift + preset.priceVolatility * random.gaussian());
+    const volume = protocolSeed.baseVolume * preset.volumeMultiplier * random.vary(1, preset.volumeVolatility);
+
+    if (isLaunching && day < (preset.launchAfterDays || 0)) {
+      continue;
+    }
+
+    const paused = isPausing && day >= (preset.pauseAfterDays || 0);
+    days.push({ timestamp, price, volume, paused, buybackUSD: paused ? 0 : adapter.estimateDailyBuyback(volume) });
+  }
+
+  const anchor = isLaunching
+    ? { scale: 1, openingValue: 0, openingTokens: 0 }
+    : anchorToReported(days, protocolSeed);
+
+  let previousPrice: number | undefined;
+  let cumulativeValue = anchor.openingValue;
+  let cumulativeTokens = anchor.openingTokens;
+  const trailingBuybacks: number[] = [];
+  const monthly = new Map<string, MonthlyBuyback>();
+
+  const series: Omit<ScenarioDataset, 'preset' | 'seed'> = {
+    buybackRecords: [],
+    historicalCharts: [],
+    prices: [],
+    buybackData: [],
+  };
+
+  days.forEach(({ timestamp, price, volume, paused, buybackUSD }) => {
+    const dailyBuybackUSD = buybackUSD * anchor.scale;
+    const dailyTokens = dailyBuybackUSD / price;
+
+    cumulativeValue += dailyBuybackUSD;
+    cumulativeTokens += dailyTokens;
+    trailingBuybacks.push(dailyBuybackUSD);
+    if (trailingBuybacks.length > TRAILING_DAYS) trailingBuybacks.shift();
+
+    const estimatedAnnualBuyback = (trailingBuybacks.reduce((sum, value) => sum + value, 0) / trailingBuybacks.length) * 365;
+    const circulatingSupplyPercent = circulatingSupply > 0 ? (cumulativeTokens / circulatingSupply) * 100 : 0;
+
+    series.buybackRecords.push({
+      protocol: adapter.name,
+      token: adapter.token,
+      timestamp,
+      total_repurchased: cumulativeTokens,
+      total_value_usd: cumulativeValue,
+      circulating_supply_percent: circulatingSupplyPercent,
+      estimated_annual_buyback: estimatedAnnualBuyback,
+      fee_allocation_percent: paused ? 0 : mechanism.feeAllocationPercent,
+      price_per_token: price,
+      trading_volume_24h: volume,
+      fee_generation_24h: volume * mechanism.feeRate,
+      source: 'sample'
+    });
+
+    series.historicalCharts.push({
+      protocol: adapter.name,
+      timestamp,
+      value_usd: dailyBuybackUSD,
+      tokens_amount: dailyTokens,
+      cumulative_value: cumulativeValue,
+      cumulative_tokens: cumulativeTokens,
+      source: 'sample'
+    });
+
+    series.prices.push({
+      timestamp,
+      protocol: adapter.name,
+      price,
+      volume,
+      marketCap: price * circulatingSupply,
+      change24h: previousPrice ? ((price - previousPrice) / previousPrice) * 100 : undefined,
+      source: 'sample'
+    });
+    previousPrice = price;
+
+    const month = timestamp.slice(0, 7);
+    const monthTotals = monthly.get(month) || { month, amount: 0, valueUSD: 0 };
+    monthTotals.amount += dailyTokens;
+    monthTotals.valueUSD += dailyBuybackUSD;
+    monthly.set(month, monthTotals);
+  });
+
+  const latest = series.buybackRecords[series.buybackRecords.length - 1];
+  if (latest) {
+    series.buybackData.push({
+      protocol: adapter.name,
+      token: adapter.token,
+      totalRepurchased: latest.total_repurchased,
+      totalValueUSD: latest.total_value_usd,
+      circulatingSupplyPercent: latest.circulating_supply_percent,
+      estimatedAnnualBuyback: latest.estimated_annual_buyback,
+      feeAllocationPercent: latest.fee_allocation_percent,
+      lastUpdated: latest.timestamp,
+      monthlyData: Array.from(monthly.values()),
+    });
+  }
+
+  return series;
+};
+
+/**
+ * Generate a complete dataset; the same preset, seed and end date always produce identical output
+ */
+export const generateScenario = (options: ScenarioOptions = {}): ScenarioDataset => {
+  const presetOption = options.preset || SCENARIO_DEFAULTS.PRESET;
+  const preset = typeof presetOption === 'string' ? SCENARIO_PRESETS[presetOption] : presetOption;
+  const seed = options.seed ?? SCENARIO_DEFAULTS.SEED;
+  const endTime = options.endDate
+    ? options.endDate.getTime()
+    : getTimeBucketStart(new Date(), SNAPSHOT_CONFIG.BUCKET_MS);
+
+  const dataset: ScenarioDataset = {
+    preset,
+    seed,
+    buybackRecords: [],
+    historicalCharts: [],
+    prices: [],
+    buybackData: [],
+  };
+
+  (options.adapters || getProtocolAdapters()).forEach(adapter => {
+    const series = generateProtocolSeries(adapter, preset, seed, endTime);
+    dataset.buybackRecords.push(...series.buybackRecords);
+    dataset.historicalCharts.push(...series.historicalCharts);
+    dataset.prices.push(...series.prices);
+    dataset.buybackData.push(...series.buybackData);
+  });
+
+  return dataset;
+};
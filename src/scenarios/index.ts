@@ -0,0 +1,8 @@
+/**
+ * Sample Scenarios
+ * Seeded, preset-driven datasets for demos, screenshots and tests
+ */
+
+export { SCENARIO_PRESETS, isScenarioPresetName } from './presets';
+export { generateScenario } from './generator';
+export type { ScenarioOptions, ScenarioDataset } from './generator';
@@ -0,0 +1,67 @@
+/**
+ * Scenario Presets
+ * Named market conditions for the seeded sample-data generator
+ */
+
+import type { ScenarioPreset, ScenarioPresetName } from '../types';
+
+export const SCENARIO_PRESETS: Record<ScenarioPresetName, ScenarioPreset> = {
+  baseline: {
+    name: 'baseline',
+    label: 'Baseline',
+    description: 'Sideways prices and steady volume around each protocol\'s base level',
+    days: 30,
+    priceDrift: 0,
+    priceVolatility: 0.03,
+    volumeMultiplier: 1,
+    volumeVolatility: 0.2,
+  },
+  bull: {
+    name: 'bull',
+    label: 'Bull market',
+    description: 'Prices trend up and volume expands, so fee-funded buybacks accelerate',
+    days: 30,
+    priceDrift: 0.012,
+    priceVolatility: 0.035,
+    volumeMultiplier: 1.6,
+    volumeVolatility: 0.25,
+  },
+  bear: {
+    name: 'bear',
+    label: 'Bear market',
+    description: 'Prices bleed lower and volume dries up, shrinking buyback budgets',
+    days: 30,
+    priceDrift: -0.01,
+    priceVolatility: 0.05,
+    volumeMultiplier: 0.55,
+    volumeVolatility: 0.3,
+  },
+  paused: {
+    name: 'paused',
+    label: 'Program paused',
+    description: 'Jupiter halts buybacks for the last ten days while the rest keep running',
+    days: 30,
+    priceDrift: 0,
+    priceVolatility: 0.03,
+    volumeMultiplier: 1,
+    volumeVolatility: 0.2,
+    pausedTokens: ['JUP'],
+    pauseAfterDays: 20,
+  },
+  newProtocol: {
+    name: 'newProtocol',
+    label: 'New protocol',
+    description: 'Fluid launches its program ten days ago with no prior buyback history',
+    days: 30,
+    priceDrift: 0.004,
+    priceVolatility: 0.06,
+    volumeMultiplier: 1,
+    volumeVolatility: 0.35,
+    launchTokens: ['FLUID'],
+    launchAfterDays: 20,
+  },
+};
+
+export const isScenarioPresetName = (name: string): name is ScenarioPresetName => {
+  return Object.prototype.hasOwnProperty.call(SCENARIO_PRESETS, name);
+};
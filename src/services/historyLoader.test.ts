@@ -0,0 +1,106 @@
+/**
+ * History Loader tests
+ * Chunking, normalisation and loading against a Hyperliquid market_chart/range response fixture
+ */
+
+import { chunkRange, FixtureMarketChartSource, HistoryLoader, normalizeMarketChart } from './historyLoader';
+import { DAY_MS } from '../constants';
+import type { DatabaseService } from '../database/browserDb';
+import type { HistoricalDataPoint, MarketChartRangeResponse } from '../types';
+import hyperliquidChart from './__fixtures__/hyperliquid-market-chart-range.json';
+
+const fixture = hyperliquidChart as MarketChartRangeResponse;
+
+const createDbStub = () => {
+  const upsertPriceHistory = jest.fn((_points: HistoricalDataPoint[]) => Promise.resolve());
+  return { db: { upsertPriceHistory } as unknown as DatabaseService, upsertPriceHistory };
+};
+
+describe('chunkRange', () => {
+  it('splits a range into contiguous windows no longer than maxDays', () => {
+    const from = new Date('2025-01-01T00:00:00Z');
+    const to = new Date(from.getTime() + 200 * DAY_MS);
+
+    const chunks = chunkRange(from, to, 90);
+
+    expect(chunks.map(chunk => (chunk.to.getTime() - chunk.from.getTime()) / DAY_MS)).toEqual([90, 90, 20]);
+    expect(chunks[0].from).toEqual(from);
+    expect(chunks[2].to).toEqual(to);
+    chunks.slice(1).forEach((chunk, index) => expect(chunk.from).toEqual(chunks[index].to));
+  });
+
+  it('returns no windows for an empty range', () => {
+    const at = new Date('2025-01-01T00:00:00Z');
+    expect(chunkRange(at, at)).toEqual([]);
+  });
+});
+
+describe('normalizeMarketChart', () => {
+  it('joins prices, volumes and market caps by timestamp in time order', () => {
+    const points = normalizeMarketChart(fixture, 'Hyperliquid');
+
+    expect(points).toHaveLength(fixture.prices.length);
+    expect(points[0]).toMatchObject({
+      timestamp: new Date(fixture.prices[0][0]).toISOString(),
+      protocol: 'Hyperliquid',
+      price: fixture.prices[0][1],
+      volume: fixture.total_volumes[0][1],
+      marketCap: fixture.market_caps[0][1],
+    });
+  });
+
+  it('computes change24h against the price a day earlier', () => {
+    const points = normalizeMarketChart(fixture, 'Hyperliquid');
+    const [, firstPrice] = fixture.prices[0];
+    const [, secondPrice] = fixture.prices[1];
+
+    expect(points[0].change24h).toBeUndefined();
+    expect(points[1].change24h).toBeCloseTo(((secondPrice - firstPrice) / firstPrice) * 100, 10);
+  });
+
+  it('drops duplicate points where two chunks meet', () => {
+    const first = { prices: fixture.prices.slice(0, 11), market_caps: fixture.market_caps.slice(0, 11), total_volumes: fixture.total_volumes.slice(0, 11) };
+    const second = { prices: fixture.prices.slice(10, 20), market_caps: fixture.market_caps.slice(10, 20), total_volumes: fixture.total_volumes.slice(10, 20) };
+    const merged: MarketChartRangeResponse = {
+      prices: [...second.prices, ...first.prices],
+      market_caps: [...second.market_caps, ...first.market_caps],
+      total_volumes: [...second.total_volumes, ...first.total_volumes],
+    };
+
+    const points = normalizeMarketChart(merged, 'Hyperliquid');
+    const timestamps = points.map(point => point.timestamp);
+
+    expect(points).toHaveLength(20);
+    expect(new Set(timestamps).size).toBe(20);
+    expect([...timestamps].sort()).toEqual(timestamps);
+  });
+});
+
+describe('HistoryLoader.loadRange', () => {
+  const from = new Date(fixture.prices[0][0]);
+  const to = new Date(fixture.prices[fixture.prices.length - 1][0]);
+
+  it('fetches the range in chunks and persists one point per timestamp', async () => {
+    const source = new FixtureMarketChartSource({ hyperliquid: fixture });
+    const { db, upsertPriceHistory } = createDbStub();
+    const loader = new HistoryLoader(source, db, 0);
+
+    const points = await loader.loadRange('HYPE', from, to);
+
+    // 104 days at up to 90 days per request; the shared boundary point comes back in both chunks
+    expect(source.requests).toHaveLength(2);
+    expect(source.requests[1].fromSeconds).toBe(source.requests[0].toSeconds);
+    expect(points).toHaveLength(fixture.prices.length);
+    expect(new Set(points.map(point => point.timestamp)).size).toBe(points.length);
+    expect(points.every(point => point.protocol === 'Hyperliquid')).toBe(true);
+    expect(upsertPriceHistory).toHaveBeenCalledWith(points);
+  });
+
+  it('fails without persisting when the source has no history', async () => {
+    const { db, upsertPriceHistory } = createDbStub();
+    const loader = new HistoryLoader(new FixtureMarketChartSource({}), db, 0);
+
+    await expect(loader.loadRange('HYPE', from, to)).rejects.toThrow('No recorded market history for hyperliquid');
+    expect(upsertPriceHistory).not.toHaveBeenCalled();
+  });
+});
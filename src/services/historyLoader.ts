@@ -0,0 +1,211 @@
+/**
+ * History Loader
+ * Pulls CoinGecko market_chart/range history, normalises it into HistoricalDataPoint and persists it
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { API_ENDPOINTS, API_TIMEOUTS, DAY_MS, HISTORY_CONFIG } from '../constants';
+import { createError, isNetworkError } from '../utils/helpers';
+import { DatabaseService } from '../database/browserDb';
+import { coinGeckoScheduler, RequestScheduler } from './requestScheduler';
+import { getProtocolAdapter, getProtocolAdapters } from '../adapters';
+import type {
+  HistoricalDataPoint,
+  MarketChartRangeResponse,
+  MarketChartSeries,
+  MarketChartSource,
+  ProtocolToken
+} from '../types';
+
+/**
+ * Live source backed by the public CoinGecko API
+ */
+export class CoinGeckoMarketChartSource implements MarketChartSource {
+  private readonly client: AxiosInstance;
+  private readonly scheduler: RequestScheduler;
+
+  constructor(client?: AxiosInstance, scheduler: RequestScheduler = coinGeckoScheduler) {
+    this.client = client || axios.create({
+      baseURL: API_ENDPOINTS.COINGECKO_BASE,
+      timeout: API_TIMEOUTS.LONG,
+    });
+    this.scheduler = scheduler;
+  }
+
+  async fetchRange(coingeckoId: string, fromSeconds: number, toSeconds: number): Promise<MarketChartRangeResponse> {
+    try {
+      const url = `/coins/${coingeckoId}/market_chart/range`;
+      return await this.scheduler.schedule(`${url}:${fromSeconds}:${toSeconds}`, async () => {
+        const response = await this.client.get<MarketChartRangeResponse>(url, {
+          params: { vs_currency: 'usd', from: fromSeconds, to: toSeconds }
+        });
+        return response.data;
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = isNetworkError(error) ? 'NETWORK_ERROR' : 'API_ERROR';
+      throw createError(`Failed to load market history for ${coingeckoId}: ${message}`, code);
+    }
+  }
+}
+
+/**
+ * Stand-in source that replays recorded market_chart responses keyed by CoinGecko ID
+ */
+export class FixtureMarketChartSource implements MarketChartSource {
+  public readonly requests: Array<{ coingeckoId: string; fromSeconds: number; toSeconds: number }> = [];
+  private readonly fixtures: Record<string, MarketChartRangeResponse>;
+
+  constructor(fixtures: Record<string, MarketChartRangeResponse>) {
+    this.fixtures = fixtures;
+  }
+
+  async fetchRange(coingeckoId: string, fromSeconds: number, toSeconds: number): Promise<MarketChartRangeResponse> {
+    this.requests.push({ coingeckoId, fromSeconds, toSeconds });
+
+    const fixture = this.fixtures[coingeckoId];
+    if (!fixture) {
+      throw createError(`No recorded market history for ${coingeckoId}`, 'API_ERROR');
+    }
+
+    const inRange = (series: MarketChartSeries) =>
+      series.filter(([time]) => time >= fromSeconds * 1000 && time <= toSeconds * 1000);
+
+    return {
+      prices: inRange(fixture.prices),
+      market_caps: inRange(fixture.market_caps),
+      total_volumes: inRange(fixture.total_volumes),
+    };
+  }
+}
+
+/**
+ * Split a time range into consecutive windows no longer than maxDays
+ */
+export const chunkRange = (
+  from: Date,
+  to: Date,
+  maxDays: number = HISTORY_CONFIG.MAX_RANGE_DAYS
+): Array<{ from: Date; to: Date }> => {
+  const chunks: Array<{ from: Date; to: Date }> = [];
+  const step = maxDays * DAY_MS;
+
+  for (let start = from.getTime(); start < to.getTime(); start += step) {
+    chunks.push({ from: new Date(start), to: new Date(Math.min(start + step, to.getTime())) });
+  }
+
+  return chunks;
+};
+
+/**
+ * Convert a market_chart response into sorted, de-duplicated HistoricalDataPoints
+ */
+export const normalizeMarketChart = (
+  response: MarketChartRangeResponse,
+  protocol: string
+): HistoricalDataPoint[] => {
+  const volumes = new Map(response.total_volumes);
+  const marketCaps = new Map(response.market_caps);
+  const prices = new Map(response.prices);
+
+  const times = Array.from(prices.keys()).sort((a, b) => a - b);
+
+  // Walk a second pointer behind the current point to find the price 24h earlier
+  let previousIndex = 0;
+  return times.map(time => {
+    while (previousIndex + 1 < times.length && times[previousIndex + 1] <= time - DAY_MS) {
+      previousIndex++;
+    }
+
+    const price = prices.get(time) || 0;
+    const previousTime = times[previousIndex];
+    const previousPrice = previousTime <= time - DAY_MS ? prices.get(previousTime) : undefined;
+
+    return {
+      timestamp: new Date(time).toISOString(),
+      protocol,
+      price,
+      volume: volumes.get(time) || 0,
+      marketCap: marketCaps.get(time) || 0,
+      change24h: previousPrice ? ((price - previousPrice) / previousPrice) * 100 : undefined,
+    };
+  });
+};
+
+const mergeResponses = (responses: MarketChartRangeResponse[]): MarketChartRangeResponse => {
+  return responses.reduce<MarketChartRangeResponse>(
+    (merged, response) => ({
+      prices: merged.prices.concat(response.prices || []),
+      market_caps: merged.market_caps.concat(response.market_caps || []),
+      total_volumes: merged.total_volumes.concat(response.total_volumes || []),
+    }),
+    { prices: [], market_caps: [], total_volumes: [] }
+  );
+};
+
+/**
+ * Loader that chunks requests, normalises responses and writes them to the database
+ */
+export class HistoryLoader {
+  private readonly source: MarketChartSource;
+  private readonly dbService: DatabaseService;
+  private readonly chunkDelayMs: number;
+
+  constructor(
+    source: MarketChartSource = new CoinGeckoMarketChartSource(),
+    dbService: DatabaseService = DatabaseService.getInstance(),
+    chunkDelayMs: number = HISTORY_CONFIG.CHUNK_DELAY_MS
+  ) {
+    this.source = source;
+    this.dbService = dbService;
+    this.chunkDelayMs = chunkDelayMs;
+  }
+
+  /**
+   * Load and persist history for one protocol between two dates
+   */
+  async loadRange(token: ProtocolToken, from: Date, to: Date): Promise<HistoricalDataPoint[]> {
+    const adapter = getProtocolAdapter(token);
+    if (!adapter) {
+      throw createError(`No adapter registered for ${token}`, 'VALIDATION_ERROR');
+    }
+
+    const responses: MarketChartRangeResponse[] = [];
+    const chunks = chunkRange(from, to);
+
+    for (let i = 0; i < chunks.length; i++) {
+      if (i > 0 && this.chunkDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.chunkDelayMs));
+      }
+      const chunk = chunks[i];
+      responses.push(await this.source.fetchRange(
+        adapter.coingeckoId,
+        Math.floor(chunk.from.getTime() / 1000),
+        Math.floor(chunk.to.getTime() / 1000)
+      ));
+    }
+
+    const points = normalizeMarketChart(mergeResponses(responses), adapter.name);
+    await this.dbService.upsertPriceHistory(points);
+    return points;
+  }
+
+  /**
+   * Load the last N days for every registered protocol, one protocol at a time
+   */
+  async loadAll(days: number): Promise<Record<string, HistoricalDataPoint[]>> {
+    const to = new Date();
+    const from = new Date(to.getTime() - days * DAY_MS);
+    const results: Record<string, HistoricalDataPoint[]> = {};
+
+    for (const adapter of getProtocolAdapters()) {
+      try {
+        results[adapter.token] = await this.loadRange(adapter.token, from, to);
+      } catch (error) {
+        console.warn(`Skipping market history for ${adapter.token}:`, error);
+      }
+    }
+
+    return results;
+  }
+}
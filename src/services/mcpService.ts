@@ -1,6 +1,10 @@
 // MCP (Model Context Protocol) Service for enhanced data fetching
 // This service can be extended to work with Context7 MCP and other MCP providers
 
+import { getProtocolAdapterByName } from '../adapters';
+import { SCENARIO_DEFAULTS } from '../constants';
+import { createSeededRandom } from '../utils/random';
+
 export interface MCPResponse {
   success: boolean;
   data?: any;
@@ -11,6 +15,7 @@ export interface MCPResponse {
 export class MCPService {
   private static instance: MCPService;
   private endpoints: Map<string, string> = new Map();
+  private readonly random = createSeededRandom(SCENARIO_DEFAULTS.SEED);
 
   public static getInstance(): MCPService {
     if (!MCPService.instance) {
@@ -30,7 +35,7 @@ export class MCPService {
   async queryMCP(provider: string, query: string, context?: any): Promise<MCPResponse> {
     try {
       const endpoint = this.endpoints.get(provider);
-      if (!endpoint) {
+      if (!endpoint && !getProtocolAdapterByName(provider)) {
         throw new Error(`Unknown MCP provider: ${provider}`);
       }
 
@@ -54,20 +59,17 @@ export class MCPService {
 
   private async generateMockMCPResponse(provider: string, query: string, context?: any): Promise<any> {
     // Simulate realistic API response delay
-    await new Promise(resolve => setTimeout(resolve, 100 + Math.random() * 400));
-
-    switch (provider) {
-      case 'context7':
-        return this.mockContext7Response(query, context);
-      case 'hyperliquid':
-        return this.mockHyperliquidResponse(query);
-      case 'jupiter':
-        return this.mockJupiterResponse(query);
-      case 'aave':
-        return this.mockAaveResponse(query);
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
+    await new Promise(resolve => setTimeout(resolve, this.random.between(100, 500)));
+
+    if (provider === 'context7') {
+      return this.mockContext7Response(query, context);
     }
+
+    const adapter = getProtocolAdapterByName(provider);
+    if (!adapter) {
+      throw new Error(`Unsupported provider: ${provider}`);
+    }
+    return adapter.queryProvider(query);
   }
 
   private mockContext7Response(query: string, context?: any): any {
@@ -101,58 +103,6 @@ export class MCPService {
     };
   }
 
-  private mockHyperliquidResponse(query: string): any {
-    return {
-      buybacks: {
-        total_volume_24h: 1200000000,
-        fee_generation_24h: 2400000,
-        buyback_allocation: 0.97,
-        estimated_buyback_24h: 2328000,
-        total_tokens_burned: 20150000,
-        market_cap: 6200000000
-      },
-      metrics: {
-        price: 19.3 + (Math.random() - 0.5) * 2,
-        volume_24h: 1200000000,
-        circulating_supply: 322580645
-      }
-    };
-  }
-
-  private mockJupiterResponse(query: string): any {
-    return {
-      buybacks: {
-        protocol_revenue_24h: 850000,
-        buyback_allocation: 0.50,
-        estimated_buyback_24h: 425000,
-        total_tokens_repurchased: 45200000,
-        current_buyback_rate: 'weekly'
-      },
-      metrics: {
-        price: 0.6 + (Math.random() - 0.5) * 0.1,
-        volume_24h: 850000000,
-        swap_count_24h: 125000
-      }
-    };
-  }
-
-  private mockAaveResponse(query: string): any {
-    return {
-      buybacks: {
-        weekly_buyback_amount: 1000000,
-        total_program_duration: '6 months',
-        tokens_repurchased_this_week: 5200,
-        estimated_annual_buyback: 52000000,
-        fee_allocation: 1.0
-      },
-      metrics: {
-        price: 192 + (Math.random() - 0.5) * 20,
-        tvl: 12500000000,
-        borrowing_rate: 0.045
-      }
-    };
-  }
-
   // Enhanced query method for Context7 MCP integration
   async queryContext7(prompt: string, context?: any): Promise<MCPResponse> {
     return this.queryMCP('context7', prompt, context);
@@ -5,13 +5,13 @@
 
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { 
-  PROTOCOL_TOKENS, 
-  COINGECKO_IDS, 
-  MOCK_PRICES, 
   API_ENDPOINTS,
   API_TIMEOUTS,
   CACHE_DURATIONS,
-  EXPECTED_PROTOCOL_COUNT 
+  DAY_MS,
+  EXPECTED_PROTOCOL_COUNT,
+  HISTORY_CONFIG,
+  SNAPSHOT_CONFIG
 } from '../constants';
 import { 
   formatDate
@@ -23,14 +23,29 @@ import {
   createError,
   isNetworkError,
   createCacheKey,
-  isCacheExpired
+  isCacheExpired,
+  getTimeBucketStart
 } from '../utils/helpers';
 import { DatabaseService } from '../database/browserDb';
+import type { BuybackRecord, HistoricalChart } from '../database/browserDb';
+import { getProtocolAdapter, getProtocolAdapters } from '../adapters';
+import { CoinGeckoMarketChartSource, HistoryLoader } from './historyLoader';
+import { coinGeckoScheduler, RequestScheduler } from './requestScheduler';
+import { ScheduleLoader } from './scheduleLoader';
 import type { 
   BuybackData, 
+  BuybackMechanism,
+  BuybackTrendPoint,
+  CoinMarketResponse,
+  HistoricalDataPoint,
+  ProtocolPerformance,
+  ProtocolRevenue,
   ProtocolToken, 
   CacheEntry, 
   AppError,
+  ProtocolAdapter,
+  TokenMarketData,
+  TokenSchedule,
   ErrorCode 
 } from '../types';
 
@@ -56,6 +71,25 @@ const DEFAULT_CONFIG: Required<ServiceConfig> = {
   enableMockData: true,
 };
 
+// How far back a stored market_chart point may be and still stand in for live market data
+const STORED_MARKET_DATA_DAYS = 2;
+
+const positiveOrNull = (value: number | null | undefined): number | null => {
+  return typeof value === 'number' && isFinite(value) && value > 0 ? value : null;
+};
+
+const toLiveMarketData = (adapter: ProtocolAdapter, row: CoinMarketResponse): TokenMarketData => ({
+  protocol: adapter.name,
+  token: adapter.token,
+  price: positiveOrNull(row.current_price),
+  marketCap: positiveOrNull(row.market_cap),
+  fullyDilutedValuation: positiveOrNull(row.fully_diluted_valuation),
+  circulatingSupply: positiveOrNull(row.circulating_supply),
+  volume24h: positiveOrNull(row.total_volume),
+  updatedAt: row.last_updated,
+  source: 'live',
+});
+
 /**
  * Optimized Data Service Class
  */
@@ -65,6 +99,11 @@ export class OptimizedDataService {
   private readonly apiClient: AxiosInstance;
   private readonly cache = new Map<string, CacheEntry>();
   private readonly dbService: DatabaseService;
+  private readonly historyLoader: HistoryLoader;
+  private readonly scheduleLoader = new ScheduleLoader();
+  private readonly scheduler: RequestScheduler = coinGeckoScheduler;
+  private readonly pendingPriceIds = new Set<string>();
+  private pendingPriceBatch: Promise<Record<string, { usd: number }>> | null = null;
 
   /**
    * Singleton pattern implementation
@@ -83,6 +122,10 @@ export class OptimizedDataService {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.dbService = DatabaseService.getInstance();
     this.apiClient = this.createApiClient();
+    this.historyLoader = new HistoryLoader(
+      new CoinGeckoMarketChartSource(this.apiClient, this.scheduler),
+      this.dbService
+    );
   }
 
   /**
@@ -145,6 +188,12 @@ export class OptimizedDataService {
     return entry.data;
   }
 
+  // Whether a live entry exists, for callers that cache null
+  private hasCacheEntry(key: string): boolean {
+    const entry = this.cache.get(key);
+    return entry !== undefined && !isCacheExpired(entry.timestamp, this.config.cacheDuration);
+  }
+
   private setCacheEntry<T>(key: string, data: T): void {
     const entry: CacheEntry<T> = {
       data,
@@ -168,26 +217,35 @@ export class OptimizedDataService {
     return token as ProtocolToken;
   }
 
+  private getAdapter(token: ProtocolToken): ProtocolAdapter {
+    const adapter = getProtocolAdapter(token);
+    if (!adapter) {
+      throw createError(`No adapter registered for ${token}`, 'VALIDATION_ERROR');
+    }
+    return adapter;
+  }
+
   private validatePriceData(price: number, token: string): number {
     if (!isValidPrice(price)) {
-      console.warn(`Invalid price for ${token}: ${price}, using mock data`);
-      const validToken = token as ProtocolToken;
-      const coingeckoId = COINGECKO_IDS[validToken];
-      return MOCK_PRICES[coingeckoId as keyof typeof MOCK_PRICES] || 1;
+      console.warn(`Invalid price for ${token}: ${price}, using adapter base price`);
+      return this.getAdapter(token as ProtocolToken).seed.basePrice;
     }
     return price;
   }
 
   /**
-   * API request with retry logic
+   * API request with retry logic; identical in-flight requests share one rate-limited call
    */
   private async apiRequest<T>(
     config: AxiosRequestConfig,
     retries: number = this.config.retries
   ): Promise<T> {
     try {
-      const response = await this.apiClient.request<T>(config);
-      return response.data;
+      const requestKey = createCacheKey(config.method || 'get', config.url || '', JSON.stringify(config.params || {}));
+      return await this.scheduler.schedule(requestKey, async () => {
+        const response = await this.apiClient.request<T>(config);
+        return response.data;
+      });
     } catch (error) {
       if (retries > 0 && isNetworkError(error)) {
         console.warn(`Retrying API request... ${retries} attempts remaining`);
@@ -198,42 +256,197 @@ export class OptimizedDataService {
     }
   }
 
+  /**
+   * Queue CoinGecko ids for the next /simple/price call; every id queued in the same tick shares one request
+   */
+  private requestPrices(coingeckoIds: string[]): Promise<Record<string, { usd: number }>> {
+    coingeckoIds.forEach(id => this.pendingPriceIds.add(id));
+
+    if (!this.pendingPriceBatch) {
+      this.pendingPriceBatch = Promise.resolve().then(() => {
+        const ids = Array.from(this.pendingPriceIds).sort();
+        this.pendingPriceIds.clear();
+        this.pendingPriceBatch = null;
+
+        return this.apiRequest<Record<string, { usd: number }>>({
+          url: `/simple/price`,
+          params: {
+            ids: ids.join(','),
+            vs_currencies: 'usd',
+          },
+        });
+      });
+    }
+
+    return this.pendingPriceBatch;
+  }
+
+  /**
+   * Get prices for several tokens from one batched CoinGecko request
+   */
+  async getTokenPrices(tokens: ProtocolToken[]): Promise<Record<string, number>> {
+    const prices: Record<string, number> = {};
+    const missing: ProtocolAdapter[] = [];
+
+    tokens.forEach(token => {
+      const adapter = this.getAdapter(this.validateProtocolToken(token));
+      const cachedPrice = this.getCacheEntry<number>(createCacheKey('price', adapter.coingeckoId));
+      if (cachedPrice !== null) {
+        prices[token] = cachedPrice;
+      } else {
+        missing.push(adapter);
+      }
+    });
+
+    if (missing.length === 0) {
+      return prices;
+    }
+
+    let response: Record<string, { usd: number }> = {};
+    try {
+      response = await this.requestPrices(missing.map(adapter => adapter.coingeckoId));
+    } catch (error) {
+      console.warn(`Failed to fetch prices for ${missing.map(adapter => adapter.token).join(', ')}, using adapter prices:`, error);
+    }
+
+    await Promise.all(missing.map(async adapter => {
+      const price = response[adapter.coingeckoId]?.usd;
+      if (typeof price !== 'number') {
+        prices[adapter.token] = await adapter.fetchPrice();
+        return;
+      }
+      const validatedPrice = this.validatePriceData(price, adapter.token);
+      this.setCacheEntry(createCacheKey('price', adapter.coingeckoId), validatedPrice);
+      prices[adapter.token] = validatedPrice;
+    }));
+
+    return prices;
+  }
+
   /**
    * Get token price from CoinGecko API
    */
   async getTokenPrice(token: ProtocolToken): Promise<number> {
     const validToken = this.validateProtocolToken(token);
-    const coingeckoId = COINGECKO_IDS[validToken];
-    const cacheKey = createCacheKey('price', coingeckoId);
+    const prices = await this.getTokenPrices([validToken]);
+    return prices[validToken];
+  }
 
-    // Check cache first
-    const cachedPrice = this.getCacheEntry<number>(cacheKey);
-    if (cachedPrice !== null) {
-      return cachedPrice;
+  /**
+   * Current market cap, FDV, circulating supply and 24h volume for every protocol token from one
+   * /coins/markets request. Tokens the API does not return fall back to their latest stored market
+   * history, and otherwise to null figures rather than estimates.
+   */
+  async getMarketData(): Promise<TokenMarketData[]> {
+    const cacheKey = 'market_data';
+
+    const cachedData = this.getCacheEntry<TokenMarketData[]>(cacheKey);
+    if (cachedData) {
+      return cachedData;
     }
 
+    const adapters = getProtocolAdapters();
+    let rows: CoinMarketResponse[] = [];
     try {
-      const response = await this.apiRequest<Record<string, { usd: number }>>({
-        url: `/simple/price`,
+      rows = await this.apiRequest<CoinMarketResponse[]>({
+        url: `/coins/markets`,
         params: {
-          ids: coingeckoId,
-          vs_currencies: 'usd',
+          vs_currency: 'usd',
+          ids: adapters.map(adapter => adapter.coingeckoId).sort().join(','),
         },
       });
+    } catch (error) {
+      console.warn('Failed to fetch market data, using stored market history:', error);
+    }
 
-      const price = response[coingeckoId]?.usd;
-      if (typeof price !== 'number') {
-        throw createError(`Invalid price response for ${token}`, 'API_ERROR');
-      }
+    const marketData = await Promise.all(adapters.map(adapter => {
+      const row = rows.find(item => item.id === adapter.coingeckoId);
+      return row ? toLiveMarketData(adapter, row) : this.getStoredMarketData(adapter);
+    }));
+
+    this.setCacheEntry(cacheKey, marketData);
+    return marketData;
+  }
+
+  /**
+   * Latest stored market_chart point for a token; only market cap, price and volume are recorded there
+   */
+  private async getStoredMarketData(adapter: ProtocolAdapter): Promise<TokenMarketData> {
+    let latest: HistoricalDataPoint | undefined;
+    try {
+      const stored = await this.dbService.getPriceHistory(adapter.name, STORED_MARKET_DATA_DAYS);
+      latest = stored[stored.length - 1];
+    } catch (error) {
+      console.warn(`Stored market history unavailable for ${adapter.token}:`, error);
+    }
+
+    return {
+      protocol: adapter.name,
+      token: adapter.token,
+      price: latest ? positiveOrNull(latest.price) : null,
+      marketCap: latest ? positiveOrNull(latest.marketCap) : null,
+      fullyDilutedValuation: null,
+      circulatingSupply: null,
+      volume24h: latest ? positiveOrNull(latest.volume) : null,
+      updatedAt: latest ? latest.timestamp : null,
+      source: latest ? 'stored' : 'unavailable',
+    };
+  }
+
+  /**
+   * USD repurchased per protocol over the last `days`: the newest live snapshot's cumulative value
+   * minus that of the newest live snapshot at least `days` old. Null without such a snapshot.
+   */
+  async getRecentBuybackValue(days: number = 1): Promise<Record<string, number | null>> {
+    const cacheKey = createCacheKey('recent_buybacks', days);
+
+    const cachedData = this.getCacheEntry<Record<string, number | null>>(cacheKey);
+    if (cachedData) {
+      return cachedData;
+    }
 
-      const validatedPrice = this.validatePriceData(price, token);
-      this.setCacheEntry(cacheKey, validatedPrice);
-      return validatedPrice;
+    try {
+      const cutoff = new Date(Date.now() - days * DAY_MS).toISOString();
+      const totals: Record<string, number | null> = {};
+
+      await Promise.all(getProtocolAdapters().map(async ({ name }) => {
+        const [latest, baseline] = await Promise.all([
+          this.dbService.getLatestLiveHistoricalRecord(name),
+          this.dbService.getLatestLiveHistoricalRecord(name, cutoff),
+        ]);
+        totals[name] = latest && baseline ? latest.cumulative_value - baseline.cumulative_value : null;
+      }));
+      this.setCacheEntry(cacheKey, totals);
+      return totals;
 
     } catch (error) {
-      console.warn(`Failed to fetch price for ${token}, using mock data:`, error);
-      return MOCK_PRICES[coingeckoId as keyof typeof MOCK_PRICES] || 1;
+      console.error('Error getting recent buyback value:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Current trading volume and fee generation for every protocol, keyed by protocol name
+   */
+  async getProtocolRevenue(): Promise<Record<string, ProtocolRevenue>> {
+    const cacheKey = 'protocol_revenue';
+
+    const cachedData = this.getCacheEntry<Record<string, ProtocolRevenue>>(cacheKey);
+    if (cachedData) {
+      return cachedData;
     }
+
+    const revenue: Record<string, ProtocolRevenue> = {};
+    await Promise.all(getProtocolAdapters().map(async adapter => {
+      try {
+        revenue[adapter.name] = await adapter.fetchRevenue();
+      } catch (error) {
+        console.warn(`Revenue unavailable for ${adapter.token}:`, error);
+      }
+    }));
+
+    this.setCacheEntry(cacheKey, revenue);
+    return revenue;
   }
 
   /**
@@ -253,13 +466,8 @@ export class OptimizedDataService {
       // Get current price (for future use when integrating real price data)
       await this.getTokenPrice(validToken);
       
-      // Get mock buyback data from config
-      const mockData = await import('../config/protocols');
-      const protocolData = (mockData.MOCK_BUYBACK_DATA as any)[validToken];
-      
-      if (!protocolData) {
-        throw createError(`No mock data available for ${validToken}`, 'VALIDATION_ERROR');
-      }
+      // Get buyback data from the protocol's adapter
+      const protocolData = await this.getAdapter(validToken).fetchBuybacks();
 
       // Create buyback data with real price
       const buybackData: BuybackData = {
@@ -295,7 +503,7 @@ export class OptimizedDataService {
 
     try {
       // Try to get data from database first
-      const dbData = this.dbService.getLatestBuybackData();
+      const dbData = await this.dbService.getLatestBuybackData();
       
       if (dbData.length >= EXPECTED_PROTOCOL_COUNT) {
         const buybackData = dbData.map(record => this.convertDbRecordToBuybackData(record));
@@ -307,9 +515,10 @@ export class OptimizedDataService {
         return buybackData;
       }
 
-      // Fallback: Fetch fresh data for all protocols
+      // Fallback: Fetch fresh data for all protocols, pricing them in a single request
       console.log('Fetching fresh data for all protocols...');
-      const dataPromises = PROTOCOL_TOKENS.map(token => this.getBuybackData(token));
+      await this.getTokenPrices(getProtocolAdapters().map(adapter => adapter.token));
+      const dataPromises = getProtocolAdapters().map(adapter => this.getBuybackData(adapter.token));
       const allData = await Promise.all(dataPromises);
 
       // Save to database
@@ -323,7 +532,7 @@ export class OptimizedDataService {
       
       // Final fallback: Return mock data for all protocols
       console.warn('Using fallback mock data for all protocols');
-      const fallbackPromises = PROTOCOL_TOKENS.map(token => this.getBuybackData(token));
+      const fallbackPromises = getProtocolAdapters().map(adapter => this.getBuybackData(adapter.token));
       return Promise.all(fallbackPromises);
     }
   }
@@ -341,7 +550,7 @@ export class OptimizedDataService {
     }
 
     try {
-      const historicalData = this.dbService.getHistoricalData(protocol, days);
+      const historicalData = await this.dbService.getHistoricalData(protocol, days);
       this.setCacheEntry(cacheKey, historicalData);
       return historicalData;
 
@@ -351,6 +560,127 @@ export class OptimizedDataService {
     }
   }
 
+  /**
+   * Get a protocol's cumulative buyback snapshots, oldest first
+   */
+  async getBuybackTrends(token: ProtocolToken, days: number = 30): Promise<BuybackTrendPoint[]> {
+    const validToken = this.validateProtocolToken(token);
+    const cacheKey = createCacheKey('trends', validToken, days);
+
+    const cachedData = this.getCacheEntry<BuybackTrendPoint[]>(cacheKey);
+    if (cachedData) {
+      return cachedData;
+    }
+
+    try {
+      const trends = await this.dbService.getBuybackTrends(this.getAdapter(validToken).name, days);
+      this.setCacheEntry(cacheKey, trends);
+      return trends;
+
+    } catch (error) {
+      console.error(`Error getting buyback trends for ${validToken}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Get per-protocol summaries across every stored snapshot
+   */
+  async getPerformanceMetrics(): Promise<ProtocolPerformance[]> {
+    const cacheKey = 'performance_metrics';
+
+    const cachedData = this.getCacheEntry<ProtocolPerformance[]>(cacheKey);
+    if (cachedData) {
+      return cachedData;
+    }
+
+    try {
+      const metrics = await this.dbService.getPerformanceMetrics();
+      this.setCacheEntry(cacheKey, metrics);
+      return metrics;
+
+    } catch (error) {
+      console.error('Error getting performance metrics:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Describe how a protocol funds its buybacks
+   */
+  getBuybackMechanism(token: ProtocolToken): BuybackMechanism {
+    return this.getAdapter(this.validateProtocolToken(token)).describeMechanism();
+  }
+
+  /**
+   * A protocol's published unlock and emissions schedule; null when the registry lists none
+   */
+  async getEmissionsSchedule(token: ProtocolToken): Promise<TokenSchedule | null> {
+    const validToken = this.validateProtocolToken(token);
+    const cacheKey = createCacheKey('schedule', validToken);
+
+    if (this.hasCacheEntry(cacheKey)) {
+      return this.getCacheEntry<TokenSchedule | null>(cacheKey);
+    }
+
+    const schedule = await this.scheduleLoader.load(validToken);
+    this.setCacheEntry(cacheKey, schedule);
+    return schedule;
+  }
+
+  /**
+   * Get market price history, fetching from CoinGecko when stored history is missing or stale
+   */
+  async getPriceHistory(token: ProtocolToken, days: number = 30): Promise<HistoricalDataPoint[]> {
+    const validToken = this.validateProtocolToken(token);
+    const { name } = this.getAdapter(validToken);
+    const cacheKey = createCacheKey('price_history', validToken, days);
+
+    const cachedData = this.getCacheEntry<HistoricalDataPoint[]>(cacheKey);
+    if (cachedData) {
+      return cachedData;
+    }
+
+    let stored: HistoricalDataPoint[] = [];
+    try {
+      stored = await this.dbService.getPriceHistory(name, days);
+    } catch (error) {
+      console.warn(`Stored price history unavailable for ${validToken}:`, error);
+    }
+    const to = new Date();
+    const from = new Date(to.getTime() - days * DAY_MS);
+
+    if (!this.isPriceHistoryStale(stored, from, to)) {
+      this.setCacheEntry(cacheKey, stored);
+      return stored;
+    }
+
+    try {
+      // Only request the missing tail when stored history already covers the window start
+      const coversStart = stored.length > 0 && new Date(stored[0].timestamp).getTime() - from.getTime() < DAY_MS;
+      const fetchFrom = coversStart ? new Date(stored[stored.length - 1].timestamp) : from;
+
+      await this.historyLoader.loadRange(validToken, fetchFrom, to);
+      const refreshed = await this.dbService.getPriceHistory(name, days);
+      this.setCacheEntry(cacheKey, refreshed);
+      return refreshed;
+
+    } catch (error) {
+      console.warn(`Failed to load price history for ${validToken}, using stored history:`, error);
+      return stored;
+    }
+  }
+
+  private isPriceHistoryStale(points: HistoricalDataPoint[], from: Date, to: Date): boolean {
+    if (points.length === 0) {
+      return true;
+    }
+    const oldest = new Date(points[0].timestamp).getTime();
+    const newest = new Date(points[points.length - 1].timestamp).getTime();
+    return oldest - from.getTime() > DAY_MS ||
+           to.getTime() - newest > HISTORY_CONFIG.STALE_AFTER_MS;
+  }
+
   /**
    * Database operations
    */
@@ -367,26 +697,93 @@ export class OptimizedDataService {
     };
   }
 
+  /**
+   * Persist one snapshot per protocol for the current time bucket
+   */
   private async saveDataToDatabase(data: BuybackData[]): Promise<void> {
     try {
-      // This would integrate with the database service
-      console.log('Saving data to database:', data.length, 'records');
-      // Implementation would go here
+      const now = new Date();
+      const prices = await this.getTokenPrices(data.map(item => this.validateProtocolToken(item.token)));
+
+      for (const item of data) {
+        await this.saveSnapshot(item, prices[item.token], now);
+      }
+      console.log('Saved snapshots to database:', data.length, 'protocols');
     } catch (error) {
       console.error('Error saving to database:', error);
     }
   }
 
+  /**
+   * Snapshot the current buyback data for every protocol
+   */
   private async saveCurrentDataToDb(): Promise<void> {
     try {
-      // Simulate saving current data
-      console.log('Saving current data to database');
-      // Implementation would go here
+      const current = await Promise.all(
+        getProtocolAdapters().map(adapter => this.getBuybackData(adapter.token))
+      );
+      await this.saveDataToDatabase(current);
     } catch (error) {
       console.error('Error saving current data:', error);
     }
   }
 
+  /**
+   * Write a BuybackRecord and HistoricalChart row, replacing any row already in this bucket.
+   * Deltas are measured against the last row from an earlier bucket, and only when that row was also
+   * a live snapshot: sample rows follow a different series, so the first live row records no buyback.
+   */
+  private async saveSnapshot(data: BuybackData, price: number, now: Date): Promise<void> {
+    const adapter = this.getAdapter(this.validateProtocolToken(data.token));
+    const timestamp = now.toISOString();
+    const bucketStart = new Date(getTimeBucketStart(now, SNAPSHOT_CONFIG.BUCKET_MS)).toISOString();
+
+    const [latestRecord, latestChart, previousChart, revenue] = await Promise.all([
+      this.dbService.getLatestBuybackRecord(data.protocol),
+      this.dbService.getLatestHistoricalRecord(data.protocol),
+      this.dbService.getLatestHistoricalRecord(data.protocol, bucketStart),
+      adapter.fetchRevenue(),
+    ]);
+
+    const inBucket = <T extends { timestamp: string }>(row: T | undefined): row is T => (
+      row !== undefined && row.timestamp >= bucketStart
+    );
+
+    const record: BuybackRecord = {
+      ...(inBucket(latestRecord) ? { id: latestRecord.id } : {}),
+      protocol: data.protocol,
+      token: data.token,
+      timestamp,
+      total_repurchased: data.totalRepurchased,
+      total_value_usd: data.totalValueUSD,
+      circulating_supply_percent: data.circulatingSupplyPercent,
+      estimated_annual_buyback: data.estimatedAnnualBuyback,
+      fee_allocation_percent: data.feeAllocationPercent,
+      price_per_token: price,
+      trading_volume_24h: revenue.tradingVolume24h,
+      fee_generation_24h: revenue.feeGeneration24h,
+      source: 'live',
+    };
+
+    const previousLive = previousChart && previousChart.source === 'live' ? previousChart : undefined;
+
+    const chart: HistoricalChart = {
+      ...(inBucket(latestChart) ? { id: latestChart.id } : {}),
+      protocol: data.protocol,
+      timestamp,
+      value_usd: previousLive ? data.totalValueUSD - previousLive.cumulative_value : 0,
+      tokens_amount: previousLive ? data.totalRepurchased - previousLive.cumulative_tokens : 0,
+      cumulative_value: data.totalValueUSD,
+      cumulative_tokens: data.totalRepurchased,
+      source: 'live',
+    };
+
+    await Promise.all([
+      this.dbService.insertBuybackRecord(record),
+      this.dbService.insertHistoricalData(chart),
+    ]);
+  }
+
   /**
    * Utility methods
    */
@@ -408,7 +805,7 @@ export class OptimizedDataService {
       await this.apiRequest({ url: '/ping', timeout: 3000 });
       
       // Test database connectivity
-      const dbData = this.dbService.getLatestBuybackData();
+      const dbData = await this.dbService.getLatestBuybackData();
       
       return {
         status: 'healthy',
@@ -0,0 +1,161 @@
+/**
+ * Query Client
+ * Keyed cache of async query results shared by every component that reads the same key:
+ * stale-while-revalidate, in-flight de-duplication and one polling timer per key that pauses while the tab is hidden
+ */
+
+import { QUERY_CONFIG } from '../constants';
+import { createError } from '../utils/helpers';
+import type { QueryState } from '../types';
+
+type QueryFetcher<T> = () => Promise<T>;
+
+/**
+ * A mounted reader of a key; refetchInterval is null when it does not want polling
+ */
+export interface QueryObserver {
+  onChange: () => void;
+  refetchInterval: number | null;
+}
+
+interface QueryEntry<T = unknown> {
+  state: QueryState<T>;
+  fetcher: QueryFetcher<T>;
+  promise: Promise<T> | null;
+  observers: Set<QueryObserver>;
+  timer: ReturnType<typeof setTimeout> | null;
+  settledAt: number | null;     // When the last attempt finished, successful or not
+}
+
+// Shared by every key that has never been fetched, so snapshots stay referentially stable
+const IDLE_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: null,
+  isFetching: false,
+};
+
+const isDocumentHidden = (): boolean => typeof document !== 'undefined' && document.visibilityState === 'hidden';
+
+export class QueryClient {
+  private static instance: QueryClient;
+  private readonly entries = new Map<string, QueryEntry>();
+
+  public static getInstance(): QueryClient {
+    if (!QueryClient.instance) {
+      QueryClient.instance = new QueryClient();
+    }
+    return QueryClient.instance;
+  }
+
+  constructor() {
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  getState<T>(key: string): QueryState<T> {
+    const entry = this.entries.get(key) as QueryEntry<T> | undefined;
+    return entry ? entry.state : IDLE_STATE;
+  }
+
+  isStale(key: string, staleTime: number = QUERY_CONFIG.STALE_TIME): boolean {
+    const { updatedAt } = this.getState(key);
+    return updatedAt === null || Date.now() - updatedAt >= staleTime;
+  }
+
+  /**
+   * Register an observer; the returned function removes it and stops polling once nobody polls the key
+   */
+  subscribe<T>(key: string, fetcher: QueryFetcher<T>, observer: QueryObserver): () => void {
+    const entry = this.getEntry(key, fetcher);
+    entry.fetcher = fetcher;
+    entry.observers.add(observer);
+    this.schedule(key);
+
+    return () => {
+      entry.observers.delete(observer);
+      this.schedule(key);
+    };
+  }
+
+  /**
+   * Fetch a key, sharing any request already in flight. Earlier data stays visible while it reloads and after a failure.
+   */
+  fetch<T>(key: string, fetcher?: QueryFetcher<T>): Promise<T> {
+    const entry = this.getEntry(key, fetcher);
+    if (fetcher) entry.fetcher = fetcher;
+    if (entry.promise) return entry.promise;
+
+    this.setState(entry, { isFetching: true });
+    const promise = entry.fetcher().then(
+      data => {
+        entry.promise = null;
+        entry.settledAt = Date.now();
+        this.setState(entry, { data, error: null, updatedAt: Date.now(), isFetching: false });
+        this.schedule(key);
+        return data;
+      },
+      error => {
+        entry.promise = null;
+        entry.settledAt = Date.now();
+        const queryError = error instanceof Error
+          ? error
+          : createError(`Query ${key} failed: ${String(error)}`, 'UNKNOWN_ERROR');
+        this.setState(entry, { error: queryError, isFetching: false });
+        this.schedule(key);
+        throw queryError;
+      }
+    );
+    entry.promise = promise;
+    return promise;
+  }
+
+  private getEntry<T>(key: string, fetcher?: QueryFetcher<T>): QueryEntry<T> {
+    let entry = this.entries.get(key) as QueryEntry<T> | undefined;
+    if (!entry) {
+      if (!fetcher) {
+        throw createError(`No fetcher registered for query ${key}`, 'VALIDATION_ERROR');
+      }
+      entry = { state: IDLE_STATE, fetcher, promise: null, observers: new Set(), timer: null, settledAt: null };
+      this.entries.set(key, entry as QueryEntry);
+    }
+    return entry;
+  }
+
+  private setState<T>(entry: QueryEntry<T>, update: Partial<QueryState<T>>): void {
+    entry.state = { ...entry.state, ...update };
+    entry.observers.forEach(observer => observer.onChange());
+  }
+
+  /**
+   * One timer per key at the shortest interval any observer asked for, counted from the last attempt
+   * so a failing query retries at the polling cadence rather than in a loop
+   */
+  private schedule(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+
+    const intervals = Array.from(entry.observers)
+      .map(observer => observer.refetchInterval)
+      .filter((interval): interval is number => interval !== null && interval > 0);
+    if (intervals.length === 0 || isDocumentHidden() || entry.promise) return;
+
+    const interval = Math.min(...intervals);
+    const elapsed = entry.settledAt === null ? interval : Date.now() - entry.settledAt;
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      this.fetch(key).catch(() => undefined);
+    }, Math.max(0, interval - elapsed));
+  }
+
+  // Hidden tabs stop polling; on return, anything that missed a poll refetches immediately
+  private handleVisibilityChange = (): void => {
+    this.entries.forEach((_entry, key) => this.schedule(key));
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Request Scheduler
+ * Token-bucket rate limiting and in-flight de-duplication for outbound API calls
+ */
+
+import { RATE_LIMITS } from '../constants';
+
+/**
+ * Token bucket that refills continuously; callers past the burst wait their turn in order
+ */
+export class TokenBucket {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(requestsPerMinute: number, capacity: number = requestsPerMinute) {
+    this.capacity = capacity;
+    this.refillPerMs = requestsPerMinute / 60000;
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Resolve once a token is available; a negative balance reserves a slot for queued callers
+   */
+  async take(): Promise<void> {
+    this.refill();
+    this.tokens -= 1;
+    if (this.tokens >= 0) {
+      return;
+    }
+    const waitMs = -this.tokens / this.refillPerMs;
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+  }
+
+  public get available(): number {
+    this.refill();
+    return Math.max(0, Math.floor(this.tokens));
+  }
+}
+
+/**
+ * Runs requests through a token bucket and shares the promise of identical in-flight requests
+ */
+export class RequestScheduler {
+  private readonly bucket: TokenBucket;
+  private readonly inFlight = new Map<string, Promise<any>>();
+
+  constructor(
+    requestsPerMinute: number = RATE_LIMITS.COINGECKO_REQUESTS_PER_MINUTE,
+    burst: number = RATE_LIMITS.COINGECKO_BURST
+  ) {
+    this.bucket = new TokenBucket(requestsPerMinute, burst);
+  }
+
+  schedule<T>(key: string, request: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const pending = this.bucket.take()
+      .then(request)
+      .then(
+        result => {
+          this.inFlight.delete(key);
+          return result;
+        },
+        error => {
+          this.inFlight.delete(key);
+          throw error;
+        }
+      );
+
+    this.inFlight.set(key, pending);
+    return pending;
+  }
+
+  public getStats(): { inFlight: number; availableTokens: number } {
+    return {
+      inFlight: this.inFlight.size,
+      availableTokens: this.bucket.available,
+    };
+  }
+}
+
+/**
+ * Shared scheduler for every CoinGecko call so services draw from one budget
+ */
+export const coinGeckoScheduler = new RequestScheduler();
@@ -0,0 +1,45 @@
+/**
+ * Schedule Loader
+ * Fetches each protocol's emissions schedule file (JSON or CSV under public/) named in PROTOCOL_REGISTRY
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { API_TIMEOUTS, PROTOCOL_BY_TOKEN } from '../constants';
+import { createError, isNetworkError } from '../utils/helpers';
+import { parseScheduleFile } from '../utils/emissionsSchedule';
+import type { ProtocolRegistryEntry, ProtocolToken, TokenSchedule } from '../types';
+
+export class ScheduleLoader {
+  private readonly client: AxiosInstance;
+
+  constructor(client?: AxiosInstance) {
+    this.client = client || axios.create({
+      baseURL: process.env.PUBLIC_URL || '',
+      timeout: API_TIMEOUTS.DEFAULT,
+    });
+  }
+
+  /**
+   * The protocol's schedule, or null when the registry lists none
+   */
+  async load(token: ProtocolToken): Promise<TokenSchedule | null> {
+    const entry: ProtocolRegistryEntry = PROTOCOL_BY_TOKEN[token];
+    const path = entry.emissionsSchedule;
+    if (!path) return null;
+
+    let text: string;
+    try {
+      const response = await this.client.get<string>(`/${path.replace(/^\//, '')}`, {
+        responseType: 'text',
+        transformResponse: [(data: string) => data],
+      });
+      text = response.data;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = isNetworkError(error) ? 'NETWORK_ERROR' : 'API_ERROR';
+      throw createError(`Failed to load emissions schedule ${path} for ${token}: ${message}`, code);
+    }
+
+    return parseScheduleFile(path, text, token);
+  }
+}
@@ -1,7 +1,51 @@
-import type { ProtocolToken, SortOption, SortOrder, LogoSize } from '../constants';
+import type {
+  ProtocolToken,
+  ProtocolName,
+  ProtocolDefinition,
+  SortOption,
+  SortOrder,
+  LogoSize,
+  TimeframeOption,
+  ComparisonMode,
+  DashboardWidgetId,
+  DashboardViewMode,
+  LayoutBreakpoint,
+  ChangePeriod,
+  ChangeMetric,
+  ValuationMetric,
+  RunRateWindow,
+  RunRateMethod,
+  MarketImpactThreshold,
+  SupplyProjectionHorizon,
+  SupplyScenario,
+  ScheduleEventType,
+  ScheduleIntervalUnit
+} from '../constants';
 
 // Re-export types from constants for easier imports
-export type { ProtocolToken, SortOption, SortOrder, LogoSize };
+export type {
+  ProtocolToken,
+  ProtocolName,
+  ProtocolDefinition,
+  SortOption,
+  SortOrder,
+  LogoSize,
+  TimeframeOption,
+  ComparisonMode,
+  DashboardWidgetId,
+  DashboardViewMode,
+  LayoutBreakpoint,
+  ChangePeriod,
+  ChangeMetric,
+  ValuationMetric,
+  RunRateWindow,
+  RunRateMethod,
+  MarketImpactThreshold,
+  SupplyProjectionHorizon,
+  SupplyScenario,
+  ScheduleEventType,
+  ScheduleIntervalUnit
+};
 
 /**
  * Core data interfaces
@@ -33,6 +77,27 @@ export interface ProtocolConfig {
   coingeckoId: string;
 }
 
+export interface TreasuryWallet {
+  label: string;
+  chain: string;
+  address: string;
+  explorerUrl: string;
+}
+
+export interface ProtocolRegistryEntry extends ProtocolConfig {
+  logoUrls: readonly string[];
+  logoGradient: string;                         // Tailwind gradient stops behind the fallback logo
+  mockPrice: number;
+  baseVolume: number;
+  dailyActiveUsers: number;
+  treasuryWallets: readonly TreasuryWallet[];   // Wallets that receive or hold repurchased tokens
+  emissionsSchedule?: string;                   // Path under public/ to a .json or .csv unlock schedule
+}
+
+// Where a stored row's figures came from. Untagged rows predate the field: deltas treat them as
+// sample rows, but only rows tagged 'sample' are ever deleted.
+export type SnapshotSource = 'sample' | 'live';
+
 export interface HistoricalDataPoint {
   timestamp: string;
   protocol: string;
@@ -43,14 +108,298 @@ export interface HistoricalDataPoint {
   cumulative_value?: number;
   cumulative_tokens?: number;
   value_usd?: number;
+  tokens_amount?: number;
+  source?: SnapshotSource;       // 'sample' for generated scenario prices
+}
+
+// Snapshot of a protocol's cumulative buyback position, as returned by getBuybackTrends
+export interface BuybackTrendPoint {
+  timestamp: string;
+  total_value_usd: number;
+  total_repurchased: number;
+  price_per_token: number;
+  trading_volume_24h?: number;
+  estimated_annual_buyback?: number;
+  fee_generation_24h?: number;
+}
+
+// Per-protocol summary across every stored snapshot
+export interface ProtocolPerformance {
+  protocol: string;
+  data_points: number;
+  avg_value_usd: number;
+  max_value_usd: number;
+  min_value_usd: number;
+  avg_supply_reduction: number;
+}
+
+// A single observation of one series, oldest first when in an array
+export interface TimedValue {
+  timestamp: string;
+  value: number;
+}
+
+// Percentage change per period; null when history does not reach back far enough
+export type ChangeSet = Record<ChangePeriod, number | null>;
+
+export type ProtocolChanges = Record<ChangeMetric, ChangeSet>;
+
+// Buyback yield and revenue returned in percent, price-to-buyback as a multiple; null when an input is unknown
+export type ValuationMetrics = Record<ValuationMetric, number | null>;
+
+export type ValuationPoint = { timestamp: string } & ValuationMetrics;
+
+// Annualised buyback with a 95% band; a reported estimate has a zero-width band
+export interface RunRateEstimate {
+  annualized: number;
+  low: number;
+  high: number;
+  method: RunRateMethod;
+  windowDays: RunRateWindow;
+  observedDays: number;          // Days of stored history inside the window
+}
+
+// One stored day's buyback against that day's trading volume; percentages are null without a baseline
+export interface MarketImpactPoint {
+  timestamp: string;
+  buybackUSD: number;            // Bought since the previous snapshot
+  volumeUSD: number | null;      // Trading volume over the same days
+  shareOfVolume: number | null;  // buybackUSD / volumeUSD, in percent
+  rollingShare: number | null;   // Mean shareOfVolume over the trailing rolling window
+  priceReturn: number | null;    // Price change since the previous snapshot, in percent
+  flagged: boolean;              // shareOfVolume above the chosen threshold
+}
+
+export interface MarketImpactSummary {
+  latestShare: number | null;
+  rollingShare: number | null;
+  maxShare: number | null;
+  flaggedDays: number;
+  observedDays: number;          // Days with a share of volume
+}
+
+// Projected circulating supply per scenario at the end of one month; month 0 is today
+export type SupplyProjectionPoint = {
+  month: number;
+  timestamp: string;
+  emitted: number;               // Cumulative tokens emitted and unlocked since today
+} & Record<SupplyScenario, number>;
+
+export interface SupplyProjection {
+  points: SupplyProjectionPoint[];
+  monthlyBuybackTokens: Record<SupplyScenario, number>;
+  crossoverMonth: Record<SupplyScenario, number | null>;  // Null when buybacks never catch up within the horizon
+}
+
+// Running position in repurchased tokens after one stored buyback row
+export interface CostBasisPoint {
+  timestamp: string;
+  tokensHeld: number;
+  costBasis: number;             // USD spent on the tokens held
+  averageCost: number;           // costBasis / tokensHeld
 }
 
+// Repurchased tokens marked to the current price; market figures are null without a price
+export interface CostBasisSummary extends CostBasisPoint {
+  currentPrice: number | null;
+  marketValue: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+}
+
+// One row per timestamp with a value column per series, as consumed by multi-series charts
+export type PivotRow<K extends string = string> = { timestamp: string } & { [P in K]?: number };
+
 export interface ChartDataPoint {
   timestamp: string;
   buybacks: number;      // USD value of buybacks
   revenue: number;       // Protocol revenue  
   tokensBought: number;  // Number of tokens bought back
-  change24h: number;
+  change24h: number | null;     // Change in cumulative buyback value; null without a point 24h earlier
+  price?: number;        // Market price at this point, when history is available
+  costBasis?: number;    // Average cost of tokens repurchased up to this point
+}
+
+/**
+ * Protocol adapter interfaces
+ */
+
+export interface ProtocolRevenue {
+  tradingVolume24h: number;
+  feeGeneration24h: number;
+  totalValueLocked?: number;
+}
+
+export interface BuybackMechanism {
+  feeRate: number;              // Share of traded volume collected as fees
+  feeAllocationPercent: number; // Share of fees routed to buybacks
+  summary: string;
+}
+
+export interface ProtocolSeed {
+  basePrice: number;
+  baseVolume: number;
+  reportedValueUSD: number;    // Totals fetchBuybacks reports; seeded history ends exactly here
+  reportedTokens: number;
+  circulatingSupplyPercent: number;
+  estimatedAnnualBuyback: number;
+}
+
+export interface ProtocolAdapter {
+  readonly name: string;
+  readonly token: ProtocolToken;
+  readonly coingeckoId: string;
+  readonly seed: ProtocolSeed;
+  fetchBuybacks(): Promise<BuybackData>;
+  fetchPrice(): Promise<number>;
+  fetchRevenue(): Promise<ProtocolRevenue>;
+  describeMechanism(): BuybackMechanism;
+  estimateDailyBuyback(volume: number): number;
+  queryProvider(query: string): Promise<any>;
+}
+
+/**
+ * Sample scenario interfaces
+ */
+
+export type ScenarioPresetName = 'baseline' | 'bull' | 'bear' | 'paused' | 'newProtocol';
+
+export interface ScenarioPreset {
+  name: ScenarioPresetName;
+  label: string;
+  description: string;
+  days: number;
+  priceDrift: number;          // Mean daily price return, e.g. 0.01 = +1% per day
+  priceVolatility: number;     // Standard deviation of daily price return
+  volumeMultiplier: number;    // Scales each protocol's base volume
+  volumeVolatility: number;    // Day-to-day volume variance
+  pausedTokens?: string[];     // Protocols whose buybacks stop partway through
+  pauseAfterDays?: number;
+  launchTokens?: string[];     // Protocols that only start trading partway through
+  launchAfterDays?: number;
+}
+
+/**
+ * Emissions schedule interfaces
+ */
+
+// Dates are ISO strings; tokens are whole-token amounts
+export interface CliffUnlock {
+  type: 'cliff';
+  label: string;
+  date: string;
+  tokens: number;
+}
+
+// `tokens` released continuously and evenly between start and end
+export interface LinearVest {
+  type: 'linear';
+  label: string;
+  start: string;
+  end: string;
+  tokens: number;
+}
+
+// `tokens` released at start and every `every` units after it, up to end when given
+export interface RecurringEmission {
+  type: 'recurring';
+  label: string;
+  start: string;
+  end?: string;
+  every: number;
+  unit: ScheduleIntervalUnit;
+  tokens: number;
+}
+
+export type ScheduleEvent = CliffUnlock | LinearVest | RecurringEmission;
+
+export interface TokenSchedule {
+  token: string;
+  source?: string;               // Where the figures come from
+  events: ScheduleEvent[];
+}
+
+// Tokens repurchased vs unlocked over one stored buyback row's period
+export interface NetFlowPoint {
+  timestamp: string;
+  bought: number;
+  unlocked: number;
+  netFlow: number;               // bought - unlocked; positive when buybacks absorb more than unlocks release
+  cumulativeNetFlow: number;
+}
+
+/**
+ * Fee allocation simulator interfaces
+ */
+
+// What-if inputs, in percent
+export interface FeeScenarioInputs {
+  feeAllocationPercent: number;  // Share of fee revenue routed to buybacks
+  revenueGrowthPercent: number;  // Change in fee revenue over the simulated year
+  priceChangePercent: number;    // Change in token price over the simulated year
+}
+
+// A saved scenario; names are unique per protocol
+export interface FeeScenario extends FeeScenarioInputs {
+  name: string;
+  token: ProtocolToken;
+  savedAt: string;
+}
+
+// Today's figures a scenario is applied to; unknown market figures leave dependent results null
+export interface FeeSimulationBaseline {
+  annualRevenue: number;         // Current 24h fee generation × 365
+  feeAllocationPercent: number;
+  price: number;
+  circulatingSupply: number | null;
+}
+
+export interface FeeSimulationResult {
+  annualBuyback: number;         // USD over the simulated year
+  tokensBought: number;
+  averagePrice: number;          // Mean token price along the path
+  supplyReduction: number | null;  // tokensBought / circulating supply, in percent
+  buybackYield: number | null;   // annualBuyback / market cap at the average price, in percent
+}
+
+/**
+ * Market history interfaces
+ */
+
+export type MarketChartSeries = Array<[number, number]>; // [unix ms, value]
+
+export interface MarketChartRangeResponse {
+  prices: MarketChartSeries;
+  market_caps: MarketChartSeries;
+  total_volumes: MarketChartSeries;
+}
+
+// One row of CoinGecko /coins/markets; CoinGecko reports missing figures as null
+export interface CoinMarketResponse {
+  id: string;
+  current_price: number | null;
+  market_cap: number | null;
+  fully_diluted_valuation: number | null;
+  circulating_supply: number | null;
+  total_volume: number | null;
+  last_updated: string | null;
+}
+
+// Current market figures for one token; null where the price source has no value
+export interface TokenMarketData {
+  protocol: string;
+  token: string;
+  price: number | null;
+  marketCap: number | null;
+  fullyDilutedValuation: number | null;
+  circulatingSupply: number | null;
+  volume24h: number | null;        // Spot trading volume
+  updatedAt: string | null;
+  source: 'live' | 'stored' | 'unavailable';  // Live API, latest stored market history, or nothing
+}
+
+export interface MarketChartSource {
+  fetchRange(coingeckoId: string, fromSeconds: number, toSeconds: number): Promise<MarketChartRangeResponse>;
 }
 
 /**
@@ -69,21 +418,16 @@ export interface ChartProps {
   color: string;
   height?: number;
   showVolume?: boolean;
+  timeframe?: TimeframeOption;                          // Controlled timeframe; internal state when omitted
+  onTimeframeChange?: (timeframe: TimeframeOption) => void;
 }
 
-export interface MetricCardProps {
-  title: string;
-  value: string | number;
-  change?: number;
-  icon?: React.ReactNode;
-  color?: string;
-  loading?: boolean;
-}
-
-export interface ProtocolCardProps {
-  protocol: BuybackData;
-  isSelected?: boolean;
-  onClick?: () => void;
+export interface ComparisonChartProps {
+  data: HistoricalDataPoint[];                          // Long format: one row per protocol per snapshot
+  protocols: BuybackData[];                             // Supplies the series list and circulating supply
+  title?: string;
+  height?: number;
+  timeframe?: TimeframeOption;
 }
 
 /**
@@ -103,6 +447,14 @@ export interface CacheEntry<T = any> {
   expiresAt: number;
 }
 
+// Snapshot of one keyed query in the QueryClient; data survives refetches and failures
+export interface QueryState<T> {
+  data: T | undefined;
+  error: Error | null;
+  updatedAt: number | null;
+  isFetching: boolean;
+}
+
 export interface MCPResponse {
   status: 'success' | 'error';
   data: any;
@@ -144,24 +496,101 @@ export interface HistoricalChart {
  * State management interfaces
  */
 
-export interface DashboardState {
-  buybackData: BuybackData[];
-  historicalData: HistoricalDataPoint[];
+// The dashboard's view state, mirrored in the URL
+export interface DashboardView {
   selectedProtocol: string;
   sortBy: SortOption;
   sortOrder: SortOrder;
-  loading: boolean;
-  error: string | null;
-  lastUpdated: Date | null;
+  timeframe: TimeframeOption;
+  runRateWindow: RunRateWindow;
+}
+
+export type AppRoute =
+  | { name: 'dashboard' }
+  | { name: 'protocol'; token: ProtocolToken }
+  | { name: 'notFound' };
+
+
+/**
+ * Dashboard workspace interfaces
+ */
+
+// Grid position of one widget, in grid columns and rows
+export interface WidgetLayout {
+  i: DashboardWidgetId;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  minW?: number;
+  minH?: number;
+}
+
+export type WorkspaceLayouts = Partial<Record<LayoutBreakpoint, WidgetLayout[]>>;
+
+export interface DashboardWorkspace {
+  name: string;
+  widgets: DashboardWidgetId[];
+  layouts: WorkspaceLayouts;
+  viewMode?: DashboardViewMode;  // Preset the workspace was created from; reset restores it
 }
 
 export interface UserPreferences {
-  selectedProtocol: string;
+  version: number;
+  selectedProtocol: string;      // Defaults applied on load when the URL does not set them
   sortBy: SortOption;
   sortOrder: SortOrder;
-  theme: 'dark' | 'light';
+  timeframe: TimeframeOption;
+  theme: ThemePreference;
   autoRefresh: boolean;
-  refreshInterval: number;
+  refreshInterval: number;       // Milliseconds between data refreshes
+  workspaces: DashboardWorkspace[];
+  activeWorkspace: string;
+  feeScenarios: FeeScenario[];   // Saved fee allocation simulator scenarios
+}
+
+/**
+ * Theme interfaces
+ */
+
+export type ThemeMode = 'dark' | 'light';
+
+// A registered theme id, or 'system' to follow prefers-color-scheme
+export type ThemePreference = 'system' | string;
+
+export type GrayShade = 50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900 | 950;
+
+// Semantic colour tokens; each becomes a CSS variable (e.g. surfaceRaised → --color-surface-raised)
+export interface ThemeColors {
+  background: string;
+  surface: string;
+  surfaceRaised: string;
+  surfaceHover: string;
+  surfaceStrong: string;
+  border: string;
+  borderStrong: string;
+  accent: string;
+  accentHover: string;
+  onAccent: string;              // Text and icons drawn on the accent colour
+  warning: string;
+  error: string;
+  success: string;
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+  chartGrid: string;
+  chartAxis: string;
+  gray: Record<GrayShade, string>;
+}
+
+// Resolved hex values for Recharts, which writes colours to SVG attributes
+export type ChartColors = Record<'PRIMARY' | 'SECONDARY' | 'GRID' | 'BACKGROUND' | 'TEXT_PRIMARY' | 'TEXT_SECONDARY' | 'ERROR' | 'SUCCESS', string>;
+
+export interface ThemeDefinition {
+  id: string;
+  label: string;
+  mode: ThemeMode;               // Native control styling and which system preference it answers
+  colors: ThemeColors;
 }
 
 /**
@@ -188,11 +617,13 @@ export interface MotionVariant {
 
 export interface GlobalStats {
   totalCoins: number;
-  totalMarketCap: number;
-  total24hVolume: number;
-  totalTokensBoughtBack: number;
-  totalRevenue: number;
-  dominanceMetrics?: Record<string, number>;
+  totalMarketCap: number | null;            // Sums cover only tokens that report the figure; null when none do
+  totalFullyDilutedValuation: number | null;
+  total24hVolume: number | null;
+  totalBuybackValue: number;                // Cumulative USD repurchased
+  buyback24h: number | null;                // From stored snapshot rows in the last 24h; null without any
+  marketDataCount: number;                  // Tokens with a reported market cap
+  dominanceMetrics: Record<string, number>; // Percent of total buyback USD, by protocol
 }
 
 /**
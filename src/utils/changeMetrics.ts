@@ -0,0 +1,103 @@
+/**
+ * Change Metrics
+ * 24h, 7d, 30d and YTD deltas derived from stored history; a figure is null whenever the history cannot support it
+ */
+
+import { CHANGE_PERIODS, CHANGE_PERIOD_DAYS, DAY_MS } from '../constants';
+import type { ChangePeriod } from '../constants';
+import type {
+  BuybackTrendPoint,
+  ChangeSet,
+  HistoricalDataPoint,
+  ProtocolChanges,
+  TimedValue
+} from '../types';
+
+const toTime = (timestamp: string): number => new Date(timestamp).getTime();
+
+/**
+ * Valid points only, oldest first
+ */
+const toSeries = <T>(items: T[], getTimestamp: (item: T) => string, getValue: (item: T) => number): TimedValue[] => {
+  return items
+    .map(item => ({ timestamp: getTimestamp(item), value: getValue(item) }))
+    .filter(point => Number.isFinite(point.value) && !isNaN(toTime(point.timestamp)))
+    .sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+};
+
+/**
+ * Start of the window a period covers when it ends at the given time
+ */
+export const getPeriodStart = (period: ChangePeriod, end: number): number => {
+  if (period === 'ytd') {
+    return Date.UTC(new Date(end).getUTCFullYear(), 0, 1);
+  }
+  return end - CHANGE_PERIOD_DAYS[period] * DAY_MS;
+};
+
+/**
+ * Index of the last point at or before a time in an ascending series, or -1 when the series starts later
+ */
+const findIndexAtOrBefore = (series: TimedValue[], time: number, endIndex: number): number => {
+  let low = 0;
+  let high = endIndex;
+  let found = -1;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (toTime(series[mid].timestamp) <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * Percentage change over a period ending at series[endIndex] (the latest point by default).
+ * The baseline is the last point at or before the period start, so history that starts inside
+ * the period, or a zero baseline, yields null rather than an estimate.
+ */
+export const calculatePeriodChange = (
+  series: TimedValue[],
+  period: ChangePeriod,
+  endIndex: number = series.length - 1
+): number | null => {
+  if (endIndex < 1 || endIndex >= series.length) return null;
+
+  const end = series[endIndex];
+  const baselineIndex = findIndexAtOrBefore(series, getPeriodStart(period, toTime(end.timestamp)), endIndex - 1);
+  if (baselineIndex < 0) return null;
+
+  const baseline = series[baselineIndex].value;
+  if (baseline === 0) return null;
+
+  return ((end.value - baseline) / Math.abs(baseline)) * 100;
+};
+
+export const calculateChangeSet = (series: TimedValue[]): ChangeSet => {
+  return CHANGE_PERIODS.reduce((changes, period) => {
+    changes[period] = calculatePeriodChange(series, period);
+    return changes;
+  }, {} as ChangeSet);
+};
+
+/**
+ * Changes in one protocol's buyback value, tokens bought and price. Price comes from market
+ * history when any is stored and otherwise from the price recorded with each buyback snapshot.
+ */
+export const calculateProtocolChanges = (
+  trends: BuybackTrendPoint[],
+  priceHistory: HistoricalDataPoint[] = []
+): ProtocolChanges => {
+  const priceSeries = priceHistory.length > 0
+    ? toSeries(priceHistory, point => point.timestamp, point => point.price)
+    : toSeries(trends, point => point.timestamp, point => point.price_per_token);
+
+  return {
+    buybackValue: calculateChangeSet(toSeries(trends, point => point.timestamp, point => point.total_value_usd)),
+    tokensBought: calculateChangeSet(toSeries(trends, point => point.timestamp, point => point.total_repurchased)),
+    price: calculateChangeSet(priceSeries),
+  };
+};
@@ -0,0 +1,72 @@
+/**
+ * Cost Basis
+ * Average acquisition price of repurchased tokens from stored buyback rows (HistoricalChart
+ * value_usd / tokens_amount), marked to the current price for unrealised PnL.
+ * Repurchased tokens are treated as still held: the sources report no burns, sales or
+ * redistributions, so a burned supply is valued as if it sat in the treasury.
+ */
+
+import type { CostBasisPoint, CostBasisSummary, HistoricalDataPoint } from '../types';
+
+type BuybackRow = Pick<
+  HistoricalDataPoint,
+  'timestamp' | 'value_usd' | 'tokens_amount' | 'cumulative_value' | 'cumulative_tokens'
+>;
+
+const toNumber = (value: number | undefined): number => {
+  return typeof value === 'number' && isFinite(value) ? value : 0;
+};
+
+/**
+ * Running position after each row, oldest first.
+ *
+ * Rows only cover the queried window, so the position held before the first row is taken from
+ * its cumulative totals less its own purchase; each later row then adds what it bought. Rows
+ * before any tokens are held are skipped, since they have no average cost.
+ */
+export const buildCostBasisSeries = (rows: BuybackRow[]): CostBasisPoint[] => {
+  const sorted = [...rows].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  if (sorted.length === 0) return [];
+
+  const first = sorted[0];
+  let costBasis = toNumber(first.cumulative_value) - toNumber(first.value_usd);
+  let tokensHeld = toNumber(first.cumulative_tokens) - toNumber(first.tokens_amount);
+
+  const points: CostBasisPoint[] = [];
+  sorted.forEach(row => {
+    costBasis += toNumber(row.value_usd);
+    tokensHeld += toNumber(row.tokens_amount);
+    if (tokensHeld <= 0 || costBasis <= 0) return;
+
+    points.push({
+      timestamp: row.timestamp,
+      tokensHeld,
+      costBasis,
+      averageCost: costBasis / tokensHeld,
+    });
+  });
+  return points;
+};
+
+/**
+ * Latest position marked to `currentPrice`; null when no row holds any tokens
+ */
+export const calculateCostBasis = (rows: BuybackRow[], currentPrice?: number): CostBasisSummary | null => {
+  const series = buildCostBasisSeries(rows);
+  const latest = series[series.length - 1];
+  if (!latest) return null;
+
+  const price = typeof currentPrice === 'number' && isFinite(currentPrice) && currentPrice > 0 ? currentPrice : null;
+  const marketValue = price === null ? null : latest.tokensHeld * price;
+  const unrealizedPnl = marketValue === null ? null : marketValue - latest.costBasis;
+
+  return {
+    ...latest,
+    currentPrice: price,
+    marketValue,
+    unrealizedPnl,
+    unrealizedPnlPercent: unrealizedPnl === null ? null : (unrealizedPnl / latest.costBasis) * 100,
+  };
+};
@@ -0,0 +1,217 @@
+/**
+ * Emissions Schedule
+ * Parsing of JSON/CSV unlock schedules (cliffs, linear vests, recurring emissions), the
+ * "tokens unlocked between t1 and t2" query, and net token flow against stored buybacks
+ */
+
+import {
+  DAY_MS,
+  SCHEDULE_CONFIG,
+  SCHEDULE_EVENT_TYPES,
+  SCHEDULE_INTERVAL_UNITS,
+  SNAPSHOT_CONFIG
+} from '../constants';
+import type { ScheduleIntervalUnit } from '../constants';
+import { createError } from './helpers';
+import type { HistoricalDataPoint, NetFlowPoint, ScheduleEvent, TokenSchedule } from '../types';
+
+const CSV_COLUMNS = ['type', 'label', 'date', 'start', 'end', 'tokens', 'every', 'unit'] as const;
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T => {
+  return typeof value === 'string' && (options as readonly string[]).includes(value);
+};
+
+const toTime = (date: string): number => new Date(date).getTime();
+
+const invalid = (token: string, message: string): Error => {
+  return createError(`Invalid emissions schedule for ${token}: ${message}`, 'VALIDATION_ERROR');
+};
+
+const readDate = (token: string, label: string, field: string, value: unknown): string => {
+  if (typeof value !== 'string' || isNaN(toTime(value))) {
+    throw invalid(token, `"${label}" needs a valid ${field} date`);
+  }
+  return new Date(value).toISOString();
+};
+
+const readAmount = (token: string, label: string, field: string, value: unknown): number => {
+  const amount = typeof value === 'string' ? Number(value) : value;
+  if (typeof amount !== 'number' || !isFinite(amount) || amount < 0) {
+    throw invalid(token, `"${label}" needs a non-negative ${field}`);
+  }
+  return amount;
+};
+
+/**
+ * Validate one event; string fields (as read from CSV) are converted
+ */
+const readEvent = (token: string, raw: Record<string, unknown>, index: number): ScheduleEvent => {
+  const label = typeof raw.label === 'string' && raw.label ? raw.label : `Event ${index + 1}`;
+  if (!isOneOf(SCHEDULE_EVENT_TYPES, raw.type)) {
+    throw invalid(token, `"${label}" has unknown type "${raw.type}"; expected ${SCHEDULE_EVENT_TYPES.join(', ')}`);
+  }
+  const tokens = readAmount(token, label, 'tokens', raw.tokens);
+
+  switch (raw.type) {
+    case 'cliff':
+      return { type: 'cliff', label, tokens, date: readDate(token, label, 'date', raw.date) };
+    case 'linear': {
+      const start = readDate(token, label, 'start', raw.start);
+      const end = readDate(token, label, 'end', raw.end);
+      if (toTime(end) <= toTime(start)) throw invalid(token, `"${label}" ends before it starts`);
+      return { type: 'linear', label, tokens, start, end };
+    }
+    case 'recurring': {
+      const every = readAmount(token, label, 'interval', raw.every);
+      if (every < 1 || Math.round(every) !== every) throw invalid(token, `"${label}" needs a whole interval of at least 1`);
+      if (!isOneOf(SCHEDULE_INTERVAL_UNITS, raw.unit)) {
+        throw invalid(token, `"${label}" has unknown unit "${raw.unit}"; expected ${SCHEDULE_INTERVAL_UNITS.join(', ')}`);
+      }
+      const hasEnd = raw.end !== undefined && raw.end !== '';
+      return {
+        type: 'recurring',
+        label,
+        tokens,
+        start: readDate(token, label, 'start', raw.start),
+        ...(hasEnd ? { end: readDate(token, label, 'end', raw.end) } : {}),
+        every,
+        unit: raw.unit,
+      };
+    }
+  }
+};
+
+/**
+ * Schedule from parsed JSON: { "source"?: string, "events": [...] }
+ */
+export const parseScheduleJson = (raw: unknown, token: string): TokenSchedule => {
+  const data = raw as { source?: unknown; events?: unknown } | null;
+  if (!data || typeof data !== 'object' || !Array.isArray(data.events)) {
+    throw invalid(token, 'expected an object with an "events" array');
+  }
+
+  return {
+    token,
+    ...(typeof data.source === 'string' ? { source: data.source } : {}),
+    events: data.events.map((event, index) => readEvent(token, (event || {}) as Record<string, unknown>, index)),
+  };
+};
+
+/**
+ * Schedule from CSV with a header row naming any of: type, label, date, start, end, tokens, every, unit.
+ * Lines starting with # are comments; "# source: ..." sets the schedule's source. Fields cannot contain commas.
+ */
+export const parseScheduleCsv = (text: string, token: string): TokenSchedule => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+  const sourceLine = lines.find(line => /^#\s*source:/i.test(line));
+  const rows = lines.filter(line => !line.startsWith('#')).map(line => line.split(',').map(cell => cell.trim()));
+
+  const header = rows[0];
+  if (!header || !header.some(column => column === 'type')) {
+    throw invalid(token, `CSV needs a header row with a "type" column (columns: ${CSV_COLUMNS.join(', ')})`);
+  }
+
+  const events = rows.slice(1).map((cells, index) => {
+    const raw: Partial<Record<CsvColumn, string>> = {};
+    header.forEach((column, i) => {
+      if (isOneOf(CSV_COLUMNS, column) && cells[i] !== undefined && cells[i] !== '') raw[column] = cells[i];
+    });
+    return readEvent(token, raw, index);
+  });
+
+  return {
+    token,
+    ...(sourceLine ? { source: sourceLine.replace(/^#\s*source:\s*/i, '') } : {}),
+    events,
+  };
+};
+
+/**
+ * Parse a schedule file by extension (.json or .csv)
+ */
+export const parseScheduleFile = (path: string, text: string, token: string): TokenSchedule => {
+  if (/\.json$/i.test(path)) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch (error: unknown) {
+      throw invalid(token, `${path} is not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+    }
+    return parseScheduleJson(raw, token);
+  }
+  if (/\.csv$/i.test(path)) {
+    return parseScheduleCsv(text, token);
+  }
+  throw invalid(token, `${path} must be a .json or .csv file`);
+};
+
+const addInterval = (start: number, count: number, unit: ScheduleIntervalUnit): number => {
+  if (unit === 'month') {
+    const date = new Date(start);
+    date.setUTCMonth(date.getUTCMonth() + count);
+    return date.getTime();
+  }
+  return start + count * (unit === 'week' ? 7 : 1) * DAY_MS;
+};
+
+/**
+ * Tokens one event releases in the half-open interval (from, to]
+ */
+const releasedBetween = (event: ScheduleEvent, from: number, to: number): number => {
+  switch (event.type) {
+    case 'cliff': {
+      const time = toTime(event.date);
+      return time > from && time <= to ? event.tokens : 0;
+    }
+    case 'linear': {
+      const start = toTime(event.start);
+      const end = toTime(event.end);
+      const overlap = Math.min(to, end) - Math.max(from, start);
+      return overlap > 0 ? event.tokens * (overlap / (end - start)) : 0;
+    }
+    case 'recurring': {
+      const start = toTime(event.start);
+      const last = Math.min(to, event.end ? toTime(event.end) : Infinity);
+      let released = 0;
+      for (let i = 0; i < SCHEDULE_CONFIG.MAX_RELEASES; i++) {
+        const time = addInterval(start, i * event.every, event.unit);
+        if (time > last) break;
+        if (time > from) released += event.tokens;
+      }
+      return released;
+    }
+  }
+};
+
+/**
+ * Tokens the schedule releases after t1 and up to and including t2
+ */
+export const tokensUnlockedBetween = (schedule: TokenSchedule, t1: string | Date, t2: string | Date): number => {
+  const from = new Date(t1).getTime();
+  const to = new Date(t2).getTime();
+  if (isNaN(from) || isNaN(to) || to <= from) return 0;
+  return schedule.events.reduce((total, event) => total + releasedBetween(event, from, to), 0);
+};
+
+type BuybackRow = Pick<HistoricalDataPoint, 'timestamp' | 'tokens_amount'>;
+
+/**
+ * Tokens bought vs unlocked over each stored buyback row's period, oldest first. A row covers the
+ * time since the previous row; the first row is taken to cover one snapshot bucket.
+ */
+export const buildNetFlowSeries = (rows: BuybackRow[], schedule: TokenSchedule): NetFlowPoint[] => {
+  const sorted = [...rows].sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+
+  let cumulativeNetFlow = 0;
+  return sorted.map((row, index) => {
+    const periodStart = index > 0
+      ? sorted[index - 1].timestamp
+      : new Date(toTime(row.timestamp) - SNAPSHOT_CONFIG.BUCKET_MS);
+    const bought = Math.max(0, row.tokens_amount || 0);
+    const unlocked = tokensUnlockedBetween(schedule, periodStart, row.timestamp);
+    cumulativeNetFlow += bought - unlocked;
+
+    return { timestamp: row.timestamp, bought, unlocked, netFlow: bought - unlocked, cumulativeNetFlow };
+  });
+};
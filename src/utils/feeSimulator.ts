@@ -0,0 +1,139 @@
+/**
+ * Fee Allocation Simulator
+ * Projected annual buyback, supply reduction and yield when a protocol's fee allocation, revenue
+ * growth or token price path differ from today, plus validation and export of saved scenarios
+ */
+
+import { FEE_SIMULATOR_CONFIG, FEE_SIMULATOR_RANGES } from '../constants';
+import { clamp, isValidProtocolToken } from './helpers';
+import { calculateBuybackYield } from './valuationMetrics';
+import type {
+  FeeScenario,
+  FeeScenarioInputs,
+  FeeSimulationBaseline,
+  FeeSimulationResult
+} from '../types';
+
+type Range = { min: number; max: number };
+
+const MONTHS_PER_YEAR = 12;
+
+const isNumberIn = (value: unknown, range: Range): value is number => {
+  return typeof value === 'number' && isFinite(value) && value >= range.min && value <= range.max;
+};
+
+/**
+ * Inputs that reproduce today: current allocation, flat revenue and flat price
+ */
+export const getBaselineInputs = (baseline: FeeSimulationBaseline): FeeScenarioInputs => ({
+  feeAllocationPercent: clamp(baseline.feeAllocationPercent, FEE_SIMULATOR_RANGES.FEE_ALLOCATION.min, FEE_SIMULATOR_RANGES.FEE_ALLOCATION.max),
+  revenueGrowthPercent: 0,
+  priceChangePercent: 0,
+});
+
+/**
+ * Simulate FEE_SIMULATOR_CONFIG.MONTHS months. Revenue and price compound monthly so that month 12
+ * reaches the full growth and price change; each month's buyback buys tokens at that month's price.
+ */
+export const simulateFeeScenario = (
+  baseline: FeeSimulationBaseline,
+  inputs: FeeScenarioInputs
+): FeeSimulationResult => {
+  const months = FEE_SIMULATOR_CONFIG.MONTHS;
+  const revenueRate = Math.pow(1 + inputs.revenueGrowthPercent / 100, 1 / months);
+  const priceRate = Math.pow(1 + inputs.priceChangePercent / 100, 1 / months);
+  const allocation = inputs.feeAllocationPercent / 100;
+
+  let annualBuyback = 0;
+  let tokensBought = 0;
+  let priceSum = 0;
+  for (let month = 1; month <= months; month++) {
+    const buyback = (baseline.annualRevenue / MONTHS_PER_YEAR) * Math.pow(revenueRate, month) * allocation;
+    const price = baseline.price * Math.pow(priceRate, month);
+    annualBuyback += buyback;
+    tokensBought += price > 0 ? buyback / price : 0;
+    priceSum += price;
+  }
+
+  const averagePrice = priceSum / months;
+  const supply = baseline.circulatingSupply !== null && baseline.circulatingSupply > 0 ? baseline.circulatingSupply : null;
+
+  return {
+    annualBuyback,
+    tokensBought,
+    averagePrice,
+    supplyReduction: supply === null ? null : (tokensBought / supply) * 100,
+    buybackYield: supply === null ? null : calculateBuybackYield(annualBuyback, supply * averagePrice),
+  };
+};
+
+/**
+ * Drop malformed stored scenarios, keeping the newest MAX_SAVED_SCENARIOS
+ */
+export const sanitizeFeeScenarios = (value: unknown): FeeScenario[] => {
+  const scenarios = (Array.isArray(value) ? value : []).filter((item): item is FeeScenario => {
+    const scenario = item as Partial<FeeScenario> | null;
+    return !!scenario &&
+      typeof scenario.name === 'string' && scenario.name.trim() !== '' &&
+      typeof scenario.token === 'string' && isValidProtocolToken(scenario.token) &&
+      typeof scenario.savedAt === 'string' &&
+      isNumberIn(scenario.feeAllocationPercent, FEE_SIMULATOR_RANGES.FEE_ALLOCATION) &&
+      isNumberIn(scenario.revenueGrowthPercent, FEE_SIMULATOR_RANGES.REVENUE_GROWTH) &&
+      isNumberIn(scenario.priceChangePercent, FEE_SIMULATOR_RANGES.PRICE_CHANGE);
+  });
+  return scenarios.slice(-FEE_SIMULATOR_CONFIG.MAX_SAVED_SCENARIOS);
+};
+
+/**
+ * Add a scenario, replacing any saved one with the same protocol and name
+ */
+export const upsertFeeScenario = (scenarios: FeeScenario[], scenario: FeeScenario): FeeScenario[] => {
+  const others = scenarios.filter(item => !(item.token === scenario.token && item.name === scenario.name));
+  return [...others, scenario].slice(-FEE_SIMULATOR_CONFIG.MAX_SAVED_SCENARIOS);
+};
+
+export interface FeeScenarioExportRow {
+  scenario: FeeScenario;
+  result: FeeSimulationResult;
+}
+
+const CSV_HEADER = [
+  'protocol_token',
+  'scenario',
+  'saved_at',
+  'fee_allocation_percent',
+  'revenue_growth_percent',
+  'price_change_percent',
+  'annual_buyback_usd',
+  'tokens_bought',
+  'average_price_usd',
+  'supply_reduction_percent',
+  'buyback_yield_percent',
+];
+
+// Quote a CSV field when it holds a delimiter, quote or newline
+const csvField = (value: string | number | null): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportFeeScenariosCsv = (rows: FeeScenarioExportRow[]): string => {
+  const lines = rows.map(({ scenario, result }) => [
+    scenario.token,
+    scenario.name,
+    scenario.savedAt,
+    scenario.feeAllocationPercent,
+    scenario.revenueGrowthPercent,
+    scenario.priceChangePercent,
+    result.annualBuyback,
+    result.tokensBought,
+    result.averagePrice,
+    result.supplyReduction,
+    result.buybackYield,
+  ].map(csvField).join(','));
+  return [CSV_HEADER.join(','), ...lines].join('\n');
+};
+
+export const exportFeeScenariosJson = (rows: FeeScenarioExportRow[]): string => {
+  return JSON.stringify(rows.map(({ scenario, result }) => ({ ...scenario, result })), null, 2);
+};
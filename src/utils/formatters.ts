@@ -3,6 +3,7 @@
  */
 
 import { NUMBER_FORMATS } from '../constants';
+import type { ValuationMetric } from '../constants';
 
 /**
  * Format a number as currency with appropriate suffixes (K, M, B)
@@ -23,6 +24,22 @@ export const formatCurrency = (num: number, decimals: number = NUMBER_FORMATS.CU
   })}`;
 };
 
+/**
+ * Format a figure the source may not report; null shows as n/a
+ */
+export const formatOptionalCurrency = (num: number | null, decimals: number = NUMBER_FORMATS.CURRENCY_DECIMALS): string => {
+  return num === null ? 'n/a' : formatCurrency(num, decimals);
+};
+
+/**
+ * Format a gain or loss with its sign, e.g. +$1.20M / -$350.00K; null shows as n/a
+ */
+export const formatSignedCurrency = (num: number | null, decimals: number = NUMBER_FORMATS.CURRENCY_DECIMALS): string => {
+  if (num === null) return 'n/a';
+  const sign = num > 0 ? '+' : num < 0 ? '-' : '';
+  return `${sign}${formatCurrency(Math.abs(num), decimals)}`;
+};
+
 /**
  * Format a number as volume with appropriate suffixes
  */
@@ -54,6 +71,31 @@ export const formatPercentage = (
   return `${sign}${num.toFixed(decimals)}%`;
 };
 
+/**
+ * Format a signed percentage change; null (not enough history) shows as n/a
+ */
+export const formatChange = (
+  change: number | null,
+  decimals: number = NUMBER_FORMATS.PERCENTAGE_DECIMALS
+): string => {
+  return change === null ? 'n/a' : formatPercentage(change, decimals, true);
+};
+
+/**
+ * Format a ratio as a multiple, e.g. 12.5x
+ */
+export const formatMultiple = (num: number, decimals: number = 1): string => {
+  return `${num.toFixed(decimals)}x`;
+};
+
+/**
+ * Format a valuation metric in its own unit; null (missing market data or revenue) shows as n/a
+ */
+export const formatValuationMetric = (metric: ValuationMetric, value: number | null): string => {
+  if (value === null) return 'n/a';
+  return metric === 'buybackMultiple' ? formatMultiple(value) : formatPercentage(value);
+};
+
 /**
  * Format a number as a price with appropriate decimal places
  */
@@ -102,6 +144,20 @@ export const formatChartDate = (timestamp: string | Date): string => {
   });
 };
 
+/**
+ * Format an intraday chart timestamp, e.g. Oct 19, 14:00
+ */
+export const formatChartDateTime = (timestamp: string | Date): string => {
+  const d = typeof timestamp === 'string' ? new Date(timestamp) : timestamp;
+  return d.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+};
+
 /**
  * Truncate text with ellipsis
  */
@@ -2,8 +2,9 @@
  * Utility helper functions for common operations
  */
 
-import { VALIDATION_LIMITS, PROTOCOL_COLORS, PROTOCOL_TOKENS, COINGECKO_IDS } from '../constants';
+import { DAY_MS, VALIDATION_LIMITS, PROTOCOL_COLORS, PROTOCOL_TOKENS, COINGECKO_IDS, PROTOCOL_BY_TOKEN } from '../constants';
 import type { ProtocolToken, SortOrder } from '../constants';
+import type { BuybackData, ProtocolRegistryEntry } from '../types';
 
 /**
  * Type guards and validation functions
@@ -38,16 +39,55 @@ export const getCoingeckoId = (token: ProtocolToken): string => {
 };
 
 export const getProtocolFromToken = (token: ProtocolToken): string => {
-  const protocolMap: Record<ProtocolToken, string> = {
-    HYPE: 'Hyperliquid',
-    JUP: 'Jupiter',
-    AAVE: 'Aave',
-    JTO: 'Jito',
-    PUMP: 'Pump.fun',
-    DBR: 'DeBridge',
-    FLUID: 'Fluid',
-  };
-  return protocolMap[token];
+  return PROTOCOL_BY_TOKEN[token]?.name ?? token;
+};
+
+export const getTokenFromProtocol = (protocol: string): ProtocolToken | undefined => {
+  return PROTOCOL_TOKENS.find(token => PROTOCOL_BY_TOKEN[token].name === protocol);
+};
+
+/**
+ * Check registry entries for duplicates and missing fields; throws on the first run with problems
+ */
+export const validateProtocolRegistry = (registry: readonly ProtocolRegistryEntry[]): void => {
+  const problems: string[] = [];
+  const seen = { token: new Set<string>(), name: new Set<string>(), coingeckoId: new Set<string>() };
+
+  registry.forEach((entry, index) => {
+    const label = entry.token || `entry ${index}`;
+
+    (['token', 'name', 'coingeckoId'] as const).forEach(field => {
+      const value = entry[field];
+      if (!value) {
+        problems.push(`${label} is missing ${field}`);
+      } else if (seen[field].has(value)) {
+        problems.push(`duplicate ${field} "${value}"`);
+      } else {
+        seen[field].add(value);
+      }
+    });
+
+    if (!/^#[0-9a-fA-F]{6}$/.test(entry.color)) {
+      problems.push(`${label} has invalid color "${entry.color}"`);
+    }
+    if (entry.logoUrls.length === 0) {
+      problems.push(`${label} has no logo URLs`);
+    }
+    if (!/^from-\S+ to-\S+$/.test(entry.logoGradient)) {
+      problems.push(`${label} has invalid logo gradient "${entry.logoGradient}"`);
+    }
+    if (!isValidPrice(entry.mockPrice)) {
+      problems.push(`${label} has out-of-range mock price`);
+    }
+  });
+
+  if (!isValidProtocolCount(registry.length)) {
+    problems.push(`expected between ${VALIDATION_LIMITS.MIN_PROTOCOL_COUNT} and ${VALIDATION_LIMITS.MAX_PROTOCOL_COUNT} protocols, found ${registry.length}`);
+  }
+
+  if (problems.length > 0) {
+    throw createError(`Invalid protocol registry: ${problems.join('; ')}`, 'VALIDATION_ERROR');
+  }
 };
 
 /**
@@ -83,6 +123,36 @@ export const filterBySearch = <T>(
  * Date and time utilities
  */
 
+export const getTimeBucketStart = (timestamp: string | Date, bucketMs: number): number => {
+  const time = new Date(timestamp).getTime();
+  return time - (time % bucketMs);
+};
+
+/**
+ * Keep the last point in each time bucket, re-stamped to the bucket start; input must be sorted ascending
+ */
+export const rebucketTimeSeries = <T extends { timestamp: string }>(points: T[], bucketMs: number): T[] => {
+  const buckets = new Map<number, T>();
+  points.forEach(point => {
+    buckets.set(getTimeBucketStart(point.timestamp, bucketMs), point);
+  });
+
+  return Array.from(buckets.entries()).map(([bucketStart, point]) => ({
+    ...point,
+    timestamp: new Date(bucketStart).toISOString(),
+  }));
+};
+
+/**
+ * Points within the last N days of the newest point; input must be sorted ascending
+ */
+export const sliceTimeWindow = <T extends { timestamp: string }>(points: T[], days: number): T[] => {
+  if (points.length === 0) return points;
+  const end = new Date(points[points.length - 1].timestamp).getTime();
+  const start = end - days * DAY_MS;
+  return points.filter(point => new Date(point.timestamp).getTime() >= start);
+};
+
 export const generateDateRange = (days: number): Date[] => {
   const dates: Date[] = [];
   const now = new Date();
@@ -103,7 +173,7 @@ export const isToday = (date: Date): boolean => {
 
 export const isWithinLastDays = (date: Date, days: number): boolean => {
   const now = new Date();
-  const daysAgo = new Date(now.getTime() - (days * 24 * 60 * 60 * 1000));
+  const daysAgo = new Date(now.getTime() - (days * DAY_MS));
   return date >= daysAgo;
 };
 
@@ -116,8 +186,22 @@ export const calculatePercentageChange = (current: number, previous: number): nu
   return ((current - previous) / previous) * 100;
 };
 
-export const generateVariance = (base: number, variancePercent: number = 0.2): number => {
-  const variance = 1 + (Math.random() - 0.5) * 2 * variancePercent;
+/**
+ * Circulating supply implied by cumulative repurchases and the share of supply they represent
+ */
+export const getImpliedCirculatingSupply = (
+  data: Pick<BuybackData, 'totalRepurchased' | 'circulatingSupplyPercent'>
+): number | null => {
+  if (data.circulatingSupplyPercent <= 0 || data.totalRepurchased <= 0) return null;
+  return data.totalRepurchased / (data.circulatingSupplyPercent / 100);
+};
+
+export const generateVariance = (
+  base: number,
+  variancePercent: number = 0.2,
+  random: () => number = Math.random
+): number => {
+  const variance = 1 + (random() - 0.5) * 2 * variancePercent;
   return base * variance;
 };
 
@@ -256,4 +340,18 @@ export const safeLocalStorageRemove = (key: string): boolean => {
     console.warn(`Error removing localStorage key "${key}":`, error);
     return false;
   }
-};
\ No newline at end of file
+};
+/**
+ * File download utilities
+ */
+
+export const downloadTextFile = (filename: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
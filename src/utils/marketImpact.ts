@@ -0,0 +1,77 @@
+/**
+ * Market Impact
+ * Daily buyback USD as a share of the trading volume stored with each BuybackRecord,
+ * with a rolling average, threshold flags and the price return over the same days
+ */
+
+import { DAY_MS, MARKET_IMPACT_CONFIG } from '../constants';
+import type { BuybackTrendPoint, MarketImpactPoint, MarketImpactSummary } from '../types';
+
+const isPositive = (value: number | null | undefined): value is number => {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+};
+
+/**
+ * One point per stored snapshot after the first, oldest first.
+ *
+ * A snapshot's buyback is the growth in cumulative USD since the previous one. Snapshots are
+ * stored once a day but may skip days, so the buyback is compared against the stored 24h volume
+ * times the days elapsed. The first snapshot has no baseline and only anchors the next one.
+ */
+export const buildMarketImpactSeries = (
+  trends: BuybackTrendPoint[],
+  thresholdPercent: number,
+  rollingDays: number = MARKET_IMPACT_CONFIG.ROLLING_DAYS
+): MarketImpactPoint[] => {
+  const sorted = [...trends].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  const points: MarketImpactPoint[] = [];
+  const shares: Array<{ time: number; share: number }> = [];
+
+  sorted.forEach((snapshot, index) => {
+    if (index === 0) return;
+    const previous = sorted[index - 1];
+    const time = new Date(snapshot.timestamp).getTime();
+    const elapsedDays = Math.max(1, Math.round((time - new Date(previous.timestamp).getTime()) / DAY_MS));
+
+    const buybackUSD = Math.max(0, snapshot.total_value_usd - previous.total_value_usd);
+    const volumeUSD = isPositive(snapshot.trading_volume_24h) ? snapshot.trading_volume_24h * elapsedDays : null;
+    const shareOfVolume = volumeUSD === null ? null : (buybackUSD / volumeUSD) * 100;
+
+    if (shareOfVolume !== null) shares.push({ time, share: shareOfVolume });
+    const windowShares = shares.filter(entry => entry.time > time - rollingDays * DAY_MS);
+
+    points.push({
+      timestamp: snapshot.timestamp,
+      buybackUSD,
+      volumeUSD,
+      shareOfVolume,
+      rollingShare: windowShares.length > 0
+        ? windowShares.reduce((sum, entry) => sum + entry.share, 0) / windowShares.length
+        : null,
+      priceReturn: isPositive(previous.price_per_token) && isPositive(snapshot.price_per_token)
+        ? ((snapshot.price_per_token - previous.price_per_token) / previous.price_per_token) * 100
+        : null,
+      flagged: shareOfVolume !== null && shareOfVolume > thresholdPercent,
+    });
+  });
+
+  return points;
+};
+
+export const summarizeMarketImpact = (points: MarketImpactPoint[]): MarketImpactSummary => {
+  const shares = points
+    .map(point => point.shareOfVolume)
+    .filter((share): share is number => share !== null);
+  const latest = points[points.length - 1];
+
+  return {
+    latestShare: latest ? latest.shareOfVolume : null,
+    rollingShare: latest ? latest.rollingShare : null,
+    maxShare: shares.length > 0 ? Math.max(...shares) : null,
+    flaggedDays: points.filter(point => point.flagged).length,
+    observedDays: shares.length,
+  };
+};
@@ -0,0 +1,46 @@
+/**
+ * Market Statistics
+ * Aggregates across protocols for the global stats bar; totals only add figures the sources actually report
+ */
+
+import type { BuybackData, GlobalStats, TokenMarketData } from '../types';
+
+/**
+ * Sum of the reported values, or null when nothing reported one
+ */
+const sumReported = (values: Array<number | null>): number | null => {
+  const reported = values.filter((value): value is number => value !== null);
+  return reported.length > 0 ? reported.reduce((sum, value) => sum + value, 0) : null;
+};
+
+/**
+ * Each protocol's share of total buyback USD, in percent
+ */
+export const calculateDominance = (buybackData: BuybackData[]): Record<string, number> => {
+  const total = buybackData.reduce((sum, data) => sum + data.totalValueUSD, 0);
+  return buybackData.reduce<Record<string, number>>((shares, data) => {
+    shares[data.protocol] = total > 0 ? (data.totalValueUSD / total) * 100 : 0;
+    return shares;
+  }, {});
+};
+
+export const calculateGlobalStats = (
+  buybackData: BuybackData[],
+  marketData: TokenMarketData[],
+  recentBuybacks: Record<string, number | null>
+): GlobalStats => {
+  // Only tokens tracked on the dashboard count towards market totals
+  const tracked = marketData.filter(market => buybackData.some(data => data.token === market.token));
+  const recent = buybackData.map(data => recentBuybacks[data.protocol] ?? null);
+
+  return {
+    totalCoins: buybackData.length,
+    totalMarketCap: sumReported(tracked.map(market => market.marketCap)),
+    totalFullyDilutedValuation: sumReported(tracked.map(market => market.fullyDilutedValuation)),
+    total24hVolume: sumReported(tracked.map(market => market.volume24h)),
+    totalBuybackValue: buybackData.reduce((sum, data) => sum + data.totalValueUSD, 0),
+    buyback24h: sumReported(recent),
+    marketDataCount: tracked.filter(market => market.marketCap !== null).length,
+    dominanceMetrics: calculateDominance(buybackData),
+  };
+};
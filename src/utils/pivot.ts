@@ -0,0 +1,78 @@
+/**
+ * Series Pivot
+ * Reshape long-format rows (one per series per timestamp) into wide rows for multi-series charts
+ */
+
+import { getTimeBucketStart } from './helpers';
+import type { PivotRow } from '../types';
+
+export interface PivotOptions<T, K extends string> {
+  seriesKey: (row: T) => K;
+  value: (row: T) => number | undefined;
+  bucketMs?: number;    // Align timestamps to bucket starts; the last value in a bucket wins
+}
+
+const toTime = (timestamp: string): number => new Date(timestamp).getTime();
+
+/**
+ * Pivot rows into one row per timestamp, sorted ascending; series without a value at a timestamp are left undefined
+ */
+export const pivotByTimestamp = <T extends { timestamp: string }, K extends string>(
+  rows: T[],
+  { seriesKey, value, bucketMs }: PivotOptions<T, K>
+): PivotRow<K>[] => {
+  const pivoted = new Map<number, PivotRow<K>>();
+  const sortedRows = [...rows].sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+
+  sortedRows.forEach(row => {
+    const rowValue = value(row);
+    if (rowValue === undefined || !Number.isFinite(rowValue)) return;
+
+    const time = bucketMs ? getTimeBucketStart(row.timestamp, bucketMs) : toTime(row.timestamp);
+    const pivotRow = pivoted.get(time) || ({ timestamp: new Date(time).toISOString() } as PivotRow<K>);
+    (pivotRow as Record<string, number | string>)[seriesKey(row)] = rowValue;
+    pivoted.set(time, pivotRow);
+  });
+
+  return Array.from(pivoted.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, pivotRow]) => pivotRow);
+};
+
+/**
+ * Rebase each series to 100 at its first positive value, so series that start mid-window still line up
+ */
+export const indexPivotRows = <K extends string>(rows: PivotRow<K>[], keys: K[], base: number = 100): PivotRow<K>[] => {
+  const startValues = new Map<K, number>();
+
+  return rows.map(row => {
+    const indexed = { timestamp: row.timestamp } as PivotRow<K>;
+    keys.forEach(key => {
+      const rowValue = row[key] as number | undefined;
+      if (rowValue === undefined) return;
+
+      if (!startValues.has(key) && rowValue > 0) startValues.set(key, rowValue);
+      const start = startValues.get(key);
+      if (start !== undefined) {
+        (indexed as Record<string, number | string>)[key] = (rowValue / start) * base;
+      }
+    });
+    return indexed;
+  });
+};
+
+/**
+ * Drop zero and negative values, which a log scale cannot plot
+ */
+export const dropNonPositive = <K extends string>(rows: PivotRow<K>[], keys: K[]): PivotRow<K>[] => {
+  return rows.map(row => {
+    const filtered = { timestamp: row.timestamp } as PivotRow<K>;
+    keys.forEach(key => {
+      const rowValue = row[key] as number | undefined;
+      if (rowValue !== undefined && rowValue > 0) {
+        (filtered as Record<string, number | string>)[key] = rowValue;
+      }
+    });
+    return filtered;
+  });
+};
@@ -0,0 +1,109 @@
+/**
+ * User Preferences
+ * Versioned persistence of UserPreferences in localStorage with migrations for older stored shapes
+ */
+
+import {
+  LOCAL_STORAGE_KEYS,
+  PREFERENCES_VERSION,
+  REFRESH_INTERVAL_OPTIONS,
+  DEFAULT_REFRESH_INTERVAL,
+  DEFAULT_WORKSPACE_NAME,
+  DEFAULT_DASHBOARD_VIEW_MODE,
+  SORT_OPTIONS,
+  SORT_ORDERS,
+  TIMEFRAME_OPTIONS,
+  SYSTEM_THEME
+} from '../constants';
+import {
+  safeLocalStorageGet,
+  safeLocalStorageSet,
+  isValidProtocolToken,
+  getProtocolFromToken,
+  getTokenFromProtocol
+} from './helpers';
+import { createWorkspace, sanitizeWorkspaces } from './workspaces';
+import { DEFAULT_DASHBOARD_VIEW } from './urlState';
+import { sanitizeFeeScenarios } from './feeSimulator';
+import { isThemePreference } from './theme';
+import type { UserPreferences } from '../types';
+
+type StoredPreferences = Record<string, unknown>;
+
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  version: PREFERENCES_VERSION,
+  ...DEFAULT_DASHBOARD_VIEW,
+  theme: SYSTEM_THEME,
+  autoRefresh: true,
+  refreshInterval: DEFAULT_REFRESH_INTERVAL,
+  workspaces: [createWorkspace(DEFAULT_WORKSPACE_NAME, DEFAULT_DASHBOARD_VIEW_MODE)],
+  activeWorkspace: DEFAULT_WORKSPACE_NAME,
+  feeScenarios: [],
+};
+
+/**
+ * MIGRATIONS[n] upgrades a blob stored at version n to version n + 1.
+ * Blobs without a version field are version 0.
+ */
+const MIGRATIONS: Array<(stored: StoredPreferences) => StoredPreferences> = [
+  // v0 → v1: the protocol was sometimes stored as its token ("HYPE") rather than its name
+  (stored) => {
+    const protocol = typeof stored.selectedProtocol === 'string' ? stored.selectedProtocol.toUpperCase() : '';
+    return isValidProtocolToken(protocol)
+      ? { ...stored, selectedProtocol: getProtocolFromToken(protocol) }
+      : stored;
+  },
+  // v1 → v2: 'dark' was stored without the user ever choosing it; follow the system instead
+  (stored) => (stored.theme === 'dark' ? { ...stored, theme: SYSTEM_THEME } : stored),
+  // v2 → v3: fee simulator scenarios added; older blobs have none
+  (stored) => ({ ...stored, feeScenarios: [] }),
+];
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T => {
+  return typeof value === 'string' && (options as readonly string[]).includes(value);
+};
+
+const migratePreferences = (stored: StoredPreferences): StoredPreferences => {
+  const storedVersion = typeof stored.version === 'number' ? stored.version : 0;
+  return MIGRATIONS.slice(storedVersion).reduce((result, migrate) => migrate(result), stored);
+};
+
+/**
+ * Validate every field of a migrated blob, replacing anything unusable with its default
+ */
+const sanitizePreferences = (stored: StoredPreferences): UserPreferences => {
+  const defaults = DEFAULT_USER_PREFERENCES;
+  const { selectedProtocol, sortBy, sortOrder, timeframe, theme, autoRefresh, refreshInterval } = stored;
+  const workspaceState = sanitizeWorkspaces(stored.workspaces, stored.activeWorkspace);
+
+  return {
+    version: PREFERENCES_VERSION,
+    selectedProtocol: typeof selectedProtocol === 'string' && getTokenFromProtocol(selectedProtocol)
+      ? selectedProtocol
+      : defaults.selectedProtocol,
+    sortBy: isOneOf(SORT_OPTIONS, sortBy) ? sortBy : defaults.sortBy,
+    sortOrder: isOneOf(SORT_ORDERS, sortOrder) ? sortOrder : defaults.sortOrder,
+    timeframe: isOneOf(TIMEFRAME_OPTIONS, timeframe) ? timeframe : defaults.timeframe,
+    theme: isThemePreference(theme) ? theme : defaults.theme,
+    autoRefresh: typeof autoRefresh === 'boolean' ? autoRefresh : defaults.autoRefresh,
+    refreshInterval: (REFRESH_INTERVAL_OPTIONS as readonly unknown[]).includes(refreshInterval)
+      ? refreshInterval as number
+      : defaults.refreshInterval,
+    ...workspaceState,
+    feeScenarios: sanitizeFeeScenarios(stored.feeScenarios),
+  };
+};
+
+/**
+ * Read, migrate and validate stored preferences
+ */
+export const loadUserPreferences = (): UserPreferences => {
+  const stored = safeLocalStorageGet<unknown>(LOCAL_STORAGE_KEYS.USER_PREFERENCES, {});
+  const blob = stored && typeof stored === 'object' && !Array.isArray(stored) ? stored as StoredPreferences : {};
+  return sanitizePreferences(migratePreferences(blob));
+};
+
+export const saveUserPreferences = (preferences: UserPreferences): boolean => {
+  return safeLocalStorageSet(LOCAL_STORAGE_KEYS.USER_PREFERENCES, preferences);
+};
+
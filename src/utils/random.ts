@@ -0,0 +1,54 @@
+/**
+ * Seeded random number generation
+ * Reproducible alternative to Math.random for sample data, demos and screenshots
+ */
+
+export interface SeededRandom {
+  /** Next float in [0, 1) */
+  next(): number;
+  /** Float in [min, max) */
+  between(min: number, max: number): number;
+  /** base scaled by a factor in [1 - percent, 1 + percent) */
+  vary(base: number, percent: number): number;
+  /** Approximately normal sample with mean 0 and standard deviation 1 */
+  gaussian(): number;
+}
+
+/**
+ * Hash a string seed into a 32-bit integer (FNV-1a)
+ */
+export const hashSeed = (seed: string | number): number => {
+  const text = String(seed);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Create a mulberry32 generator; the same seed always yields the same sequence
+ */
+export const createSeededRandom = (seed: string | number): SeededRandom => {
+  let state = hashSeed(seed);
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    between: (min, max) => min + next() * (max - min),
+    vary: (base, percent) => base * (1 + (next() * 2 - 1) * percent),
+    gaussian: () => {
+      // Irwin–Hall approximation: sum of 12 uniforms minus 6
+      let sum = 0;
+      for (let i = 0; i < 12; i++) sum += next();
+      return sum - 6;
+    },
+  };
+};
@@ -0,0 +1,51 @@
+/**
+ * Router
+ * Minimal path-based routing on the History API
+ */
+
+import type { MouseEvent } from 'react';
+import { isValidProtocolToken } from './helpers';
+import type { AppRoute } from '../types';
+
+const PROTOCOL_PATH = /^\/protocol\/([^/]+)\/?$/;
+
+export const ROUTE_PATHS = {
+  DASHBOARD: '/',
+  protocol: (token: string): string => `/protocol/${encodeURIComponent(token)}`,
+} as const;
+
+/**
+ * Resolve a pathname to a route; protocol paths with an unknown token resolve to notFound
+ */
+export const matchRoute = (pathname: string): AppRoute => {
+  if (pathname === ROUTE_PATHS.DASHBOARD || pathname === '') {
+    return { name: 'dashboard' };
+  }
+
+  const protocolMatch = pathname.match(PROTOCOL_PATH);
+  if (protocolMatch) {
+    const token = decodeURIComponent(protocolMatch[1]).toUpperCase();
+    return isValidProtocolToken(token) ? { name: 'protocol', token } : { name: 'notFound' };
+  }
+
+  return { name: 'notFound' };
+};
+
+/**
+ * Push a new path and notify listeners the same way back/forward navigation does
+ */
+export const navigate = (path: string): void => {
+  if (path === window.location.pathname + window.location.search) return;
+  window.history.pushState(null, '', path);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+  window.scrollTo(0, 0);
+};
+
+/**
+ * Click handler for in-app links: plain left clicks navigate in place, modified clicks open normally
+ */
+export const handleLinkClick = (event: MouseEvent<HTMLAnchorElement>, path: string): void => {
+  if (event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+  event.preventDefault();
+  navigate(path);
+};
@@ -0,0 +1,79 @@
+/**
+ * Run-Rate Model
+ * Annualised buyback from a trailing window of stored buyback rows (HistoricalChart.value_usd),
+ * with a confidence band from the day-to-day variance inside the window
+ */
+
+import { DAY_MS, RUN_RATE_CONFIG } from '../constants';
+import type { RunRateWindow } from '../constants';
+import type { HistoricalDataPoint, RunRateEstimate } from '../types';
+
+const DAYS_PER_YEAR = 365;
+
+type BuybackRow = Pick<HistoricalDataPoint, 'timestamp' | 'value_usd'>;
+
+const reportedEstimate = (reportedAnnual: number, windowDays: RunRateWindow, observedDays: number): RunRateEstimate => ({
+  annualized: reportedAnnual,
+  low: reportedAnnual,
+  high: reportedAnnual,
+  method: 'reported',
+  windowDays,
+  observedDays,
+});
+
+/**
+ * Estimate one protocol's annual buyback from its stored rows over the last `windowDays`.
+ *
+ * Rows are summed into 24h buckets counted back from `now`; a covered day without rows counts as
+ * zero, since each row holds everything bought since the previous one. When stored history starts
+ * inside the window only the covered days are used ('partial'), and with fewer than
+ * RUN_RATE_CONFIG.MIN_OBSERVED_DAYS the protocol's reported estimate is returned unchanged.
+ */
+export const estimateRunRate = (
+  rows: BuybackRow[],
+  windowDays: RunRateWindow,
+  reportedAnnual: number,
+  now: number = Date.now()
+): RunRateEstimate => {
+  const timed = rows
+    .map(row => ({ time: new Date(row.timestamp).getTime(), value: row.value_usd }))
+    .filter((row): row is { time: number; value: number } =>
+      !isNaN(row.time) && row.time <= now && typeof row.value === 'number' && isFinite(row.value)
+    );
+  if (timed.length === 0) {
+    return reportedEstimate(reportedAnnual, windowDays, 0);
+  }
+
+  const earliest = Math.min(...timed.map(row => row.time));
+  const observedDays = Math.min(windowDays, Math.ceil((now - earliest) / DAY_MS) || 1);
+  if (observedDays < RUN_RATE_CONFIG.MIN_OBSERVED_DAYS) {
+    return reportedEstimate(reportedAnnual, windowDays, observedDays);
+  }
+
+  const daily = new Array<number>(observedDays).fill(0);
+  timed.forEach(row => {
+    const daysAgo = Math.floor((now - row.time) / DAY_MS);
+    if (daysAgo < observedDays) daily[daysAgo] += row.value;
+  });
+
+  const mean = daily.reduce((sum, value) => sum + value, 0) / observedDays;
+  const variance = daily.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (observedDays - 1);
+  const margin = RUN_RATE_CONFIG.CONFIDENCE_Z * Math.sqrt(variance / observedDays) * DAYS_PER_YEAR;
+  const annualized = mean * DAYS_PER_YEAR;
+
+  return {
+    annualized,
+    low: Math.max(0, annualized - margin),
+    high: annualized + margin,
+    method: observedDays < windowDays ? 'partial' : 'trailing',
+    windowDays,
+    observedDays,
+  };
+};
+
+/**
+ * Relative half-width of the band, e.g. 0.12 for ±12%; null when the estimate is zero
+ */
+export const getRunRateUncertainty = (estimate: RunRateEstimate): number | null => {
+  return estimate.annualized > 0 ? (estimate.high - estimate.low) / 2 / estimate.annualized : null;
+};
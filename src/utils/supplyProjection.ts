@@ -0,0 +1,88 @@
+/**
+ * Supply Projection
+ * Net circulating supply month by month from today's supply, a buyback run-rate and monthly
+ * emissions, under bear, base and bull buyback scenarios
+ */
+
+import { SUPPLY_SCENARIOS, SUPPLY_SCENARIO_BUYBACK_MULTIPLIERS } from '../constants';
+import type { SupplyScenario } from '../constants';
+import { tokensUnlockedBetween } from './emissionsSchedule';
+import type { SupplyProjection, SupplyProjectionPoint, TokenSchedule } from '../types';
+
+const MONTHS_PER_YEAR = 12;
+
+const addMonths = (start: Date, months: number): string => {
+  const date = new Date(start.getTime());
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.toISOString();
+};
+
+const byScenario = <T>(getValue: (scenario: SupplyScenario) => T): Record<SupplyScenario, T> => {
+  return SUPPLY_SCENARIOS.reduce((values, scenario) => {
+    values[scenario] = getValue(scenario);
+    return values;
+  }, {} as Record<SupplyScenario, T>);
+};
+
+/**
+ * Tokens the schedule emits or unlocks in each month 1..months after `start`
+ */
+export const getMonthlyEmissions = (schedule: TokenSchedule, months: number, start: Date): number[] => {
+  return Array.from({ length: months }, (_, index) => (
+    tokensUnlockedBetween(schedule, addMonths(start, index), addMonths(start, index + 1))
+  ));
+};
+
+/**
+ * Project one month ahead of `start` per entry in `emissions`, the tokens entering circulation that month.
+ *
+ * Buybacks are converted to tokens at today's price and taken out of circulation, so a scenario's
+ * supply is today's supply plus everything emitted minus everything bought. The crossover month is
+ * the first month with emissions whose cumulative buybacks reach cumulative emissions, i.e. supply
+ * is back at or below today's level. Without any emissions there is nothing to overtake, so every
+ * scenario's crossover stays null.
+ */
+export const projectSupply = (
+  circulatingSupply: number,
+  annualBuybackUSD: number,
+  price: number,
+  emissions: number[],
+  start: Date = new Date()
+): SupplyProjection => {
+  const baseMonthlyTokens = price > 0 ? Math.max(0, annualBuybackUSD) / MONTHS_PER_YEAR / price : 0;
+  const monthlyBuybackTokens = byScenario(scenario => baseMonthlyTokens * SUPPLY_SCENARIO_BUYBACK_MULTIPLIERS[scenario]);
+
+  const cumulativeEmissions: number[] = [];
+  emissions.reduce((total, tokens) => {
+    cumulativeEmissions.push(total + Math.max(0, tokens));
+    return total + Math.max(0, tokens);
+  }, 0);
+
+  const crossoverMonth = byScenario<number | null>(() => null);
+  const points: SupplyProjectionPoint[] = [{
+    month: 0,
+    timestamp: start.toISOString(),
+    emitted: 0,
+    ...byScenario(() => circulatingSupply),
+  }];
+
+  cumulativeEmissions.forEach((emitted, index) => {
+    const month = index + 1;
+    const bought = byScenario(scenario => monthlyBuybackTokens[scenario] * month);
+
+    SUPPLY_SCENARIOS.forEach(scenario => {
+      if (crossoverMonth[scenario] === null && emitted > 0 && bought[scenario] >= emitted) {
+        crossoverMonth[scenario] = month;
+      }
+    });
+
+    points.push({
+      month,
+      timestamp: addMonths(start, month),
+      emitted,
+      ...byScenario(scenario => Math.max(0, circulatingSupply + emitted - bought[scenario])),
+    });
+  });
+
+  return { points, monthlyBuybackTokens, crossoverMonth };
+};
@@ -0,0 +1,78 @@
+/**
+ * Theme Utilities
+ * Resolve the active theme and write its palette to CSS variables on the document root
+ */
+
+import { THEME_REGISTRY, DARK_THEME, LIGHT_THEME, SYSTEM_THEME } from '../constants';
+import type { ThemeColors, ThemeDefinition, ThemePreference } from '../types';
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const THEME_VARIABLE = /^rgb\(var\((--[\w-]+)\)\)$/;
+
+export const PREFERS_LIGHT_QUERY = '(prefers-color-scheme: light)';
+
+/**
+ * '#00ff87' → '0 255 135', the channel format used by rgb(var(--token) / alpha)
+ */
+const toRgbChannels = (hex: string): string => {
+  const match = HEX_COLOR.exec(hex.trim());
+  if (!match) return '0 0 0';
+  const digits = match[1].length === 3
+    ? match[1].split('').map(digit => digit + digit).join('')
+    : match[1];
+  return [0, 2, 4].map(offset => parseInt(digits.slice(offset, offset + 2), 16)).join(' ');
+};
+
+const toKebabCase = (value: string): string => value.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+/**
+ * CSS custom properties for a theme, e.g. { '--color-surface-raised': '15 15 15', '--color-gray-400': ... }
+ */
+export const getThemeVariables = (theme: ThemeDefinition): Record<string, string> => {
+  const { gray, ...tokens } = theme.colors;
+  const variables: Record<string, string> = {};
+
+  (Object.keys(tokens) as Array<keyof Omit<ThemeColors, 'gray'>>).forEach(token => {
+    variables[`--color-${toKebabCase(token)}`] = toRgbChannels(tokens[token]);
+  });
+  Object.keys(gray).forEach(shade => {
+    variables[`--color-gray-${shade}`] = toRgbChannels(gray[Number(shade) as keyof ThemeColors['gray']]);
+  });
+
+  return variables;
+};
+
+export const isThemePreference = (value: unknown): value is ThemePreference => {
+  return value === SYSTEM_THEME || THEME_REGISTRY.some(theme => theme.id === value);
+};
+
+/**
+ * The theme to render: an explicit choice wins, otherwise follow the operating system
+ */
+export const resolveTheme = (preference: ThemePreference, prefersLight: boolean): ThemeDefinition => {
+  const chosen = THEME_REGISTRY.find(theme => theme.id === preference);
+  if (chosen) return chosen;
+  return prefersLight ? LIGHT_THEME : DARK_THEME;
+};
+
+export const applyTheme = (theme: ThemeDefinition): void => {
+  const root = document.documentElement;
+  const variables = getThemeVariables(theme);
+
+  Object.keys(variables).forEach(name => root.style.setProperty(name, variables[name]));
+  root.dataset.theme = theme.id;
+  root.style.colorScheme = theme.mode;
+
+  const themeColor = document.querySelector<HTMLMetaElement>('meta[name="theme-color"]');
+  if (themeColor) themeColor.content = theme.colors.background;
+};
+
+/**
+ * Add transparency to a THEME_COLORS token or a hex colour; other values are returned unchanged
+ */
+export const withAlpha = (color: string, alpha: number): string => {
+  const variable = THEME_VARIABLE.exec(color);
+  if (variable) return `rgb(var(${variable[1]}) / ${alpha})`;
+  if (HEX_COLOR.test(color)) return `rgb(${toRgbChannels(color)} / ${alpha})`;
+  return color;
+};
@@ -0,0 +1,136 @@
+/**
+ * URL State
+ * Serialises the dashboard view to and from the query string so any view can be shared as a link
+ */
+
+import {
+  URL_PARAMS,
+  SORT_OPTIONS,
+  SORT_ORDERS,
+  TIMEFRAME_OPTIONS,
+  DEFAULT_TIMEFRAME,
+  RUN_RATE_WINDOWS,
+  DEFAULT_RUN_RATE_WINDOW
+} from '../constants';
+import {
+  buildQueryString,
+  parseQueryString,
+  isValidProtocolToken,
+  getProtocolFromToken,
+  getTokenFromProtocol
+} from './helpers';
+import type { DashboardView } from '../types';
+
+export const DEFAULT_DASHBOARD_VIEW: DashboardView = {
+  selectedProtocol: 'Hyperliquid',
+  sortBy: 'marketCap',
+  sortOrder: 'desc',
+  timeframe: DEFAULT_TIMEFRAME,
+  runRateWindow: DEFAULT_RUN_RATE_WINDOW,
+};
+
+const MANAGED_PARAMS: string[] = Object.values(URL_PARAMS);
+
+const isOneOf = <T extends string>(options: readonly T[], value: string | undefined): value is T => {
+  return value !== undefined && (options as readonly string[]).includes(value);
+};
+
+/**
+ * Read the view from a query string; unknown or invalid values are dropped rather than guessed
+ */
+export const parseDashboardView = (search: string): Partial<DashboardView> => {
+  const params = parseQueryString(search);
+  const view: Partial<DashboardView> = {};
+
+  const token = params[URL_PARAMS.PROTOCOL]?.toUpperCase();
+  const timeframe = params[URL_PARAMS.TIMEFRAME];
+  const sortBy = params[URL_PARAMS.SORT_BY];
+  const sortOrder = params[URL_PARAMS.SORT_ORDER];
+  const runRateWindow = RUN_RATE_WINDOWS.find(days => String(days) === params[URL_PARAMS.RUN_RATE_WINDOW]);
+
+  if (token && isValidProtocolToken(token)) view.selectedProtocol = getProtocolFromToken(token);
+  if (isOneOf(TIMEFRAME_OPTIONS, timeframe)) view.timeframe = timeframe;
+  if (isOneOf(SORT_OPTIONS, sortBy)) view.sortBy = sortBy;
+  if (isOneOf(SORT_ORDERS, sortOrder)) view.sortOrder = sortOrder;
+  if (runRateWindow !== undefined) view.runRateWindow = runRateWindow;
+
+  return view;
+};
+
+/**
+ * Build the canonical query string for a view: fixed parameter order, defaults omitted,
+ * and any parameters the dashboard does not own (e.g. ?scenario=) preserved.
+ * A value is only left implicit when it matches both the global default and the
+ * user's own defaults, so reloading the URL restores the same view
+ */
+export const buildDashboardSearch = (
+  view: DashboardView,
+  currentSearch: string = '',
+  defaults: DashboardView = DEFAULT_DASHBOARD_VIEW
+): string => {
+  const params: Record<string, string> = {};
+  const isImplicit = <K extends keyof DashboardView>(key: K): boolean =>
+    view[key] === DEFAULT_DASHBOARD_VIEW[key] && view[key] === defaults[key];
+
+  const token = getTokenFromProtocol(view.selectedProtocol);
+  if (token && !isImplicit('selectedProtocol')) params[URL_PARAMS.PROTOCOL] = token;
+  if (!isImplicit('timeframe')) params[URL_PARAMS.TIMEFRAME] = view.timeframe;
+  if (!isImplicit('sortBy')) params[URL_PARAMS.SORT_BY] = view.sortBy;
+  if (!isImplicit('sortOrder')) params[URL_PARAMS.SORT_ORDER] = view.sortOrder;
+  if (!isImplicit('runRateWindow')) params[URL_PARAMS.RUN_RATE_WINDOW] = String(view.runRateWindow);
+
+  const existing = parseQueryString(currentSearch);
+  Object.keys(existing)
+    .filter(key => !MANAGED_PARAMS.includes(key))
+    .forEach(key => {
+      params[key] = existing[key];
+    });
+
+  const query = buildQueryString(params);
+  return query ? `?${query}` : '';
+};
+
+/**
+ * Point <link rel="canonical"> at the protocol's page, ignoring sort and timeframe
+ */
+const updateCanonicalLink = (protocol: string): void => {
+  const search = buildDashboardSearch({ ...DEFAULT_DASHBOARD_VIEW, selectedProtocol: protocol });
+  const href = `${window.location.origin}${window.location.pathname}${search}`;
+
+  let link = document.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+  if (!link) {
+    link = document.createElement('link');
+    link.rel = 'canonical';
+    document.head.appendChild(link);
+  }
+  link.href = href;
+};
+
+/**
+ * Write the view to the address bar when it differs from the URL; a no-op after back/forward navigation.
+ * Use 'replace' to canonicalise the URL on first load without adding a history entry
+ */
+export const syncDashboardUrl = (
+  view: DashboardView,
+  mode: 'push' | 'replace' = 'push',
+  defaults: DashboardView = DEFAULT_DASHBOARD_VIEW
+): void => {
+  const search = buildDashboardSearch(view, window.location.search, defaults);
+  if (search !== window.location.search) {
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (mode === 'replace') {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+  }
+  updateCanonicalLink(view.selectedProtocol);
+};
+
+/**
+ * Current view from the address bar, falling back to the given defaults (e.g. the user's preferences)
+ */
+export const readDashboardUrl = (defaults: DashboardView = DEFAULT_DASHBOARD_VIEW): DashboardView => ({
+  ...defaults,
+  ...parseDashboardView(window.location.search),
+});
@@ -0,0 +1,92 @@
+/**
+ * Valuation Metrics
+ * Buyback figures normalised against market cap and protocol revenue:
+ * - buyback yield: annualised buyback / market cap, in percent
+ * - price-to-buyback: market cap / annualised buyback, a P/E-style multiple
+ * - revenue returned: annualised buyback / annualised fee revenue, in percent
+ */
+
+import type {
+  BuybackData,
+  BuybackTrendPoint,
+  HistoricalDataPoint,
+  ProtocolRevenue,
+  TokenMarketData,
+  ValuationMetrics,
+  ValuationPoint
+} from '../types';
+
+const DAYS_PER_YEAR = 365;
+
+const isPositive = (value: number | null | undefined): value is number => {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+};
+
+export const calculateBuybackYield = (annualBuyback: number, marketCap: number | null): number | null => {
+  return isPositive(marketCap) && annualBuyback >= 0 ? (annualBuyback / marketCap) * 100 : null;
+};
+
+export const calculateBuybackMultiple = (annualBuyback: number, marketCap: number | null): number | null => {
+  return isPositive(marketCap) && isPositive(annualBuyback) ? marketCap / annualBuyback : null;
+};
+
+export const calculateRevenueReturned = (annualBuyback: number, revenue24h: number | null | undefined): number | null => {
+  return isPositive(revenue24h) && annualBuyback >= 0 ? (annualBuyback / (revenue24h * DAYS_PER_YEAR)) * 100 : null;
+};
+
+const calculateMetrics = (
+  annualBuyback: number,
+  marketCap: number | null,
+  revenue24h: number | null | undefined
+): ValuationMetrics => ({
+  buybackYield: calculateBuybackYield(annualBuyback, marketCap),
+  buybackMultiple: calculateBuybackMultiple(annualBuyback, marketCap),
+  revenueReturned: calculateRevenueReturned(annualBuyback, revenue24h),
+});
+
+/**
+ * Current metrics for one protocol; missing market data or revenue leaves the dependent metrics null.
+ * Pass annualBuyback to value a different estimate (e.g. a trailing run-rate) than the reported one.
+ */
+export const calculateValuationMetrics = (
+  data: BuybackData,
+  market?: TokenMarketData,
+  revenue?: ProtocolRevenue,
+  annualBuyback: number = data.estimatedAnnualBuyback
+): ValuationMetrics => {
+  return calculateMetrics(
+    annualBuyback,
+    market ? market.marketCap : null,
+    revenue ? revenue.feeGeneration24h : null
+  );
+};
+
+/**
+ * Metrics at each stored buyback snapshot, valued at the last stored market cap at or before it.
+ * Snapshots that predate market history, or lack an annual estimate, are skipped.
+ */
+export const buildValuationHistory = (
+  trends: BuybackTrendPoint[],
+  priceHistory: HistoricalDataPoint[]
+): ValuationPoint[] => {
+  const marketCaps = priceHistory
+    .filter(point => isPositive(point.marketCap))
+    .map(point => ({ time: new Date(point.timestamp).getTime(), marketCap: point.marketCap }))
+    .sort((a, b) => a.time - b.time);
+
+  const points: ValuationPoint[] = [];
+  let capIndex = -1;
+  trends.forEach(trend => {
+    const time = new Date(trend.timestamp).getTime();
+    while (capIndex + 1 < marketCaps.length && marketCaps[capIndex + 1].time <= time) {
+      capIndex++;
+    }
+    if (capIndex < 0 || trend.estimated_annual_buyback === undefined) return;
+
+    points.push({
+      timestamp: trend.timestamp,
+      ...calculateMetrics(trend.estimated_annual_buyback, marketCaps[capIndex].marketCap, trend.fee_generation_24h),
+    });
+  });
+  return points;
+};
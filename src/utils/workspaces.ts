@@ -0,0 +1,177 @@
+/**
+ * Dashboard Workspaces
+ * Preset widget layouts per view mode and validation of the named workspaces stored in user preferences
+ */
+
+import {
+  DASHBOARD_WIDGETS,
+  DASHBOARD_VIEW_MODES,
+  LAYOUT_BREAKPOINTS,
+  GRID_CONFIG,
+  DEFAULT_WORKSPACE_NAME,
+  DEFAULT_DASHBOARD_VIEW_MODE
+} from '../constants';
+import type { DashboardViewMode, DashboardWidgetId, LayoutBreakpoint } from '../constants';
+import type { DashboardWorkspace, WidgetLayout, WorkspaceLayouts } from '../types';
+
+export interface WorkspaceState {
+  workspaces: DashboardWorkspace[];
+  activeWorkspace: string;
+}
+
+// Placement on the 12-column large grid for each view mode; smaller breakpoints are derived from it
+const VIEW_MODE_LAYOUTS: Record<DashboardViewMode, WidgetLayout[]> = {
+  overview: [
+    { i: 'globalStats', x: 0, y: 0, w: 12, h: 7, minW: 4, minH: 2 },
+    { i: 'chart', x: 0, y: 7, w: 8, h: 16, minW: 4, minH: 8 },
+    { i: 'protocolSelector', x: 8, y: 7, w: 4, h: 16, minW: 3, minH: 6 },
+    { i: 'netFlow', x: 0, y: 23, w: 12, h: 9, minW: 4, minH: 6 },
+    { i: 'comparison', x: 0, y: 32, w: 12, h: 14, minW: 4, minH: 8 },
+    { i: 'protocolTable', x: 0, y: 46, w: 12, h: 12, minW: 4, minH: 6 },
+    { i: 'bubbleChart', x: 0, y: 58, w: 6, h: 10, minW: 3, minH: 6 },
+    { i: 'performanceMetrics', x: 6, y: 58, w: 6, h: 10, minW: 4, minH: 8 },
+    { i: 'leaderboards', x: 0, y: 68, w: 12, h: 12, minW: 4, minH: 6 },
+  ],
+  market: [
+    { i: 'globalStats', x: 0, y: 0, w: 12, h: 7, minW: 4, minH: 2 },
+    { i: 'marketOverview', x: 0, y: 7, w: 12, h: 14, minW: 4, minH: 8 },
+    { i: 'bubbleChart', x: 0, y: 21, w: 5, h: 12, minW: 3, minH: 6 },
+    { i: 'comparison', x: 5, y: 21, w: 7, h: 12, minW: 4, minH: 8 },
+    { i: 'protocolTable', x: 0, y: 33, w: 12, h: 12, minW: 4, minH: 6 },
+  ],
+  protocol: [
+    { i: 'protocolHero', x: 0, y: 0, w: 12, h: 20, minW: 4, minH: 10 },
+    { i: 'chart', x: 0, y: 20, w: 8, h: 16, minW: 4, minH: 8 },
+    { i: 'protocolSelector', x: 8, y: 20, w: 4, h: 16, minW: 3, minH: 6 },
+    { i: 'netFlow', x: 0, y: 36, w: 12, h: 9, minW: 4, minH: 6 },
+    { i: 'changes', x: 0, y: 45, w: 12, h: 8, minW: 4, minH: 6 },
+    { i: 'valuation', x: 0, y: 53, w: 12, h: 10, minW: 4, minH: 7 },
+    { i: 'marketImpact', x: 0, y: 63, w: 12, h: 11, minW: 4, minH: 8 },
+    { i: 'supplyProjection', x: 0, y: 74, w: 12, h: 16, minW: 4, minH: 10 },
+    { i: 'feeSimulator', x: 0, y: 90, w: 12, h: 18, minW: 4, minH: 10 },
+  ],
+  leaderboards: [
+    { i: 'leaderboards', x: 0, y: 0, w: 12, h: 12, minW: 4, minH: 6 },
+    { i: 'performanceMetrics', x: 0, y: 12, w: 6, h: 10, minW: 4, minH: 8 },
+    { i: 'bubbleChart', x: 6, y: 12, w: 6, h: 10, minW: 3, minH: 6 },
+    { i: 'protocolTable', x: 0, y: 22, w: 12, h: 12, minW: 4, minH: 6 },
+  ],
+};
+
+const isWidgetId = (value: unknown): value is DashboardWidgetId => {
+  return typeof value === 'string' && (DASHBOARD_WIDGETS as readonly string[]).includes(value);
+};
+
+const isViewMode = (value: unknown): value is DashboardViewMode => {
+  return typeof value === 'string' && (DASHBOARD_VIEW_MODES as readonly string[]).includes(value);
+};
+
+/**
+ * Scale a large layout to a breakpoint; narrow grids stack widgets full width in layout order
+ */
+const deriveLayout = (breakpoint: LayoutBreakpoint, base: WidgetLayout[]): WidgetLayout[] => {
+  const columns = GRID_CONFIG.COLUMNS[breakpoint];
+
+  if (columns >= GRID_CONFIG.COLUMNS.md) {
+    const scale = columns / GRID_CONFIG.COLUMNS.lg;
+    return base.map(item => ({
+      ...item,
+      x: Math.round(item.x * scale),
+      w: Math.max(1, Math.round(item.w * scale)),
+      minW: item.minW ? Math.min(columns, Math.round(item.minW * scale)) : undefined,
+    }));
+  }
+
+  let y = 0;
+  return base.map(item => {
+    const stacked = { ...item, x: 0, y, w: columns, minW: Math.min(columns, item.minW || 1) };
+    y += item.h;
+    return stacked;
+  });
+};
+
+export const getViewModeWidgets = (viewMode: DashboardViewMode = DEFAULT_DASHBOARD_VIEW_MODE): DashboardWidgetId[] => {
+  return VIEW_MODE_LAYOUTS[viewMode].map(item => item.i);
+};
+
+export const buildDefaultLayouts = (viewMode: DashboardViewMode = DEFAULT_DASHBOARD_VIEW_MODE): WorkspaceLayouts => {
+  return LAYOUT_BREAKPOINTS.reduce((layouts, breakpoint) => {
+    layouts[breakpoint] = deriveLayout(breakpoint, VIEW_MODE_LAYOUTS[viewMode]);
+    return layouts;
+  }, {} as WorkspaceLayouts);
+};
+
+/**
+ * A workspace laid out from a view mode preset; without one it starts from the overview layout untagged
+ */
+export const createWorkspace = (name: string, viewMode?: DashboardViewMode): DashboardWorkspace => ({
+  name,
+  widgets: getViewModeWidgets(viewMode),
+  layouts: buildDefaultLayouts(viewMode),
+  ...(viewMode ? { viewMode } : {}),
+});
+
+/**
+ * Default placement for a widget being added back, below every item already in the breakpoint's layout.
+ * A finite y survives JSON persistence for breakpoints the grid does not re-render.
+ */
+export const getDefaultWidgetLayout = (
+  widget: DashboardWidgetId,
+  breakpoint: LayoutBreakpoint,
+  existing: WidgetLayout[]
+): WidgetLayout => {
+  // Every widget appears in at least one preset; the first one that places it sets its size
+  const viewMode = DASHBOARD_VIEW_MODES.find(mode => VIEW_MODE_LAYOUTS[mode].some(item => item.i === widget))!;
+  const [layout] = deriveLayout(breakpoint, VIEW_MODE_LAYOUTS[viewMode].filter(item => item.i === widget));
+  const bottom = existing.reduce((max, item) => Math.max(max, item.y + item.h), 0);
+  return { ...layout, x: 0, y: bottom };
+};
+
+/**
+ * Drop unknown widgets and malformed layout items from a stored workspace
+ */
+const sanitizeWorkspace = (workspace: Partial<DashboardWorkspace> | null): DashboardWorkspace | null => {
+  if (!workspace || typeof workspace.name !== 'string' || !workspace.name.trim()) return null;
+
+  const widgets = Array.isArray(workspace.widgets) ? workspace.widgets.filter(isWidgetId) : [];
+  const layouts = LAYOUT_BREAKPOINTS.reduce((result, breakpoint) => {
+    const items = workspace.layouts?.[breakpoint];
+    if (Array.isArray(items)) {
+      result[breakpoint] = items.filter(item =>
+        isWidgetId(item?.i) && widgets.includes(item.i) &&
+        [item.x, item.y, item.w, item.h].every(value => Number.isFinite(value))
+      );
+    }
+    return result;
+  }, {} as WorkspaceLayouts);
+
+  return {
+    name: workspace.name.trim(),
+    widgets,
+    layouts,
+    ...(isViewMode(workspace.viewMode) ? { viewMode: workspace.viewMode } : {}),
+  };
+};
+
+/**
+ * Validate stored workspaces, falling back to a single default workspace
+ */
+export const sanitizeWorkspaces = (workspaces: unknown, activeWorkspace: unknown): WorkspaceState => {
+  const valid = (Array.isArray(workspaces) ? workspaces : [])
+    .map(sanitizeWorkspace)
+    .filter((workspace): workspace is DashboardWorkspace => workspace !== null);
+
+  if (valid.length === 0) {
+    return {
+      workspaces: [createWorkspace(DEFAULT_WORKSPACE_NAME, DEFAULT_DASHBOARD_VIEW_MODE)],
+      activeWorkspace: DEFAULT_WORKSPACE_NAME,
+    };
+  }
+
+  return {
+    workspaces: valid,
+    activeWorkspace: valid.some(workspace => workspace.name === activeWorkspace)
+      ? activeWorkspace as string
+      : valid[0].name,
+  };
+};
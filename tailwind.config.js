@@ -1,4 +1,11 @@
 /** @type {import('tailwindcss').Config} */
+
+// Colours resolve to the active theme's CSS variables (see src/utils/theme.ts),
+// so utilities such as bg-surface or text-gray-400/50 follow the selected theme
+const themed = (token) => `rgb(var(--color-${token}) / <alpha-value>)`;
+
+const GRAY_SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
 module.exports = {
   content: [
     "./src/**/*.{js,jsx,ts,tsx}",
@@ -16,7 +23,25 @@ module.exports = {
         dark: {
           800: '#1f2937',
           900: '#111827',
-        }
+        },
+        black: themed('background'),
+        white: themed('text-primary'),
+        gray: GRAY_SHADES.reduce((shades, shade) => ({ ...shades, [shade]: themed(`gray-${shade}`) }), {}),
+        surface: {
+          DEFAULT: themed('surface'),
+          raised: themed('surface-raised'),
+          hover: themed('surface-hover'),
+          strong: themed('surface-strong'),
+        },
+        line: {
+          DEFAULT: themed('border'),
+          strong: themed('border-strong'),
+        },
+        accent: {
+          DEFAULT: themed('accent'),
+          hover: themed('accent-hover'),
+          contrast: themed('on-accent'),
+        },
       },
       animation: {
         'pulse-slow': 'pulse 3s cubic-bezier(0.4, 0, 0.6, 1) infinite',
@@ -24,4 +49,4 @@ module.exports = {
     },
   },
   plugins: [],
-}
\ No newline at end of file
+}